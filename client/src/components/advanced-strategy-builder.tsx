@@ -17,64 +17,88 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import { MovingAverageFields, getMovingAverageError } from "@/components/moving-average-settings";
+import { AssetScopePicker, EMPTY_ASSET_SCOPE, toStoredAssetScope } from "@/components/asset-scope-picker";
+import { SignalDirectionSelect } from "@/components/signal-direction-select";
+import {
+  DEFAULT_MOVING_AVERAGES,
+  movingAverageLabel,
+  TIMEFRAME_LABELS,
+  TIMEFRAMES,
+  type Asset,
+  type MovingAverageSettings,
+  type SignalDirection,
+  type StrategyAssetScope,
+} from "@shared/schema";
 
+// Conditions on the strategy's fast and slow moving averages. FAST and SLOW in labels
+// are replaced with the configured averages, e.g. "Price > EMA 9".
 const CONDITION_TYPES = [
-  { label: "Price > EMA50", value: "price_above_ema50" },
-  { label: "Price >= EMA50", value: "price_gte_ema50" },
-  { label: "Price < EMA50", value: "price_below_ema50" },
-  { label: "Price <= EMA50", value: "price_lte_ema50" },
-  { label: "Price > EMA200", value: "price_above_ema200" },
-  { label: "Price >= EMA200", value: "price_gte_ema200" },
-  { label: "Price < EMA200", value: "price_below_ema200" },
-  { label: "Price <= EMA200", value: "price_lte_ema200" },
-  { label: "EMA50 > EMA200", value: "ema50_above_ema200" },
-  { label: "EMA50 < EMA200", value: "ema50_below_ema200" },
-  { label: "EMA200 > EMA50", value: "ema200_above_ema50" },
-  { label: "Price touches EMA200", value: "price_touches_ema200" },
-  { label: "Candle close confirmed", value: "candle_close" },
+  { label: "Price > FAST", value: "price_above_fast", formula: "price > fast_ma" },
+  { label: "Price >= FAST", value: "price_gte_fast", formula: "price >= fast_ma" },
+  { label: "Price < FAST", value: "price_below_fast", formula: "price < fast_ma" },
+  { label: "Price <= FAST", value: "price_lte_fast", formula: "price <= fast_ma" },
+  { label: "Price > SLOW", value: "price_above_slow", formula: "price > slow_ma" },
+  { label: "Price >= SLOW", value: "price_gte_slow", formula: "price >= slow_ma" },
+  { label: "Price < SLOW", value: "price_below_slow", formula: "price < slow_ma" },
+  { label: "Price <= SLOW", value: "price_lte_slow", formula: "price <= slow_ma" },
+  { label: "FAST > SLOW", value: "fast_above_slow", formula: "fast_ma > slow_ma" },
+  { label: "FAST < SLOW", value: "fast_below_slow", formula: "fast_ma < slow_ma" },
+  { label: "FAST crosses above SLOW", value: "fast_crosses_above_slow", formula: "crosses_above(fast_ma, slow_ma)" },
+  { label: "FAST crosses below SLOW", value: "fast_crosses_below_slow", formula: "crosses_below(fast_ma, slow_ma)" },
+  { label: "Price touches SLOW", value: "price_touches_slow", formula: "(low <= slow_ma && price >= slow_ma)" },
+];
+
+// Candlestick patterns, written as pattern functions with an optional sensitivity threshold
+// (see candlestick-patterns.ts for the thresholds' meaning and ranges)
+const PATTERN_CONDITION_TYPES = [
+  { label: "Bullish engulfing", value: "bullish_engulfing", threshold: 1, thresholdLabel: "Min body vs previous" },
+  { label: "Bearish engulfing", value: "bearish_engulfing", threshold: 1, thresholdLabel: "Min body vs previous" },
+  { label: "Hammer", value: "hammer", threshold: 2, thresholdLabel: "Min lower shadow (bodies)" },
+  { label: "Shooting star", value: "shooting_star", threshold: 2, thresholdLabel: "Min upper shadow (bodies)" },
+  { label: "Doji", value: "doji", threshold: 0.1, thresholdLabel: "Max body vs range" },
+  { label: "Inside bar", value: "inside_bar", threshold: 1, thresholdLabel: "Max range vs previous" },
+  { label: "Morning star", value: "morning_star", threshold: 0.3, thresholdLabel: "Max star body vs first" },
+  { label: "Evening star", value: "evening_star", threshold: 0.3, thresholdLabel: "Max star body vs first" },
 ];
 
 interface Condition {
   id: string;
   type: string;
-  label: string;
+  threshold?: string; // pattern sensitivity, empty for the default
 }
 
 interface AdvancedStrategyBuilderProps {
   onBuild: (strategy: any) => void;
   isLoading?: boolean;
+  assets?: Asset[];
 }
 
-export function AdvancedStrategyBuilder({ onBuild, isLoading }: AdvancedStrategyBuilderProps) {
+export function AdvancedStrategyBuilder({ onBuild, isLoading, assets = [] }: AdvancedStrategyBuilderProps) {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [timeframe, setTimeframe] = useState("5m");
   const [conditions, setConditions] = useState<Condition[]>([]);
   const [conditionLogic, setConditionLogic] = useState<"AND" | "OR">("AND");
   const [nextConditionId, setNextConditionId] = useState(1);
+  const [movingAverages, setMovingAverages] = useState<MovingAverageSettings>(DEFAULT_MOVING_AVERAGES);
+  const movingAverageError = getMovingAverageError(movingAverages);
+  const [assetScope, setAssetScope] = useState<StrategyAssetScope>(EMPTY_ASSET_SCOPE);
+  const [direction, setDirection] = useState<SignalDirection | null>(null);
 
-  const conditionMap: { [key: string]: string } = {
-    price_above_ema50: "price > ema50",
-    price_gte_ema50: "price >= ema50",
-    price_below_ema50: "price < ema50",
-    price_lte_ema50: "price <= ema50",
-    price_above_ema200: "price > ema200",
-    price_gte_ema200: "price >= ema200",
-    price_below_ema200: "price < ema200",
-    price_lte_ema200: "price <= ema200",
-    ema50_above_ema200: "ema50 > ema200",
-    ema50_below_ema200: "ema50 < ema200",
-    ema200_above_ema50: "ema200 > ema50",
-    price_touches_ema200: "price ≈ ema200",
-    candle_close: "candle closes",
+  const getConditionLabel = (type: string): string => {
+    const pattern = PATTERN_CONDITION_TYPES.find((p) => p.value === type);
+    if (pattern) return pattern.label;
+    const label = CONDITION_TYPES.find((c) => c.value === type)?.label || type;
+    return label
+      .replace("FAST", movingAverageLabel(movingAverages.maType, movingAverages.fastPeriod))
+      .replace("SLOW", movingAverageLabel(movingAverages.maType, movingAverages.slowPeriod));
   };
 
   const addCondition = (type: string) => {
-    const conditionLabel = CONDITION_TYPES.find((c) => c.value === type)?.label || type;
     const newCondition: Condition = {
       id: `cond-${nextConditionId}`,
       type,
-      label: conditionLabel,
     };
     setConditions([...conditions, newCondition]);
     setNextConditionId(nextConditionId + 1);
@@ -84,9 +108,21 @@ export function AdvancedStrategyBuilder({ onBuild, isLoading }: AdvancedStrategy
     setConditions(conditions.filter((c) => c.id !== id));
   };
 
+  const setConditionThreshold = (id: string, threshold: string) => {
+    setConditions(conditions.map((c) => (c.id === id ? { ...c, threshold } : c)));
+  };
+
+  const conditionFormula = (condition: Condition): string => {
+    if (PATTERN_CONDITION_TYPES.some((p) => p.value === condition.type)) {
+      return `${condition.type}(${condition.threshold?.trim() ?? ""})`;
+    }
+    return CONDITION_TYPES.find((type) => type.value === condition.type)?.formula || condition.type;
+  };
+
   const buildFormula = (): string => {
     if (conditions.length === 0) return "";
-    return conditions.map((c) => conditionMap[c.type] || c.type).join(` ${conditionLogic} `);
+    const operator = conditionLogic === "AND" ? "&&" : "||";
+    return conditions.map(conditionFormula).join(` ${operator} `);
   };
 
   const handleBuild = () => {
@@ -94,6 +130,10 @@ export function AdvancedStrategyBuilder({ onBuild, isLoading }: AdvancedStrategy
       alert("Please enter strategy name and add at least one condition");
       return;
     }
+    if (movingAverageError) {
+      alert(movingAverageError);
+      return;
+    }
 
     const formula = buildFormula();
     const conditionsObj: any = {};
@@ -109,7 +149,10 @@ export function AdvancedStrategyBuilder({ onBuild, isLoading }: AdvancedStrategy
       conditions: conditionsObj,
       isCustom: true,
       enabled: true,
-      formula: null,
+      formula,
+      ...movingAverages,
+      assetScope: toStoredAssetScope(assetScope),
+      direction,
     });
   };
 
@@ -145,8 +188,9 @@ export function AdvancedStrategyBuilder({ onBuild, isLoading }: AdvancedStrategy
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="5m">5 Minutes</SelectItem>
-              <SelectItem value="15m">15 Minutes</SelectItem>
+              {TIMEFRAMES.map((tf) => (
+                <SelectItem key={tf} value={tf}>{TIMEFRAME_LABELS[tf]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -175,6 +219,25 @@ export function AdvancedStrategyBuilder({ onBuild, isLoading }: AdvancedStrategy
         </div>
       </div>
 
+      <MovingAverageFields value={movingAverages} onChange={setMovingAverages} idPrefix="builder-ma" />
+
+      <div className="space-y-2">
+        <Label>Signal Direction</Label>
+        <SignalDirectionSelect value={direction} onChange={setDirection} testId="select-builder-direction" />
+      </div>
+
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button variant="outline" size="sm" className="w-full gap-2" data-testid="button-asset-scope">
+            Asset Scope
+            <ChevronDown className="h-4 w-4 ml-auto" />
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="mt-3">
+          <AssetScopePicker value={assetScope} onChange={setAssetScope} assets={assets} idPrefix="builder-scope" />
+        </CollapsibleContent>
+      </Collapsible>
+
       <Collapsible defaultOpen>
         <CollapsibleTrigger asChild>
           <Button variant="outline" size="sm" className="w-full gap-2" data-testid="button-add-conditions">
@@ -194,7 +257,22 @@ export function AdvancedStrategyBuilder({ onBuild, isLoading }: AdvancedStrategy
                 onClick={() => addCondition(condition.value)}
                 data-testid={`button-add-condition-${condition.value}`}
               >
-                {condition.label}
+                {getConditionLabel(condition.value)}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs font-medium text-muted-foreground mt-3 mb-2">Candlestick Patterns</p>
+          <div className="grid grid-cols-2 gap-2">
+            {PATTERN_CONDITION_TYPES.map((pattern) => (
+              <Button
+                key={pattern.value}
+                variant="ghost"
+                size="sm"
+                className="text-xs h-8 justify-start"
+                onClick={() => addCondition(pattern.value)}
+                data-testid={`button-add-condition-${pattern.value}`}
+              >
+                {pattern.label}
               </Button>
             ))}
           </div>
@@ -208,23 +286,38 @@ export function AdvancedStrategyBuilder({ onBuild, isLoading }: AdvancedStrategy
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="space-y-2">
-              {conditions.map((cond, idx) => (
-                <div key={cond.id} className="flex items-center justify-between gap-2 p-2 bg-background rounded border">
-                  <div className="flex items-center gap-2 flex-1 min-w-0">
-                    {idx > 0 && <Badge variant="secondary" className="text-xs shrink-0">{conditionLogic}</Badge>}
-                    <span className="text-sm truncate">{cond.label}</span>
+              {conditions.map((cond, idx) => {
+                const pattern = PATTERN_CONDITION_TYPES.find((p) => p.value === cond.type);
+                return (
+                  <div key={cond.id} className="flex items-center justify-between gap-2 p-2 bg-background rounded border">
+                    <div className="flex items-center gap-2 flex-1 min-w-0">
+                      {idx > 0 && <Badge variant="secondary" className="text-xs shrink-0">{conditionLogic}</Badge>}
+                      <span className="text-sm truncate">{getConditionLabel(cond.type)}</span>
+                    </div>
+                    {pattern && (
+                      <Input
+                        type="number"
+                        step="0.1"
+                        className="h-7 w-24 text-xs shrink-0"
+                        placeholder={String(pattern.threshold)}
+                        title={pattern.thresholdLabel}
+                        value={cond.threshold ?? ""}
+                        onChange={(e) => setConditionThreshold(cond.id, e.target.value)}
+                        data-testid={`input-condition-threshold-${cond.id}`}
+                      />
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6 shrink-0"
+                      onClick={() => removeCondition(cond.id)}
+                      data-testid={`button-remove-condition-${cond.id}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
                   </div>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    className="h-6 w-6 shrink-0"
-                    onClick={() => removeCondition(cond.id)}
-                    data-testid={`button-remove-condition-${cond.id}`}
-                  >
-                    <X className="h-3 w-3" />
-                  </Button>
-                </div>
-              ))}
+                );
+              })}
             </div>
 
             {buildFormula() && (
@@ -239,7 +332,7 @@ export function AdvancedStrategyBuilder({ onBuild, isLoading }: AdvancedStrategy
 
       <Button
         onClick={handleBuild}
-        disabled={!name || conditions.length === 0 || isLoading}
+        disabled={!name || conditions.length === 0 || movingAverageError !== null || isLoading}
         className="w-full"
         data-testid="button-build-strategy"
       >
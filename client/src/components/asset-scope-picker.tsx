@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  ASSET_TYPES,
+  getStrategyAssetScope,
+  isAssetInScope,
+  type Asset,
+  type AssetType,
+  type Strategy,
+  type StrategyAssetScope,
+} from "@shared/schema";
+
+const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  indian_stock: "Indian Stocks",
+  indian_futures: "Indian Futures",
+  forex: "Forex",
+};
+
+export const EMPTY_ASSET_SCOPE: StrategyAssetScope = { assetIds: [], assetTypes: [], exchanges: [], tags: [] };
+
+/**
+ * Enabled assets a strategy with this scope runs on
+ */
+export function countAssetsInScope(assets: Asset[], scope: StrategyAssetScope | null): number {
+  return assets.filter((asset) => asset.enabled && isAssetInScope(asset, scope)).length;
+}
+
+/**
+ * Scope to store on a strategy: null when nothing is selected, so it runs on every asset
+ */
+export function toStoredAssetScope(scope: StrategyAssetScope): StrategyAssetScope | null {
+  const isEmpty = Object.values(scope).every((values) => values.length === 0);
+  return isEmpty ? null : scope;
+}
+
+function toggle<T>(values: T[], value: T, checked: boolean): T[] {
+  return checked ? [...values, value] : values.filter((v) => v !== value);
+}
+
+interface ScopeOptionsProps {
+  title: string;
+  options: Array<{ value: string; label: string }>;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  idPrefix: string;
+}
+
+function ScopeOptions({ title, options, selected, onChange, idPrefix }: ScopeOptionsProps) {
+  if (options.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h5 className="text-xs font-medium text-muted-foreground">{title}</h5>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {options.map((option) => (
+          <div key={option.value} className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-${option.value}`}
+              checked={selected.includes(option.value)}
+              onCheckedChange={(checked) => onChange(toggle(selected, option.value, checked === true))}
+              data-testid={`checkbox-${idPrefix}-${option.value}`}
+            />
+            <Label htmlFor={`${idPrefix}-${option.value}`} className="text-sm font-normal">
+              {option.label}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface AssetScopePickerProps {
+  value: StrategyAssetScope;
+  onChange: (value: StrategyAssetScope) => void;
+  assets: Asset[];
+  idPrefix?: string;
+}
+
+/**
+ * Pick the assets a strategy runs on: asset types, exchanges and tags narrow it down,
+ * and individually picked assets are always included
+ */
+export function AssetScopePicker({ value, onChange, assets, idPrefix = "scope" }: AssetScopePickerProps) {
+  const exchanges = Array.from(new Set(assets.map((asset) => asset.exchange).filter((e): e is string => !!e))).sort();
+  const tags = Array.from(new Set(assets.flatMap((asset) => asset.tags ?? []))).sort();
+  const count = countAssetsInScope(assets, toStoredAssetScope(value));
+
+  return (
+    <div className="space-y-3">
+      <ScopeOptions
+        title="Asset Types"
+        options={ASSET_TYPES.map((type) => ({ value: type, label: ASSET_TYPE_LABELS[type] }))}
+        selected={value.assetTypes}
+        onChange={(assetTypes) => onChange({ ...value, assetTypes: assetTypes as AssetType[] })}
+        idPrefix={`${idPrefix}-type`}
+      />
+      <ScopeOptions
+        title="Exchanges"
+        options={exchanges.map((exchange) => ({ value: exchange, label: exchange }))}
+        selected={value.exchanges}
+        onChange={(selected) => onChange({ ...value, exchanges: selected })}
+        idPrefix={`${idPrefix}-exchange`}
+      />
+      <ScopeOptions
+        title="Tags"
+        options={tags.map((tag) => ({ value: tag, label: tag }))}
+        selected={value.tags}
+        onChange={(selected) => onChange({ ...value, tags: selected })}
+        idPrefix={`${idPrefix}-tag`}
+      />
+      <div className="space-y-2">
+        <h5 className="text-xs font-medium text-muted-foreground">Always Include</h5>
+        <ScrollArea className="h-32 rounded-md border p-2">
+          <div className="space-y-2">
+            {assets.map((asset) => (
+              <div key={asset.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${idPrefix}-asset-${asset.id}`}
+                  checked={value.assetIds.includes(asset.id)}
+                  onCheckedChange={(checked) => onChange({ ...value, assetIds: toggle(value.assetIds, asset.id, checked === true) })}
+                  data-testid={`checkbox-${idPrefix}-asset-${asset.id}`}
+                />
+                <Label htmlFor={`${idPrefix}-asset-${asset.id}`} className="text-sm font-normal">
+                  <span className="font-mono">{asset.symbol}</span>
+                  <span className="text-muted-foreground"> · {asset.name}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+      <p className="text-xs text-muted-foreground" data-testid={`text-${idPrefix}-count`}>
+        Runs on {count} of {assets.filter((asset) => asset.enabled).length} enabled assets
+        {toStoredAssetScope(value) === null && " (no scope: every asset)"}
+      </p>
+    </div>
+  );
+}
+
+interface StrategyAssetScopeEditorProps {
+  strategy: Strategy;
+  assets: Asset[];
+  onSave: (value: StrategyAssetScope | null) => void;
+  isSaving?: boolean;
+}
+
+/**
+ * Edit an existing strategy's asset scope
+ */
+export function StrategyAssetScopeEditor({ strategy, assets, onSave, isSaving }: StrategyAssetScopeEditorProps) {
+  const [value, setValue] = useState<StrategyAssetScope>(getStrategyAssetScope(strategy) ?? EMPTY_ASSET_SCOPE);
+  const changed = JSON.stringify(toStoredAssetScope(value)) !== JSON.stringify(getStrategyAssetScope(strategy));
+
+  return (
+    <div className="space-y-3">
+      <AssetScopePicker value={value} onChange={setValue} assets={assets} idPrefix={`scope-${strategy.id}`} />
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => onSave(toStoredAssetScope(value))}
+          disabled={!changed || isSaving}
+          data-testid={`button-save-scope-${strategy.id}`}
+        >
+          {isSaving ? "Saving..." : "Save Asset Scope"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MAX_MOVING_AVERAGE_PERIOD,
+  MOVING_AVERAGE_TYPES,
+  movingAverageWarmup,
+  type MovingAverageSettings,
+  type MovingAverageType,
+  type Strategy,
+} from "@shared/schema";
+
+const MOVING_AVERAGE_TYPE_LABELS: Record<MovingAverageType, string> = {
+  ema: "EMA (Exponential)",
+  sma: "SMA (Simple)",
+  wma: "WMA (Weighted)",
+  rma: "RMA (Wilder)",
+  dema: "DEMA (Double EMA)",
+  tema: "TEMA (Triple EMA)",
+  hma: "HMA (Hull)",
+};
+
+/**
+ * Problem with the settings, or null if the server will accept them
+ */
+export function getMovingAverageError(settings: MovingAverageSettings): string | null {
+  const { fastPeriod, slowPeriod } = settings;
+  if (!Number.isInteger(fastPeriod) || !Number.isInteger(slowPeriod) || fastPeriod < 1 || slowPeriod > MAX_MOVING_AVERAGE_PERIOD) {
+    return `Periods must be whole numbers from 1 to ${MAX_MOVING_AVERAGE_PERIOD}`;
+  }
+  if (fastPeriod >= slowPeriod) {
+    return "Fast period must be shorter than slow period";
+  }
+  if (movingAverageWarmup(settings.maType, slowPeriod) > MAX_MOVING_AVERAGE_PERIOD) {
+    return `${settings.maType.toUpperCase()} ${slowPeriod} needs ${movingAverageWarmup(settings.maType, slowPeriod)} bars; only ${MAX_MOVING_AVERAGE_PERIOD} are kept`;
+  }
+  return null;
+}
+
+interface MovingAverageFieldsProps {
+  value: MovingAverageSettings;
+  onChange: (value: MovingAverageSettings) => void;
+  idPrefix?: string;
+}
+
+/**
+ * MA type and fast/slow period inputs for the moving averages a strategy's fast_ma and slow_ma read
+ */
+export function MovingAverageFields({ value, onChange, idPrefix = "ma" }: MovingAverageFieldsProps) {
+  const error = getMovingAverageError(value);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-type`}>MA Type</Label>
+          <Select
+            value={value.maType}
+            onValueChange={(maType) => onChange({ ...value, maType: maType as MovingAverageType })}
+          >
+            <SelectTrigger id={`${idPrefix}-type`} data-testid={`select-${idPrefix}-type`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MOVING_AVERAGE_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {MOVING_AVERAGE_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-fast`}>Fast Period</Label>
+          <Input
+            id={`${idPrefix}-fast`}
+            type="number"
+            min={1}
+            max={MAX_MOVING_AVERAGE_PERIOD}
+            value={value.fastPeriod}
+            onChange={(e) => onChange({ ...value, fastPeriod: parseInt(e.target.value, 10) })}
+            data-testid={`input-${idPrefix}-fast`}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-slow`}>Slow Period</Label>
+          <Input
+            id={`${idPrefix}-slow`}
+            type="number"
+            min={2}
+            max={MAX_MOVING_AVERAGE_PERIOD}
+            value={value.slowPeriod}
+            onChange={(e) => onChange({ ...value, slowPeriod: parseInt(e.target.value, 10) })}
+            data-testid={`input-${idPrefix}-slow`}
+          />
+        </div>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+interface StrategyMovingAverageEditorProps {
+  strategy: Strategy;
+  onSave: (value: MovingAverageSettings) => void;
+  isSaving?: boolean;
+}
+
+/**
+ * Edit an existing strategy's moving averages
+ */
+export function StrategyMovingAverageEditor({ strategy, onSave, isSaving }: StrategyMovingAverageEditorProps) {
+  const [value, setValue] = useState<MovingAverageSettings>({
+    maType: strategy.maType as MovingAverageType,
+    fastPeriod: strategy.fastPeriod,
+    slowPeriod: strategy.slowPeriod,
+  });
+  const changed =
+    value.maType !== strategy.maType ||
+    value.fastPeriod !== strategy.fastPeriod ||
+    value.slowPeriod !== strategy.slowPeriod;
+
+  return (
+    <div className="space-y-3">
+      <MovingAverageFields value={value} onChange={setValue} idPrefix={`ma-${strategy.id}`} />
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => onSave(value)}
+          disabled={!changed || getMovingAverageError(value) !== null || isSaving}
+          data-testid={`button-save-ma-${strategy.id}`}
+        >
+          {isSaving ? "Saving..." : "Save Moving Averages"}
+        </Button>
+      </div>
+    </div>
+  );
+}
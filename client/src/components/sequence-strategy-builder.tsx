@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SignalDirectionSelect } from "@/components/signal-direction-select";
+import {
+  MAX_SEQUENCE_STEPS,
+  sequenceStepLabel,
+  strategySequenceSchema,
+  TIMEFRAME_LABELS,
+  TIMEFRAMES,
+  type SignalDirection,
+} from "@shared/schema";
+
+interface StepDraft {
+  id: number;
+  source: "formula" | "preset";
+  formula: string;
+  preset: string;
+  maxBars: number;
+  invalidation: string;
+}
+
+function emptyStep(id: number): StepDraft {
+  return { id, source: "formula", formula: "", preset: "", maxBars: 3, invalidation: "" };
+}
+
+interface SequenceStrategyBuilderProps {
+  onBuild: (strategy: any) => void;
+  presets: Array<{ type: string; name: string }>;
+  isLoading?: boolean;
+}
+
+/**
+ * Build a sequence strategy: steps that must match in order, each within a number of bars of the last
+ */
+export function SequenceStrategyBuilder({ onBuild, presets, isLoading }: SequenceStrategyBuilderProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [timeframe, setTimeframe] = useState("5m");
+  const [direction, setDirection] = useState<SignalDirection | null>(null);
+  const [steps, setSteps] = useState<StepDraft[]>([emptyStep(1), emptyStep(2)]);
+  const [nextStepId, setNextStepId] = useState(3);
+
+  const sequence = strategySequenceSchema.safeParse({
+    steps: steps.map((step, index) => ({
+      formula: step.source === "formula" ? step.formula.trim() || null : null,
+      preset: step.source === "preset" ? step.preset || null : null,
+      maxBars: step.maxBars,
+      invalidation: index > 0 ? step.invalidation.trim() || null : null,
+    })),
+  });
+
+  const updateStep = (id: number, changes: Partial<StepDraft>) => {
+    setSteps(steps.map((step) => (step.id === id ? { ...step, ...changes } : step)));
+  };
+
+  const addStep = () => {
+    setSteps([...steps, emptyStep(nextStepId)]);
+    setNextStepId(nextStepId + 1);
+  };
+
+  const handleBuild = () => {
+    if (!sequence.success) return;
+
+    const conditions: Record<string, string> = {};
+    sequence.data.steps.forEach((step, index) => {
+      conditions[`step${index + 1}`] = sequenceStepLabel(step);
+    });
+
+    onBuild({
+      name,
+      description,
+      type: `sequence_${Date.now()}`,
+      timeframe,
+      conditions,
+      isCustom: true,
+      enabled: true,
+      sequence: sequence.data,
+      direction,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="sequence-name">Strategy Name</Label>
+        <Input
+          id="sequence-name"
+          placeholder="e.g., Pullback to 200 then reclaim 50"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          data-testid="input-sequence-name"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="sequence-desc">Description (optional)</Label>
+        <Input
+          id="sequence-desc"
+          placeholder="What does this sequence look for?"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          data-testid="input-sequence-desc"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="sequence-timeframe">Timeframe</Label>
+          <Select value={timeframe} onValueChange={setTimeframe}>
+            <SelectTrigger id="sequence-timeframe" data-testid="select-sequence-timeframe">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIMEFRAMES.map((tf) => (
+                <SelectItem key={tf} value={tf}>{TIMEFRAME_LABELS[tf]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Signal Direction</Label>
+          <SignalDirectionSelect value={direction} onChange={setDirection} testId="select-sequence-direction" />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {steps.map((step, index) => (
+          <Card key={step.id} className="bg-muted/30">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="text-xs">Step {index + 1}</Badge>
+                  {index > 0 && (
+                    <span className="text-xs text-muted-foreground">within {step.maxBars} bars of step {index}</span>
+                  )}
+                </div>
+                {steps.length > 2 && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => setSteps(steps.filter((s) => s.id !== step.id))}
+                    data-testid={`button-remove-step-${index + 1}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <Select
+                  value={step.source}
+                  onValueChange={(source) => updateStep(step.id, { source: source as StepDraft["source"] })}
+                >
+                  <SelectTrigger data-testid={`select-step-source-${index + 1}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="formula">Formula</SelectItem>
+                    <SelectItem value="preset">Preset</SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="col-span-2">
+                  {step.source === "formula" ? (
+                    <Input
+                      placeholder="e.g., price > fast_ma"
+                      value={step.formula}
+                      onChange={(e) => updateStep(step.id, { formula: e.target.value })}
+                      className="font-mono"
+                      data-testid={`input-step-formula-${index + 1}`}
+                    />
+                  ) : (
+                    <Select value={step.preset} onValueChange={(preset) => updateStep(step.id, { preset })}>
+                      <SelectTrigger data-testid={`select-step-preset-${index + 1}`}>
+                        <SelectValue placeholder="Choose a preset" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {presets.map((preset) => (
+                          <SelectItem key={preset.type} value={preset.type}>
+                            {preset.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+
+              {index > 0 && (
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor={`step-bars-${step.id}`} className="text-xs">Max bars</Label>
+                    <Input
+                      id={`step-bars-${step.id}`}
+                      type="number"
+                      min={1}
+                      value={step.maxBars}
+                      onChange={(e) => updateStep(step.id, { maxBars: parseInt(e.target.value, 10) })}
+                      data-testid={`input-step-bars-${index + 1}`}
+                    />
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <Label htmlFor={`step-invalidation-${step.id}`} className="text-xs">Invalidation (optional)</Label>
+                    <Input
+                      id={`step-invalidation-${step.id}`}
+                      placeholder="e.g., price < slow_ma"
+                      value={step.invalidation}
+                      onChange={(e) => updateStep(step.id, { invalidation: e.target.value })}
+                      className="font-mono"
+                      data-testid={`input-step-invalidation-${index + 1}`}
+                    />
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {steps.length < MAX_SEQUENCE_STEPS && (
+        <Button variant="outline" size="sm" className="w-full gap-2" onClick={addStep} data-testid="button-add-step">
+          <Plus className="h-4 w-4" />
+          Add Step
+        </Button>
+      )}
+
+      {!sequence.success && (
+        <p className="text-xs text-muted-foreground">{sequence.error.errors[0]?.message}</p>
+      )}
+
+      <Button
+        onClick={handleBuild}
+        disabled={!name || !sequence.success || isLoading}
+        className="w-full"
+        data-testid="button-build-sequence"
+      >
+        {isLoading ? "Creating..." : "Create Sequence Strategy"}
+      </Button>
+    </div>
+  );
+}
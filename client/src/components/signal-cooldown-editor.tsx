@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MAX_SIGNAL_COOLDOWN_MINUTES, type Strategy } from "@shared/schema";
+
+interface SignalCooldownEditorProps {
+  strategy: Strategy;
+  onSave: (cooldownMinutes: number) => void;
+  isSaving?: boolean;
+}
+
+/**
+ * Edit how long a strategy waits before sending the same signal again for an asset
+ */
+export function SignalCooldownEditor({ strategy, onSave, isSaving }: SignalCooldownEditorProps) {
+  const [value, setValue] = useState<number>(strategy.cooldownMinutes);
+  const valid = Number.isInteger(value) && value >= 0 && value <= MAX_SIGNAL_COOLDOWN_MINUTES;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-end gap-3">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor={`cooldown-${strategy.id}`}>Cooldown (minutes)</Label>
+          <Input
+            id={`cooldown-${strategy.id}`}
+            type="number"
+            min={0}
+            max={MAX_SIGNAL_COOLDOWN_MINUTES}
+            value={value}
+            onChange={(e) => setValue(parseInt(e.target.value, 10))}
+            data-testid={`input-cooldown-${strategy.id}`}
+          />
+        </div>
+        <Button
+          size="sm"
+          onClick={() => onSave(value)}
+          disabled={value === strategy.cooldownMinutes || !valid || isSaving}
+          data-testid={`button-save-cooldown-${strategy.id}`}
+        >
+          {isSaving ? "Saving..." : "Save Cooldown"}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {valid
+          ? "Repeats of a signal within this window are counted on the original instead of being sent. 0 sends every new signal."
+          : `Cooldown must be a whole number from 0 to ${MAX_SIGNAL_COOLDOWN_MINUTES}`}
+      </p>
+    </div>
+  );
+}
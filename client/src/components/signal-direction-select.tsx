@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SIGNAL_DIRECTIONS, type SignalDirection, type Strategy } from "@shared/schema";
+
+const DIRECTION_LABELS: Record<SignalDirection, string> = {
+  long: "Long",
+  short: "Short",
+  neutral: "Neutral",
+};
+
+// Select value standing in for null, since Select items cannot have an empty value
+const PRESET_DEFAULT = "preset";
+
+interface SignalDirectionSelectProps {
+  value: SignalDirection | null;
+  onChange: (value: SignalDirection | null) => void;
+  testId: string;
+}
+
+/**
+ * Pick the direction a strategy's signals are sent with. Null keeps the preset's own direction
+ * (neutral for custom strategies).
+ */
+export function SignalDirectionSelect({ value, onChange, testId }: SignalDirectionSelectProps) {
+  return (
+    <Select
+      value={value ?? PRESET_DEFAULT}
+      onValueChange={(selected) => onChange(selected === PRESET_DEFAULT ? null : (selected as SignalDirection))}
+    >
+      <SelectTrigger data-testid={testId}>
+        <SelectValue placeholder="Direction" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PRESET_DEFAULT}>Strategy default</SelectItem>
+        {SIGNAL_DIRECTIONS.map((direction) => (
+          <SelectItem key={direction} value={direction}>
+            {DIRECTION_LABELS[direction]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface SignalDirectionEditorProps {
+  strategy: Strategy;
+  onSave: (direction: SignalDirection | null) => void;
+  isSaving?: boolean;
+}
+
+/**
+ * Edit the direction of an existing strategy's signals
+ */
+export function SignalDirectionEditor({ strategy, onSave, isSaving }: SignalDirectionEditorProps) {
+  const [value, setValue] = useState<SignalDirection | null>(strategy.direction as SignalDirection | null);
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex-1">
+        <SignalDirectionSelect value={value} onChange={setValue} testId={`select-direction-${strategy.id}`} />
+      </div>
+      <Button
+        size="sm"
+        onClick={() => onSave(value)}
+        disabled={value === strategy.direction || isSaving}
+        data-testid={`button-save-direction-${strategy.id}`}
+      >
+        {isSaving ? "Saving..." : "Save Direction"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  getSignalOutcome,
+  getStrategyOutcomeRules,
+  signalOutcomeRulesSchema,
+  type Signal,
+  type SignalOutcomeRules,
+  type Strategy,
+  type StrategyOutcomeSummary,
+} from "@shared/schema";
+
+function formatPercent(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "—";
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+/**
+ * Win rate of a strategy's labelled signals, e.g. "62% (8/13)"
+ */
+export function formatWinRate(summary: StrategyOutcomeSummary | undefined): string {
+  if (!summary || summary.winRate === null) return "—";
+  return `${Math.round(summary.winRate * 100)}% (${summary.wins}/${summary.wins + summary.losses})`;
+}
+
+interface StrategyOutcomeSummaryViewProps {
+  summary: StrategyOutcomeSummary | undefined;
+}
+
+/**
+ * How a strategy's signals have played out: results, average forward returns and excursions
+ */
+export function StrategyOutcomeSummaryView({ summary }: StrategyOutcomeSummaryViewProps) {
+  if (!summary || summary.signals === 0) {
+    return <p className="text-xs text-muted-foreground">No signal outcomes tracked yet</p>;
+  }
+
+  return (
+    <div className="space-y-2 text-xs font-mono">
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        <span>Win rate: {formatWinRate(summary)}</span>
+        <span className="text-chart-2">Wins: {summary.wins}</span>
+        <span className="text-destructive">Losses: {summary.losses}</span>
+        <span className="text-muted-foreground">Expired: {summary.expired}</span>
+        <span className="text-muted-foreground">Tracking: {summary.tracking}</span>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {Object.entries(summary.averageReturns).map(([horizon, value]) => (
+          <span key={horizon}>
+            <span className="text-muted-foreground">{horizon} bars:</span> {formatPercent(value)}
+          </span>
+        ))}
+        <span>
+          <span className="text-muted-foreground">MFE:</span> {formatPercent(summary.averageMfe)}
+        </span>
+        <span>
+          <span className="text-muted-foreground">MAE:</span> {formatPercent(summary.averageMae)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface SignalOutcomeBadgeProps {
+  signal: Signal;
+}
+
+/**
+ * Result of a signal once decided, or how many bars it has been tracked for
+ */
+export function SignalOutcomeBadge({ signal }: SignalOutcomeBadgeProps) {
+  const outcome = getSignalOutcome(signal);
+  if (!outcome) return null;
+
+  const lastReturn = Object.values(outcome.returns).pop();
+  const title = `MFE ${formatPercent(outcome.mfe)}, MAE ${formatPercent(outcome.mae)}` +
+    (lastReturn !== undefined ? `, return ${formatPercent(lastReturn)}` : "");
+
+  if (outcome.result === null) {
+    return (
+      <Badge variant="outline" className="text-xs" title={title} data-testid={`badge-outcome-${signal.id}`}>
+        {outcome.status === "tracking" ? `Tracking ${outcome.bars}/${Math.max(...outcome.rules.horizons)}` : "Unlabelled"}
+      </Badge>
+    );
+  }
+
+  const variant = outcome.result === "win" ? "default" : outcome.result === "loss" ? "destructive" : "secondary";
+  return (
+    <Badge variant={variant} className="text-xs capitalize" title={title} data-testid={`badge-outcome-${signal.id}`}>
+      {outcome.result}
+    </Badge>
+  );
+}
+
+interface StrategyOutcomeRulesEditorProps {
+  strategy: Strategy;
+  onSave: (outcomeRules: SignalOutcomeRules) => void;
+  isSaving?: boolean;
+}
+
+/**
+ * Edit the horizons, target and stop a strategy's signal outcomes are measured against.
+ * Changes apply to signals raised after saving.
+ */
+export function StrategyOutcomeRulesEditor({ strategy, onSave, isSaving }: StrategyOutcomeRulesEditorProps) {
+  const rules = getStrategyOutcomeRules(strategy);
+  const [horizons, setHorizons] = useState(rules.horizons.join(", "));
+  const [targetPercent, setTargetPercent] = useState(rules.targetPercent?.toString() ?? "");
+  const [stopPercent, setStopPercent] = useState(rules.stopPercent?.toString() ?? "");
+
+  const parsed = signalOutcomeRulesSchema.safeParse({
+    horizons: horizons.split(",").map((h) => h.trim()).filter(Boolean).map(Number),
+    targetPercent: targetPercent.trim() === "" ? null : Number(targetPercent),
+    stopPercent: stopPercent.trim() === "" ? null : Number(stopPercent),
+  });
+  const changed = parsed.success && JSON.stringify(parsed.data) !== JSON.stringify(rules);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor={`horizons-${strategy.id}`}>Horizons (bars)</Label>
+          <Input
+            id={`horizons-${strategy.id}`}
+            placeholder="3, 6, 12"
+            value={horizons}
+            onChange={(e) => setHorizons(e.target.value)}
+            data-testid={`input-horizons-${strategy.id}`}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`target-${strategy.id}`}>Target (%)</Label>
+          <Input
+            id={`target-${strategy.id}`}
+            type="number"
+            min={0}
+            step="0.1"
+            placeholder="None"
+            value={targetPercent}
+            onChange={(e) => setTargetPercent(e.target.value)}
+            data-testid={`input-target-${strategy.id}`}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`stop-${strategy.id}`}>Stop (%)</Label>
+          <Input
+            id={`stop-${strategy.id}`}
+            type="number"
+            min={0}
+            step="0.1"
+            placeholder="None"
+            value={stopPercent}
+            onChange={(e) => setStopPercent(e.target.value)}
+            data-testid={`input-stop-${strategy.id}`}
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-muted-foreground">
+          {parsed.success
+            ? "Without a target or stop, the return at the last horizon decides win or loss. Applies to new signals."
+            : parsed.error.errors[0]?.message}
+        </p>
+        <Button
+          size="sm"
+          onClick={() => parsed.success && onSave(parsed.data)}
+          disabled={!changed || isSaving}
+          data-testid={`button-save-outcome-rules-${strategy.id}`}
+        >
+          {isSaving ? "Saving..." : "Save Outcome Rules"}
+        </Button>
+      </div>
+    </div>
+  );
+}
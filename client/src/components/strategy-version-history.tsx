@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { History, RotateCcw } from "lucide-react";
+import type {
+  Strategy,
+  StrategyVersion,
+  StrategyVersionChange,
+  StrategyVersionComparison,
+} from "@shared/schema";
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Created",
+  update: "Updated",
+  rollback: "Rolled back",
+  baseline: "Before first recorded change",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function ChangeList({ changes }: { changes: StrategyVersionChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No differences</p>;
+  }
+  return (
+    <div className="space-y-1 text-xs font-mono">
+      {changes.map((change) => (
+        <div key={change.field} className="break-words">
+          <span className="text-muted-foreground">{change.field}:</span>{" "}
+          <span className="text-destructive line-through">{formatValue(change.from)}</span>{" "}
+          <span className="text-chart-2">{formatValue(change.to)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface StrategyVersionHistoryProps {
+  strategy: Strategy;
+  canRollback: boolean;
+}
+
+/**
+ * Recorded versions of a strategy with what changed in each, a comparison of any two versions,
+ * and (for admins) rollback to an earlier version
+ */
+export function StrategyVersionHistory({ strategy, canRollback }: StrategyVersionHistoryProps) {
+  const { toast } = useToast();
+  const { data: versions = [], isLoading } = useQuery<StrategyVersion[]>({
+    queryKey: ["/api/strategies", strategy.id, "versions"],
+  });
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string | null>(null);
+
+  // Compare the previous version with the latest one until others are picked
+  const compareFrom = from ?? (versions.length > 1 ? String(versions[1].version) : null);
+  const compareTo = to ?? (versions.length > 1 ? String(versions[0].version) : null);
+  const { data: comparison } = useQuery<StrategyVersionComparison>({
+    queryKey: [`/api/strategies/${strategy.id}/versions/compare?from=${compareFrom}&to=${compareTo}`],
+    enabled: compareFrom !== null && compareTo !== null && compareFrom !== compareTo,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: number) =>
+      apiRequest("POST", `/api/strategies/${strategy.id}/versions/${version}/rollback`, {}),
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+      setFrom(null);
+      setTo(null);
+      toast({
+        title: "Strategy rolled back",
+        description: `Version ${version} was restored as a new version.`,
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading versions...</p>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Version {strategy.version}. No changes recorded yet; the next change records this version first.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {versions.map((version) => (
+          <div key={version.id} className="space-y-2 rounded-md bg-muted/50 p-3" data-testid={`version-${strategy.id}-${version.version}`}>
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div className="flex items-center gap-2 flex-wrap text-xs">
+                <Badge variant={version.version === strategy.version ? "default" : "outline"} className="font-mono text-xs">
+                  v{version.version}
+                </Badge>
+                <span>
+                  {version.action === "rollback" && version.sourceVersion !== null
+                    ? `Rolled back to v${version.sourceVersion}`
+                    : ACTION_LABELS[version.action] ?? version.action}
+                </span>
+                <span className="text-muted-foreground">
+                  {version.authorName ? `by ${version.authorName} ` : ""}
+                  {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+              {canRollback && version.version !== strategy.version && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 gap-1 text-xs"
+                  disabled={rollbackMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`Restore version ${version.version}? This is saved as a new version.`)) {
+                      rollbackMutation.mutate(version.version);
+                    }
+                  }}
+                  data-testid={`button-rollback-${strategy.id}-${version.version}`}
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  Roll back
+                </Button>
+              )}
+            </div>
+            {version.action !== "create" && version.action !== "baseline" && (
+              <ChangeList changes={version.changes as StrategyVersionChange[]} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-xs">
+            <History className="h-3 w-3 text-muted-foreground" />
+            <span>Compare</span>
+            <Select value={compareFrom ?? undefined} onValueChange={setFrom}>
+              <SelectTrigger className="h-8 w-20" data-testid={`select-compare-from-${strategy.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={String(version.version)}>v{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>with</span>
+            <Select value={compareTo ?? undefined} onValueChange={setTo}>
+              <SelectTrigger className="h-8 w-20" data-testid={`select-compare-to-${strategy.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={String(version.version)}>v{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {compareFrom === compareTo ? (
+            <p className="text-xs text-muted-foreground">Pick two different versions</p>
+          ) : (
+            comparison && <ChangeList changes={comparison.changes} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
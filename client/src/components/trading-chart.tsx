@@ -1,5 +1,5 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import { createChart, IChartApi, ISeriesApi, CandlestickData, Time, LineStyle, CrosshairMode, CandlestickSeries, HistogramSeries } from "lightweight-charts";
+import { createChart, IChartApi, ISeriesApi, CandlestickData, Time, LineStyle, CrosshairMode, CandlestickSeries, HistogramSeries, LineSeries } from "lightweight-charts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -10,6 +10,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
 import {
   TrendingUp,
   TrendingDown,
@@ -29,6 +30,16 @@ interface TradingChartProps {
   selectedTool: string;
 }
 
+// Indicators the chart can draw: overlays share the price pane, oscillators get a pane below it
+const CHART_INDICATORS: Record<string, { label: string; pane: number; lines: Record<string, string> }> = {
+  bollinger: { label: "Bollinger Bands", pane: 0, lines: { upper: "#3b82f6", middle: "#64748b", lower: "#3b82f6" } },
+  vwap: { label: "VWAP", pane: 0, lines: { vwap: "#a855f7" } },
+  supertrend: { label: "SuperTrend", pane: 0, lines: { values: "#f97316" } },
+  rsi: { label: "RSI (14)", pane: 1, lines: { rsi: "#8b5cf6" } },
+  macd: { label: "MACD", pane: 1, lines: { macd: "#3b82f6", signal: "#f97316" } },
+  atr: { label: "ATR (14)", pane: 1, lines: { atr: "#ef4444" } },
+};
+
 // Generate initial candle data
 const generateInitialData = (basePrice: number, count: number = 100): CandlestickData[] => {
   const data: CandlestickData[] = [];
@@ -66,6 +77,9 @@ export function TradingChart({ symbol, name, basePrice, color, isLive, selectedT
   const candleSeriesRef = useRef<any>(null);
   const volumeSeriesRef = useRef<any>(null);
   const selectedToolRef = useRef(selectedTool);
+  const volumesRef = useRef<Map<Time, number>>(new Map());
+  const indicatorSeriesRef = useRef<ISeriesApi<"Line">[]>([]);
+  const [indicator, setIndicator] = useState("none");
   const [currentData, setCurrentData] = useState<CandlestickData[]>([]);
   const [currentPrice, setCurrentPrice] = useState(basePrice);
   const [priceChange, setPriceChange] = useState(0);
@@ -159,6 +173,7 @@ export function TradingChart({ symbol, name, basePrice, color, isLive, selectedT
       color: candle.close >= candle.open ? 'rgba(16, 185, 129, 0.5)' : 'rgba(239, 68, 68, 0.5)',
     }));
     volumeSeries.setData(volumeData);
+    volumesRef.current = new Map(volumeData.map(v => [v.time, v.value]));
     
     setCurrentData(initialData);
     setCurrentPrice(initialData[initialData.length - 1].close);
@@ -214,9 +229,56 @@ export function TradingChart({ symbol, name, basePrice, color, isLive, selectedT
     
     return () => {
       window.removeEventListener('resize', handleResize);
+      indicatorSeriesRef.current = [];
       chart.remove();
     };
   }, [symbol, basePrice]);
+
+  // Redraw the selected indicator whenever a new candle opens
+  const lastCandleTime = currentData.length > 0 ? currentData[currentData.length - 1].time : null;
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+
+    indicatorSeriesRef.current.forEach(series => chart.removeSeries(series));
+    indicatorSeriesRef.current = [];
+
+    const definition = CHART_INDICATORS[indicator];
+    if (!definition || currentData.length === 0) return;
+
+    let cancelled = false;
+    const candles = currentData.map(c => ({
+      high: c.high,
+      low: c.low,
+      close: c.close,
+      volume: volumesRef.current.get(c.time) ?? 0,
+      timestamp: new Date((c.time as number) * 1000).toISOString(),
+    }));
+
+    apiRequest("POST", "/api/indicators/calculate", { indicator, candles })
+      .then(res => res.json())
+      .then((result: { series: Record<string, (number | null)[]> }) => {
+        if (cancelled || chartRef.current !== chart) return;
+        indicatorSeriesRef.current = Object.entries(definition.lines).map(([name, color]) => {
+          const series = chart.addSeries(LineSeries, {
+            color,
+            lineWidth: 1,
+            priceLineVisible: false,
+            lastValueVisible: false,
+          }, definition.pane);
+          series.setData(currentData.map((c, i) => {
+            const value = result.series[name]?.[i];
+            return value === null || value === undefined ? { time: c.time } : { time: c.time, value };
+          }));
+          return series;
+        });
+      })
+      .catch(error => console.error(`Failed to calculate ${indicator}:`, error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [indicator, lastCandleTime]);
   
   // Add horizontal line
   const addHorizontalLine = useCallback((price: number, tool: string) => {
@@ -293,9 +355,11 @@ export function TradingChart({ symbol, name, basePrice, color, isLive, selectedT
           };
           
           candleSeriesRef.current?.update(newCandle);
+          const volume = Math.floor(Math.random() * 100000) + 50000;
+          volumesRef.current.set(now, volume);
           volumeSeriesRef.current?.update({
             time: now,
-            value: Math.floor(Math.random() * 100000) + 50000,
+            value: volume,
             color: newClose >= newOpen ? 'rgba(16, 185, 129, 0.5)' : 'rgba(239, 68, 68, 0.5)',
           });
           
@@ -355,6 +419,18 @@ export function TradingChart({ symbol, name, basePrice, color, isLive, selectedT
               </div>
             </div>
             
+            <Select value={indicator} onValueChange={setIndicator}>
+              <SelectTrigger className="w-[150px] h-8 bg-white border-emerald-200 text-xs" data-testid={`select-indicator-${symbol}`}>
+                <SelectValue placeholder="Indicator" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No indicator</SelectItem>
+                {Object.entries(CHART_INDICATORS).map(([key, { label }]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             {isLive && (
               <Badge className="bg-emerald-500 animate-pulse">
                 <Zap className="h-3 w-3 mr-1" />
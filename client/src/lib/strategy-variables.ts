@@ -14,6 +14,16 @@ export const STRATEGY_VARIABLES = {
     description: "200-period Exponential Moving Average",
     example: "98.20",
   },
+  "fast_ma": {
+    type: "number",
+    description: "The strategy's fast moving average (type and period set on the strategy, EMA 50 by default)",
+    example: "100.10",
+  },
+  "slow_ma": {
+    type: "number",
+    description: "The strategy's slow moving average (type and period set on the strategy, EMA 200 by default)",
+    example: "99.40",
+  },
   "high": {
     type: "number",
     description: "Highest price in the current candle",
@@ -55,6 +65,8 @@ export const STRATEGY_OPERATORS = {
   "!=": "Not equal to",
   "&&": "AND logical operator",
   "||": "OR logical operator",
+  "[n]": "Value n closed candles ago, e.g. close[1]",
+  "@tf": "Value from the latest closed candle of another timeframe (1m, 3m, 5m, 10m, 15m, 30m, 1h, 4h or 1D), e.g. ema200@1h",
 };
 
 export const STRATEGY_FUNCTIONS = {
@@ -65,6 +77,27 @@ export const STRATEGY_FUNCTIONS = {
   "Math.floor(value)": "Round down",
   "Math.ceil(value)": "Round up",
   "((a - b) / b * 100)": "Percentage change",
+  "crosses_above(a, b)": "a was at or below b on the previous candle and is above it now",
+  "crosses_below(a, b)": "a was at or above b on the previous candle and is below it now",
+  "crosses(a, b)": "a crossed b in either direction on this candle",
+  "ema(source, period)": "Exponential moving average of a variable, e.g. ema(close, 21)",
+  "sma(source, period)": "Simple moving average of a variable, e.g. sma(close, 20)",
+  "rsi(source, period)": "Wilder's RSI (0-100) of a variable, e.g. rsi(close, 14)",
+  "atr(period)": "Wilder's Average True Range, e.g. atr(14)",
+  "macd(source)": "MACD line (12/26 EMA difference), e.g. macd(close) > macd_signal(close)",
+  "macd_signal(source)": "9-period EMA of the MACD line",
+  "macd_hist(source)": "MACD line minus its signal line",
+  "bb_upper(source, period)": "Upper Bollinger Band (2 standard deviations), e.g. bb_upper(close, 20)",
+  "bb_lower(source, period)": "Lower Bollinger Band (2 standard deviations), e.g. bb_lower(close, 20)",
+  "supertrend(period)": "SuperTrend line with a 3 ATR band; price above it means an uptrend, e.g. supertrend(10)",
+  "bullish_engulfing(ratio?)": "Bullish body covering the previous bearish body, at least ratio (default 1) times its size",
+  "bearish_engulfing(ratio?)": "Bearish body covering the previous bullish body, at least ratio (default 1) times its size",
+  "hammer(ratio?)": "Lower shadow at least ratio (default 2) bodies long, upper shadow no longer than the body",
+  "shooting_star(ratio?)": "Upper shadow at least ratio (default 2) bodies long, lower shadow no longer than the body",
+  "doji(ratio?)": "Body at most ratio (default 0.1) of the candle's range, e.g. doji(0.05)",
+  "inside_bar(ratio?)": "High and low within the previous candle's, range at most ratio (default 1) of it",
+  "morning_star(ratio?)": "Bearish candle, small star body (at most ratio, default 0.3, of it), then a bullish close above its midpoint",
+  "evening_star(ratio?)": "Bullish candle, small star body (at most ratio, default 0.3, of it), then a bearish close below its midpoint",
 };
 
 export type StrategyVariable = keyof typeof STRATEGY_VARIABLES;
@@ -52,6 +52,7 @@ const assetFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
   type: z.enum(["indian_stock", "indian_futures", "forex"]),
   exchange: z.string().optional(),
+  tags: z.string().optional(), // comma-separated
   enabled: z.boolean().default(true),
 });
 
@@ -259,6 +260,7 @@ export default function Assets() {
       name: "",
       type: "indian_stock",
       exchange: "NSE",
+      tags: "",
       enabled: true,
     },
   });
@@ -363,7 +365,8 @@ export default function Assets() {
   });
 
   const onSubmit = (data: AssetFormData) => {
-    createMutation.mutate(data);
+    const tags = (data.tags ?? "").split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+    createMutation.mutate({ ...data, tags: Array.from(new Set(tags)) });
   };
 
   const searchAssets = async (query: string) => {
@@ -625,7 +628,14 @@ export default function Assets() {
                             <TableCell className="font-mono font-bold text-lg text-primary">
                               {asset.symbol}
                             </TableCell>
-                            <TableCell className="font-semibold text-foreground">{asset.name}</TableCell>
+                            <TableCell className="font-semibold text-foreground">
+                              {asset.name}
+                              {asset.tags.map((tag) => (
+                                <Badge key={tag} variant="outline" className="ml-2 text-xs font-normal">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </TableCell>
                             <TableCell>
                               {livePrice ? (
                                 <div className="flex flex-col">
@@ -715,7 +725,14 @@ export default function Assets() {
                             <TableCell className="font-mono font-bold text-lg text-primary">
                               {asset.symbol}
                             </TableCell>
-                            <TableCell className="font-semibold text-foreground">{asset.name}</TableCell>
+                            <TableCell className="font-semibold text-foreground">
+                              {asset.name}
+                              {asset.tags.map((tag) => (
+                                <Badge key={tag} variant="outline" className="ml-2 text-xs font-normal">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </TableCell>
                             <TableCell>
                               <Badge className="text-xs font-semibold bg-chart-3 text-white">
                                 Forex
@@ -925,6 +942,23 @@ export default function Assets() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags (Optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g., nifty50, banking"
+                        {...field}
+                        data-testid="input-tags"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <DialogFooter>
                 <Button
                   type="button"
@@ -7,7 +7,7 @@ import { TradingChart } from "@/components/trading-chart";
 import { useDashboardConfig } from "@/hooks/use-dashboard-config";
 import { useAuth } from "@/hooks/use-auth";
 import { useWebSocket } from "@/hooks/use-websocket";
-import type { Signal as SignalType, Strategy, Asset } from "@shared/schema";
+import { getSignalIndicators, type Signal as SignalType, type Strategy, type Asset } from "@shared/schema";
 import { formatDistanceToNow, format } from "date-fns";
 
 export default function Dashboard() {
@@ -90,10 +90,10 @@ export default function Dashboard() {
     return labels[type] || type;
   };
 
-  const getSignalVariant = (type: string): "default" | "secondary" | "destructive" => {
-    if (type.includes("bullish") || type.includes("reversal")) return "default";
-    if (type.includes("pullback")) return "secondary";
-    return "destructive";
+  const getSignalVariant = (direction: string): "default" | "secondary" | "destructive" => {
+    if (direction === "long") return "default";
+    if (direction === "short") return "destructive";
+    return "secondary";
   };
 
   return (
@@ -223,7 +223,7 @@ export default function Dashboard() {
                           <span className="text-sm font-mono font-semibold">
                             {asset?.symbol || "Unknown"}
                           </span>
-                          <Badge variant={getSignalVariant(signal.type)} className="text-xs">
+                          <Badge variant={getSignalVariant(signal.direction)} className="text-xs">
                             {signal.timeframe.toUpperCase()}
                           </Badge>
                           <Badge variant="outline" className="text-xs">
@@ -232,8 +232,9 @@ export default function Dashboard() {
                         </div>
                         <div className="flex items-center gap-4 text-xs font-mono text-muted-foreground flex-wrap">
                           <span>Price: {signal.price.toFixed(2)}</span>
-                          <span>EMA50: {signal.ema50.toFixed(2)}</span>
-                          <span>EMA200: {signal.ema200.toFixed(2)}</span>
+                          {Object.entries(getSignalIndicators(signal)).map(([label, value]) => (
+                            <span key={label}>{label}: {value.toFixed(2)}</span>
+                          ))}
                         </div>
                         <div className="text-xs text-muted-foreground">
                           {strategy?.name} • {format(new Date(signal.createdAt), "h:mm:ss a")} • {formatDistanceToNow(new Date(signal.createdAt), { addSuffix: true })}
@@ -1,5 +1,5 @@
-import { useState, useRef } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useState, useRef, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -7,27 +7,121 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Play, Copy, Check } from "lucide-react";
+import { Play, Copy, Check, ListTree } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { DevLogsViewer } from "@/components/dev-logs-viewer";
 import { devLogger } from "@/lib/dev-logger";
 import { STRATEGY_VARIABLES, STRATEGY_OPERATORS, STRATEGY_FUNCTIONS } from "@/lib/strategy-variables";
 import { useToast } from "@/hooks/use-toast";
+import { TIMEFRAMES, type Asset, type FormulaMacro } from "@shared/schema";
+import { format } from "date-fns";
 
 const DEFAULT_FORMULA = `// Available variables:
 // price, ema50, ema200, high, low, open, close, volume
+// Add [n] to read n closed candles back, e.g. close[1], ema50[3]
+// Indicators: ema(close, 21), sma(close, 20), rsi(close, 14), atr(14)
+// Add @15m to read another timeframe, e.g. ema50@15m > ema200@15m
 
 // Example: Price above EMA50 AND EMA50 above EMA200
 price > ema50 && ema50 > ema200`;
 
+interface FormulaMacroWithDependents extends FormulaMacro {
+  dependents: {
+    strategies: { id: string; name: string; enabled: boolean }[];
+    macros: { id: string; name: string }[];
+  };
+}
+
+interface FormulaIssue {
+  severity: "error" | "warning";
+  message: string;
+  start: number;
+  end: number;
+}
+
+interface FormulaBarTrace {
+  timestamp: string;
+  price: number;
+  result: boolean | null;
+  error?: string;
+  variables: Record<string, number>;
+  subexpressions: Array<{ expression: string; value: number | boolean }>;
+}
+
+interface FormulaTraceResult {
+  barsAvailable: number;
+  triggered: number;
+  bars: FormulaBarTrace[];
+}
+
+// Comment lines are for the editor only, so blank them out without shifting
+// character offsets, which the server uses to point at problems
+function stripComments(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line.trim().startsWith("//") ? " ".repeat(line.length) : line))
+    .join("\n");
+}
+
+function formatTraceValue(value: number | boolean): string {
+  return typeof value === "number" ? String(Number(value.toFixed(5))) : String(value);
+}
+
+// Mirror the formula text with transparent glyphs so issue spans can be underlined behind the editor
+function renderIssueHighlights(text: string, issues: FormulaIssue[]) {
+  const parts: Array<string | JSX.Element> = [];
+  let cursor = 0;
+
+  [...issues]
+    .sort((a, b) => a.start - b.start)
+    .forEach((issue, index) => {
+      const start = Math.max(issue.start, cursor);
+      const end = Math.max(issue.end, start + 1);
+      if (start > cursor) {
+        parts.push(text.slice(cursor, start));
+      }
+      parts.push(
+        <span
+          key={index}
+          className={`underline decoration-wavy ${issue.severity === "error" ? "decoration-red-500" : "decoration-yellow-500"}`}
+        >
+          {text.slice(start, end) || " "}
+        </span>
+      );
+      cursor = Math.max(cursor, end);
+    });
+
+  parts.push(text.slice(cursor));
+  return parts;
+}
+
 export default function DevStrategyBuilder() {
   const [name, setName] = useState("My Code Strategy");
   const [description, setDescription] = useState("");
   const [formula, setFormula] = useState(DEFAULT_FORMULA);
   const [timeframe, setTimeframe] = useState("5m");
+  const [issues, setIssues] = useState<FormulaIssue[]>([]);
+  const [traceAssetId, setTraceAssetId] = useState("");
+  const [trace, setTrace] = useState<FormulaTraceResult | null>(null);
+  const [selectedBar, setSelectedBar] = useState<number | null>(null);
+  const [tracing, setTracing] = useState(false);
   const formulaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
+  const { data: assets = [] } = useQuery<Asset[]>({
+    queryKey: ["/api/assets"],
+  });
+
+  const { data: macros = [] } = useQuery<FormulaMacroWithDependents[]>({
+    queryKey: ["/api/formula-macros"],
+  });
+
+  // Issue offsets refer to the formula that was tested, so drop them once it changes
+  useEffect(() => {
+    setIssues([]);
+  }, [formula]);
+
   const createMutation = useMutation({
     mutationFn: (data: any) => apiRequest("POST", "/api/strategies", data),
     onSuccess: () => {
@@ -48,49 +142,34 @@ export default function DevStrategyBuilder() {
     },
   });
 
-  const testFormula = () => {
-    devLogger.info("Testing formula", { formula });
+  const testFormula = async () => {
+    const expression = stripComments(formula);
+
+    devLogger.info("Testing formula", { formula: expression });
 
     try {
-      const testData = {
-        price: 100,
-        ema50: 99,
-        ema200: 98,
-        high: 102,
-        low: 99,
-        open: 100.5,
-        close: 100.25,
-        volume: 1500000,
-      };
-
-      const fn = new Function(
-        "price",
-        "ema50",
-        "ema200",
-        "high",
-        "low",
-        "open",
-        "close",
-        "volume",
-        `return ${formula}`
-      );
+      const response = await fetch("/api/strategies/validate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ formula: expression }),
+      });
+      const result = await response.json();
+      setIssues(result.issues ?? []);
 
-      const result = fn(
-        testData.price,
-        testData.ema50,
-        testData.ema200,
-        testData.high,
-        testData.low,
-        testData.open,
-        testData.close,
-        testData.volume
-      );
+      if (!result.valid) {
+        throw new Error(result.errors?.join(", ") || result.error || "Invalid formula");
+      }
+
+      devLogger.info("Formula result", result);
 
-      devLogger.info("Formula result", { result, testData });
+      const otherTimeframes = Object.entries(result.timeframeWarmupBars ?? {})
+        .map(([tf, bars]) => ` and ${bars} closed ${tf} candles`)
+        .join("");
 
       toast({
         title: "Formula valid",
-        description: `Result: ${result}`,
+        description: `Goes live after ${result.warmupBars} closed ${timeframe} candles${otherTimeframes}.`,
       });
     } catch (error: any) {
       devLogger.error("Formula error", { error: error.message });
@@ -102,6 +181,51 @@ export default function DevStrategyBuilder() {
     }
   };
 
+  const runTrace = async () => {
+    if (!traceAssetId) {
+      toast({
+        title: "Select an asset",
+        description: "Choose which asset's stored candles to replay.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const expression = stripComments(formula);
+    devLogger.info("Tracing formula", { formula: expression, assetId: traceAssetId, timeframe });
+    setTracing(true);
+
+    try {
+      const response = await fetch("/api/strategies/trace", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ formula: expression, assetId: traceAssetId, timeframe, limit: 100 }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setIssues(result.issues ?? []);
+        throw new Error(result.errors?.join(", ") || result.error || "Trace failed");
+      }
+
+      devLogger.info("Trace complete", { bars: result.bars.length, triggered: result.triggered });
+      setTrace(result);
+      setSelectedBar(result.bars.length > 0 ? result.bars.length - 1 : null);
+    } catch (error: any) {
+      devLogger.error("Trace error", { error: error.message });
+      toast({
+        title: "Trace error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setTracing(false);
+    }
+  };
+
+  const selectedTrace = trace && selectedBar !== null ? trace.bars[selectedBar] : null;
+
   const createStrategy = () => {
     if (!name || !formula) {
       devLogger.warn("Missing required fields", { name, formula });
@@ -143,18 +267,45 @@ export default function DevStrategyBuilder() {
             <CardHeader className="pb-3">
               <CardTitle className="text-sm font-mono text-green-400">CODE EDITOR</CardTitle>
             </CardHeader>
-            <CardContent className="flex-1 p-0 overflow-hidden">
+            <CardContent className="flex-1 p-0 overflow-hidden relative">
+              {issues.length > 0 && (
+                <div
+                  ref={highlightRef}
+                  aria-hidden
+                  className="absolute inset-0 overflow-hidden whitespace-pre-wrap break-words font-mono text-xs md:text-sm text-transparent p-4 pointer-events-none"
+                >
+                  {renderIssueHighlights(formula, issues)}
+                </div>
+              )}
               <Textarea
                 ref={formulaRef}
                 value={formula}
                 onChange={(e) => setFormula(e.target.value)}
-                className="h-full min-h-96 rounded-none border-0 font-mono text-xs bg-black text-green-400 resize-none focus-visible:ring-0 focus-visible:ring-offset-0 p-4"
+                onScroll={(e) => {
+                  if (highlightRef.current) {
+                    highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+                  }
+                }}
+                className="relative h-full min-h-96 rounded-none border-0 font-mono text-xs bg-transparent text-green-400 resize-none focus-visible:ring-0 focus-visible:ring-offset-0 p-4"
                 placeholder="Write your strategy formula..."
                 data-testid="textarea-formula"
               />
             </CardContent>
           </Card>
 
+          {issues.length > 0 && (
+            <div className="space-y-1" data-testid="formula-issues">
+              {issues.map((issue, index) => (
+                <p
+                  key={index}
+                  className={`text-xs font-mono ${issue.severity === "error" ? "text-red-400" : "text-yellow-400"}`}
+                >
+                  {issue.severity === "error" ? "ERROR" : "WARN"} [{issue.start}-{issue.end}] {issue.message}
+                </p>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-2">
             <div className="grid grid-cols-2 gap-2">
               <div className="space-y-2">
@@ -179,8 +330,9 @@ export default function DevStrategyBuilder() {
                   onChange={(e) => setTimeframe(e.target.value)}
                   className="w-full px-3 py-2 rounded bg-black border border-green-500/30 text-green-400 text-sm font-mono"
                 >
-                  <option value="5m">5m</option>
-                  <option value="15m">15m</option>
+                  {TIMEFRAMES.map((tf) => (
+                    <option key={tf} value={tf}>{tf}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -221,7 +373,7 @@ export default function DevStrategyBuilder() {
         {/* Right: Reference & Logs */}
         <div className="space-y-4 flex flex-col overflow-hidden">
           <Tabs defaultValue="variables" className="flex-1 flex flex-col">
-            <TabsList className="grid w-full grid-cols-3 bg-black border-b border-green-500/30">
+            <TabsList className="grid w-full grid-cols-4 bg-black border-b border-green-500/30">
               <TabsTrigger value="variables" className="text-green-300 data-[state=active]:text-green-400">
                 Variables
               </TabsTrigger>
@@ -231,6 +383,9 @@ export default function DevStrategyBuilder() {
               <TabsTrigger value="functions" className="text-green-300 data-[state=active]:text-green-400">
                 Functions
               </TabsTrigger>
+              <TabsTrigger value="trace" className="text-green-300 data-[state=active]:text-green-400">
+                Trace
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="variables" className="flex-1 overflow-y-auto">
@@ -299,6 +454,116 @@ export default function DevStrategyBuilder() {
                     </div>
                   </div>
                 ))}
+                {macros.map((macro) => {
+                  const params = (macro.params as string[]) ?? [];
+                  const call = params.length > 0 ? `${macro.name}(${params.join(", ")})` : macro.name;
+                  const usedBy = macro.dependents.strategies.length + macro.dependents.macros.length;
+                  return (
+                    <div
+                      key={macro.id}
+                      className="p-2 bg-black border border-purple-500/20 rounded text-xs font-mono hover-elevate cursor-pointer"
+                      onClick={() => {
+                        if (formulaRef.current) {
+                          formulaRef.current.value += call;
+                          setFormula(formulaRef.current.value);
+                        }
+                      }}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-purple-400 font-bold">{call}</span>
+                        <span className="text-green-300/70">{macro.description || macro.expression}</span>
+                      </div>
+                      <div className="text-green-500/50 mt-1">
+                        {usedBy === 0
+                          ? "Not used yet"
+                          : `Used by ${[
+                              ...macro.dependents.strategies.map((s) => s.name),
+                              ...macro.dependents.macros.map((m) => m.name),
+                            ].join(", ")}`}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="trace" className="flex-1 overflow-y-auto">
+              <div className="space-y-3 p-3 font-mono text-xs">
+                <div className="flex gap-2">
+                  <select
+                    value={traceAssetId}
+                    onChange={(e) => setTraceAssetId(e.target.value)}
+                    className="flex-1 px-2 py-1 rounded bg-black border border-green-500/30 text-green-400"
+                    data-testid="select-trace-asset"
+                  >
+                    <option value="">Select asset...</option>
+                    {assets.map((asset) => (
+                      <option key={asset.id} value={asset.id}>
+                        {asset.symbol}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    size="sm"
+                    onClick={runTrace}
+                    disabled={tracing}
+                    className="bg-green-600 hover:bg-green-700 text-black font-mono text-xs"
+                    data-testid="button-run-trace"
+                  >
+                    <ListTree className="h-3 w-3 mr-1" />
+                    {tracing ? "Tracing..." : "Run"}
+                  </Button>
+                </div>
+
+                {trace && (
+                  <>
+                    <p className="text-green-300/70">
+                      {trace.bars.length} of {trace.barsAvailable} stored {timeframe} candles, triggered {trace.triggered}x
+                    </p>
+                    <div className="max-h-48 overflow-y-auto border border-green-500/20 rounded">
+                      {trace.bars.map((bar, index) => (
+                        <div
+                          key={bar.timestamp}
+                          onClick={() => setSelectedBar(index)}
+                          className={`flex items-center justify-between px-2 py-1 cursor-pointer hover-elevate ${selectedBar === index ? "bg-green-500/10" : ""}`}
+                          data-testid={`trace-bar-${index}`}
+                        >
+                          <span className="text-green-300/70">{format(new Date(bar.timestamp), "dd MMM HH:mm")}</span>
+                          <span className="text-green-400">{formatTraceValue(bar.price)}</span>
+                          <span className={bar.result === null ? "text-yellow-400" : bar.result ? "text-green-400 font-bold" : "text-green-300/50"}>
+                            {bar.result === null ? "ERR" : bar.result ? "TRUE" : "false"}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {selectedTrace && (
+                  <div className="space-y-2 p-2 border border-green-500/20 rounded" data-testid="trace-details">
+                    {selectedTrace.error && <p className="text-yellow-400">{selectedTrace.error}</p>}
+                    <div>
+                      <p className="text-green-400 font-bold mb-1">Variables</p>
+                      {Object.entries(selectedTrace.variables).map(([key, value]) => (
+                        <div key={key} className="flex justify-between">
+                          <span className="text-green-300/70">{key}</span>
+                          <span className="text-green-400">{formatTraceValue(value)}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div>
+                      <p className="text-green-400 font-bold mb-1">Sub-expressions</p>
+                      {selectedTrace.subexpressions.map((step, index) => (
+                        <div key={index} className="flex justify-between gap-2">
+                          <span className="text-green-300/70 truncate">{step.expression}</span>
+                          <span className={typeof step.value === "boolean" ? (step.value ? "text-green-400" : "text-red-400") : "text-green-400"}>
+                            {formatTraceValue(step.value)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </TabsContent>
           </Tabs>
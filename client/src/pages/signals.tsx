@@ -20,8 +20,9 @@ import { Signal as SignalIcon, Search, X, TrendingUp, TrendingDown, Activity, Ch
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Signal, Strategy, Asset } from "@shared/schema";
+import { getSignalIndicators, getSignalPatterns, getSignalSequence, getSignalStrength, TIMEFRAME_LABELS, TIMEFRAMES, type Signal, type Strategy, type Asset } from "@shared/schema";
 import { formatDistanceToNow, format } from "date-fns";
+import { SignalOutcomeBadge } from "@/components/signal-outcomes";
 
 // Signals per page in expanded view
 const SIGNALS_PER_PAGE = 5;
@@ -40,6 +41,8 @@ export default function Signals() {
   const [searchQuery, setSearchQuery] = useState("");
   const [timeframeFilter, setTimeframeFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [directionFilter, setDirectionFilter] = useState<string>("all");
+  const [sortBy, setSortBy] = useState<"newest" | "strength">("newest");
   const [expandedAssets, setExpandedAssets] = useState<Set<string>>(new Set());
   const [assetPages, setAssetPages] = useState<Record<string, number>>({});
   const { toast } = useToast();
@@ -103,8 +106,9 @@ export default function Signals() {
 
     const matchesTimeframe = timeframeFilter === "all" || signal.timeframe === timeframeFilter;
     const matchesType = typeFilter === "all" || signal.type === typeFilter;
+    const matchesDirection = directionFilter === "all" || signal.direction === directionFilter;
 
-    return matchesSearch && matchesTimeframe && matchesType && !signal.dismissed;
+    return matchesSearch && matchesTimeframe && matchesType && matchesDirection && !signal.dismissed;
   });
 
   // Sort by latest first (most recent createdAt)
@@ -139,9 +143,13 @@ export default function Signals() {
     });
   });
 
-  // Sort aggregated by latest signal time
-  aggregatedSignals.sort(
-    (a, b) => new Date(b.latestSignal.createdAt).getTime() - new Date(a.latestSignal.createdAt).getTime()
+  // Sort aggregated by latest signal time, or by the strongest signal of each asset
+  const maxStrength = (agg: AggregatedSignal) =>
+    Math.max(...agg.signals.map((s) => getSignalStrength(s)?.score ?? -1));
+  aggregatedSignals.sort((a, b) =>
+    sortBy === "strength" && maxStrength(b) !== maxStrength(a)
+      ? maxStrength(b) - maxStrength(a)
+      : new Date(b.latestSignal.createdAt).getTime() - new Date(a.latestSignal.createdAt).getTime()
   );
 
   const getSignalTypeLabel = (type: string) => {
@@ -152,20 +160,33 @@ export default function Signals() {
       "5m_below_200_bearish": "5M Below 200 (Bearish)",
       "5m_touch_200_downtrend": "5M Touch 200 (Downtrend)",
       "15m_below_200_breakdown": "15M Below 200 (Breakdown)",
+      "15m_cross_above_50_bullish": "15M Cross Above 50 (Bullish)",
+      "5m_cross_above_200_reversal": "5M Cross Above 200 (Reversal)",
+      "5m_cross_pullback_to_200": "5M First Pullback to 200",
+      "5m_cross_below_200_bearish": "5M Cross Below 200 (Bearish)",
+      "5m_cross_touch_200_downtrend": "5M First Touch 200 (Downtrend)",
+      "15m_cross_below_200_breakdown": "15M Cross Below 200 (Breakdown)",
     };
     return labels[type] || type;
   };
 
-  const getSignalVariant = (type: string): "default" | "secondary" | "destructive" => {
-    if (type.includes("bullish") || type.includes("reversal")) return "default";
-    if (type.includes("pullback")) return "secondary";
-    return "destructive";
+  const getSignalIcon = (direction: string) => {
+    if (direction === "long") return TrendingUp;
+    if (direction === "short") return TrendingDown;
+    return Activity;
   };
 
-  const getSignalIcon = (type: string) => {
-    if (type.includes("bullish") || type.includes("reversal")) return TrendingUp;
-    if (type.includes("bearish") || type.includes("breakdown")) return TrendingDown;
-    return Activity;
+  // Tailwind colour token for a signal direction
+  const getDirectionColor = (direction: string) => {
+    if (direction === "long") return "chart-2";
+    if (direction === "short") return "destructive";
+    return "chart-3";
+  };
+
+  const getDirectionIconClass = (direction: string, opacity: 10 | 20) => {
+    if (direction === "long") return opacity === 20 ? "bg-chart-2/20 text-chart-2" : "bg-chart-2/10 text-chart-2";
+    if (direction === "short") return opacity === 20 ? "bg-destructive/20 text-destructive" : "bg-destructive/10 text-destructive";
+    return opacity === 20 ? "bg-chart-3/20 text-chart-3" : "bg-chart-3/10 text-chart-3";
   };
 
   const stats = {
@@ -173,12 +194,8 @@ export default function Signals() {
     today: signals.filter(
       (s) => !s.dismissed && new Date(s.createdAt).toDateString() === new Date().toDateString()
     ).length,
-    bullish: signals.filter(
-      (s) => !s.dismissed && (s.type.includes("bullish") || s.type.includes("reversal"))
-    ).length,
-    bearish: signals.filter(
-      (s) => !s.dismissed && (s.type.includes("bearish") || s.type.includes("breakdown"))
-    ).length,
+    bullish: signals.filter((s) => !s.dismissed && s.direction === "long").length,
+    bearish: signals.filter((s) => !s.dismissed && s.direction === "short").length,
   };
 
   return (
@@ -248,15 +265,16 @@ export default function Signals() {
                 data-testid="input-search-signals"
               />
             </div>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
               <Select value={timeframeFilter} onValueChange={setTimeframeFilter}>
                 <SelectTrigger data-testid="select-timeframe-filter">
                   <SelectValue placeholder="Timeframe" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Timeframes</SelectItem>
-                  <SelectItem value="5m">5 Min</SelectItem>
-                  <SelectItem value="15m">15 Min</SelectItem>
+                  {TIMEFRAMES.map((tf) => (
+                    <SelectItem key={tf} value={tf}>{TIMEFRAME_LABELS[tf]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Select value={typeFilter} onValueChange={setTypeFilter}>
@@ -271,6 +289,32 @@ export default function Signals() {
                   <SelectItem value="5m_below_200_bearish">5M Bearish</SelectItem>
                   <SelectItem value="5m_touch_200_downtrend">5M Downtrend</SelectItem>
                   <SelectItem value="15m_below_200_breakdown">15M Breakdown</SelectItem>
+                  <SelectItem value="15m_cross_above_50_bullish">15M Cross Bullish</SelectItem>
+                  <SelectItem value="5m_cross_above_200_reversal">5M Cross Reversal</SelectItem>
+                  <SelectItem value="5m_cross_pullback_to_200">5M First Pullback</SelectItem>
+                  <SelectItem value="5m_cross_below_200_bearish">5M Cross Bearish</SelectItem>
+                  <SelectItem value="5m_cross_touch_200_downtrend">5M First Touch Downtrend</SelectItem>
+                  <SelectItem value="15m_cross_below_200_breakdown">15M Cross Breakdown</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={directionFilter} onValueChange={setDirectionFilter}>
+                <SelectTrigger data-testid="select-direction-filter">
+                  <SelectValue placeholder="Direction" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Directions</SelectItem>
+                  <SelectItem value="long">Long</SelectItem>
+                  <SelectItem value="short">Short</SelectItem>
+                  <SelectItem value="neutral">Neutral</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as "newest" | "strength")}>
+                <SelectTrigger data-testid="select-sort-signals">
+                  <SelectValue placeholder="Sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest First</SelectItem>
+                  <SelectItem value="strength">Strongest First</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -302,7 +346,8 @@ export default function Signals() {
               {aggregatedSignals.map((agg) => {
                 const signal = agg.latestSignal;
                 const strategy = strategies.find((s) => s.id === signal.strategyId);
-                const Icon = getSignalIcon(signal.type);
+                const Icon = getSignalIcon(signal.direction);
+                const strength = getSignalStrength(signal);
                 const isExpanded = expandedAssets.has(agg.assetId);
                 const currentPage = getAssetPage(agg.assetId);
                 const totalPages = Math.ceil(agg.signals.length / SIGNALS_PER_PAGE);
@@ -320,18 +365,12 @@ export default function Signals() {
                     <Card 
                       data-testid={`signal-${signal.id}`} 
                       className="shadow-sm hover:shadow-md transition-all duration-300 border-l-4 overflow-hidden" 
-                      style={{borderLeftColor: signal.type.includes("bullish") || signal.type.includes("reversal") ? "hsl(var(--chart-2))" : signal.type.includes("pullback") ? "hsl(var(--chart-3))" : "hsl(var(--destructive))"}}
+                      style={{borderLeftColor: `hsl(var(--${getDirectionColor(signal.direction)}))`}}
                     >
                       <CollapsibleTrigger asChild>
                         <CardContent className="p-4 cursor-pointer hover:bg-muted/30 transition-colors">
                           <div className="flex items-start gap-4">
-                            <div className={`p-3 rounded-lg flex-shrink-0 ${
-                              signal.type.includes("bullish") || signal.type.includes("reversal")
-                                ? "bg-chart-2/20 text-chart-2"
-                                : signal.type.includes("pullback")
-                                ? "bg-chart-3/20 text-chart-3"
-                                : "bg-destructive/20 text-destructive"
-                            }`}>
+                            <div className={`p-3 rounded-lg flex-shrink-0 ${getDirectionIconClass(signal.direction, 20)}`}>
                               <Icon className="h-6 w-6" />
                             </div>
                             <div className="flex-1 space-y-3 min-w-0">
@@ -344,11 +383,35 @@ export default function Signals() {
                                     <Badge className="text-xs font-semibold">
                                       {signal.timeframe.toUpperCase()}
                                     </Badge>
+                                    <Badge variant="outline" className="text-xs font-semibold capitalize" data-testid={`badge-direction-${signal.id}`}>
+                                      {signal.direction}
+                                    </Badge>
+                                    {strength && (
+                                      <Badge
+                                        variant="outline"
+                                        className="text-xs font-semibold"
+                                        title={`${strength.distance} bar ranges beyond the MAs, fast MA slope ${strength.slope}`}
+                                        data-testid={`badge-strength-${signal.id}`}
+                                      >
+                                        Strength {strength.score}
+                                      </Badge>
+                                    )}
+                                    <SignalOutcomeBadge signal={signal} />
                                     {agg.signalCount > 1 && (
                                       <Badge variant="secondary" className="text-xs font-semibold">
                                         {agg.signalCount} signals
                                       </Badge>
                                     )}
+                                    {signal.repeatCount > 0 && (
+                                      <Badge
+                                        variant="outline"
+                                        className="text-xs font-semibold"
+                                        title="Repeats suppressed during the strategy's cooldown"
+                                        data-testid={`badge-repeats-${signal.id}`}
+                                      >
+                                        +{signal.repeatCount} repeat{signal.repeatCount === 1 ? "" : "s"}
+                                      </Badge>
+                                    )}
                                   </div>
                                   <p className="text-sm text-muted-foreground font-medium truncate">
                                     {agg.assetName}
@@ -379,21 +442,38 @@ export default function Signals() {
                                     ₹{signal.price.toFixed(2)}
                                   </div>
                                 </div>
-                                <div>
-                                  <div className="text-xs text-muted-foreground mb-1">EMA 50</div>
-                                  <div className="text-sm font-mono font-semibold">
-                                    {signal.ema50.toFixed(2)}
+                                {Object.entries(getSignalIndicators(signal)).map(([label, value]) => (
+                                  <div key={label}>
+                                    <div className="text-xs text-muted-foreground mb-1">{label}</div>
+                                    <div className="text-sm font-mono font-semibold">
+                                      {value.toFixed(2)}
+                                    </div>
                                   </div>
+                                ))}
+                              </div>
+                              {getSignalSequence(signal) && (
+                                <div className="flex items-center gap-2 flex-wrap text-xs" data-testid={`text-sequence-${signal.id}`}>
+                                  {getSignalSequence(signal)!.map((match) => (
+                                    <Badge key={match.step} variant="outline" className="text-xs font-mono">
+                                      {match.step}. {match.label} @ {format(new Date(match.matchedAt), "h:mm a")}
+                                    </Badge>
+                                  ))}
                                 </div>
-                                <div>
-                                  <div className="text-xs text-muted-foreground mb-1">EMA 200</div>
-                                  <div className="text-sm font-mono font-semibold">
-                                    {signal.ema200.toFixed(2)}
-                                  </div>
+                              )}
+                              {getSignalPatterns(signal) && (
+                                <div className="flex items-center gap-2 flex-wrap text-xs" data-testid={`text-patterns-${signal.id}`}>
+                                  {getSignalPatterns(signal)!.map((pattern) => (
+                                    <Badge key={pattern} variant="outline" className="text-xs capitalize">
+                                      {pattern.replace(/_/g, " ")}
+                                    </Badge>
+                                  ))}
                                 </div>
-                              </div>
+                              )}
                               <div className="flex items-center justify-between text-xs text-muted-foreground flex-wrap gap-2">
-                                <span>{strategy?.name || "Unknown Strategy"}</span>
+                                <span>
+                                  {strategy?.name || "Unknown Strategy"}
+                                  {signal.strategyVersion !== null && ` (v${signal.strategyVersion})`}
+                                </span>
                                 <span>
                                   {format(new Date(signal.createdAt), "MMM d, yyyy 'at' h:mm:ss a")} •{" "}
                                   {formatDistanceToNow(new Date(signal.createdAt), { addSuffix: true })}
@@ -445,20 +525,15 @@ export default function Signals() {
                           <div className="space-y-2">
                             {paginatedSignals.map((historySignal, index) => {
                               const historyStrategy = strategies.find((s) => s.id === historySignal.strategyId);
-                              const HistoryIcon = getSignalIcon(historySignal.type);
+                              const HistoryIcon = getSignalIcon(historySignal.direction);
+                              const historyStrength = getSignalStrength(historySignal);
                               return (
                                 <div
                                   key={historySignal.id}
                                   className="flex items-center gap-3 p-3 rounded-lg bg-background/80 border transition-all duration-200 hover:bg-background animate-in fade-in-50 slide-in-from-top-1"
                                   style={{ animationDelay: `${index * 50}ms` }}
                                 >
-                                  <div className={`p-2 rounded-md flex-shrink-0 ${
-                                    historySignal.type.includes("bullish") || historySignal.type.includes("reversal")
-                                      ? "bg-chart-2/10 text-chart-2"
-                                      : historySignal.type.includes("pullback")
-                                      ? "bg-chart-3/10 text-chart-3"
-                                      : "bg-destructive/10 text-destructive"
-                                  }`}>
+                                  <div className={`p-2 rounded-md flex-shrink-0 ${getDirectionIconClass(historySignal.direction, 10)}`}>
                                     <HistoryIcon className="h-4 w-4" />
                                   </div>
                                   <div className="flex-1 min-w-0">
@@ -469,8 +544,16 @@ export default function Signals() {
                                       <Badge variant="outline" className="text-xs">
                                         {historySignal.timeframe.toUpperCase()}
                                       </Badge>
+                                      {historyStrength && (
+                                        <Badge variant="outline" className="text-xs">
+                                          Strength {historyStrength.score}
+                                        </Badge>
+                                      )}
+                                      <SignalOutcomeBadge signal={historySignal} />
                                       <span className="text-xs text-muted-foreground">
-                                        EMA50: {historySignal.ema50.toFixed(2)} | EMA200: {historySignal.ema200.toFixed(2)}
+                                        {Object.entries(getSignalIndicators(historySignal))
+                                          .map(([label, value]) => `${label}: ${value.toFixed(2)}`)
+                                          .join(" | ")}
                                       </span>
                                     </div>
                                     <div className="text-xs text-muted-foreground mt-1">
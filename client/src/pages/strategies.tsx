@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter }
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { Plus, TrendingUp, Edit, Trash2, ChevronDown, ChevronUp, Merge, Info } from "lucide-react";
+import { Plus, TrendingUp, Edit, Trash2, ChevronDown, ChevronUp, Merge, Info, FileCode } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Dialog,
@@ -38,9 +38,16 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Strategy, InsertStrategy } from "@shared/schema";
+import { getStrategyAssetScope, type Asset, type Strategy, type InsertStrategy, type StrategyOutcomeSummary } from "@shared/schema";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { AdvancedStrategyBuilder } from "@/components/advanced-strategy-builder";
+import { SequenceStrategyBuilder } from "@/components/sequence-strategy-builder";
+import { StrategyMovingAverageEditor } from "@/components/moving-average-settings";
+import { SignalCooldownEditor } from "@/components/signal-cooldown-editor";
+import { StrategyAssetScopeEditor, countAssetsInScope } from "@/components/asset-scope-picker";
+import { SignalDirectionEditor } from "@/components/signal-direction-select";
+import { StrategyOutcomeRulesEditor, StrategyOutcomeSummaryView, formatWinRate } from "@/components/signal-outcomes";
+import { StrategyVersionHistory } from "@/components/strategy-version-history";
 
 const PRESET_STRATEGIES = [
   {
@@ -109,6 +116,72 @@ const PRESET_STRATEGIES = [
       candleClose: true,
     },
   },
+  {
+    name: "15M Cross Above 50 EMA Bullish",
+    type: "15m_cross_above_50_bullish",
+    timeframe: "15m",
+    description: "Signal once when a 15-min candle crosses above 50 EMA with EMA50 > EMA200",
+    conditions: {
+      priceCrossesAbove: "ema50",
+      ema50Above: "ema200",
+      candleClose: true,
+    },
+  },
+  {
+    name: "5M Cross Above 200 EMA Reversal",
+    type: "5m_cross_above_200_reversal",
+    timeframe: "5m",
+    description: "Signal once when a 5-min candle crosses above 200 EMA with EMA200 > EMA50",
+    conditions: {
+      priceCrossesAbove: "ema200",
+      ema200Above: "ema50",
+      candleClose: true,
+    },
+  },
+  {
+    name: "5M First Pullback to 200 EMA",
+    type: "5m_cross_pullback_to_200",
+    timeframe: "5m",
+    description: "Signal once when the candle low first reaches 200 EMA with Price > EMA50 > EMA200",
+    conditions: {
+      lowCrossesBelow: "ema200",
+      ema50Above: "ema200",
+      priceAbove: "ema50",
+    },
+  },
+  {
+    name: "5M Cross Below 200 EMA Bearish",
+    type: "5m_cross_below_200_bearish",
+    timeframe: "5m",
+    description: "Signal once when a 5-min candle crosses below 200 EMA with EMA50 > EMA200",
+    conditions: {
+      priceCrossesBelow: "ema200",
+      ema50Above: "ema200",
+      candleClose: true,
+    },
+  },
+  {
+    name: "5M First Touch 200 Downtrend",
+    type: "5m_cross_touch_200_downtrend",
+    timeframe: "5m",
+    description: "Signal once when the candle high first reaches 200 EMA with EMA200 > EMA50 > Price",
+    conditions: {
+      highCrossesAbove: "ema200",
+      ema200Above: "ema50",
+      ema50Above: "price",
+    },
+  },
+  {
+    name: "15M Cross Below 200 Breakdown",
+    type: "15m_cross_below_200_breakdown",
+    timeframe: "15m",
+    description: "Signal once when a 15-min candle crosses below 200 EMA with EMA50 > EMA200",
+    conditions: {
+      priceCrossesBelow: "ema200",
+      ema50Above: "ema200",
+      candleClose: true,
+    },
+  },
 ];
 
 const STRATEGY_FORMULAS = {
@@ -136,6 +209,30 @@ const STRATEGY_FORMULAS = {
     formula: "Price <= EMA200 AND EMA50 > EMA200 > Price",
     example: "Price: $97 | EMA200: $99 | EMA50: $100 ✓ Signal fires",
   },
+  "15m_cross_above_50_bullish": {
+    formula: "crosses_above(price, ema50) AND EMA50 > EMA200",
+    example: "Prev close: $98.5 < EMA50 | Close: $100 > EMA50: $99 ✓ Fires once",
+  },
+  "5m_cross_above_200_reversal": {
+    formula: "crosses_above(price, ema200) AND EMA200 > EMA50",
+    example: "Prev close: $98.5 < EMA200 | Close: $100 > EMA200: $99 ✓ Fires once",
+  },
+  "5m_cross_pullback_to_200": {
+    formula: "crosses_below(low, ema200) AND Price > EMA50 > EMA200",
+    example: "Prev low above 200EMA | Low dips to 200EMA | Close stays above EMA50",
+  },
+  "5m_cross_below_200_bearish": {
+    formula: "crosses_below(price, ema200) AND EMA50 > EMA200",
+    example: "Prev close: $99.5 > EMA200 | Close: $98 < EMA200: $99 ✓ Fires once",
+  },
+  "5m_cross_touch_200_downtrend": {
+    formula: "crosses_above(high, ema200) AND EMA200 > EMA50 > Price",
+    example: "Prev high below 200EMA | High reaches $100 EMA200 | Close under EMA50",
+  },
+  "15m_cross_below_200_breakdown": {
+    formula: "crosses_below(price, ema200) AND EMA50 > EMA200",
+    example: "Prev close: $99.5 > EMA200 | Close: $97 < EMA200: $99 ✓ Fires once",
+  },
 };
 
 export default function Strategies() {
@@ -156,6 +253,14 @@ export default function Strategies() {
     queryKey: ["/api/strategies"],
   });
 
+  const { data: assets = [] } = useQuery<Asset[]>({
+    queryKey: ["/api/assets"],
+  });
+
+  const { data: outcomes = [] } = useQuery<StrategyOutcomeSummary[]>({
+    queryKey: ["/api/strategies/outcomes"],
+  });
+
   const createMutation = useMutation({
     mutationFn: (data: InsertStrategy) => apiRequest("POST", "/api/strategies", data),
     onSuccess: () => {
@@ -428,6 +533,19 @@ export default function Strategies() {
                       <Badge variant="outline" className="text-xs">
                         {strategy.timeframe.toUpperCase()}
                       </Badge>
+                      <Badge variant="outline" className="text-xs font-mono" data-testid={`badge-ma-${strategy.id}`}>
+                        {strategy.maType.toUpperCase()} {strategy.fastPeriod}/{strategy.slowPeriod}
+                      </Badge>
+                      <Badge variant="outline" className="text-xs" data-testid={`badge-scope-${strategy.id}`}>
+                        {getStrategyAssetScope(strategy) === null
+                          ? "All assets"
+                          : `${countAssetsInScope(assets, getStrategyAssetScope(strategy))} assets`}
+                      </Badge>
+                      {strategy.direction && (
+                        <Badge variant="outline" className="text-xs capitalize" data-testid={`badge-direction-${strategy.id}`}>
+                          {strategy.direction}
+                        </Badge>
+                      )}
                       {strategy.isCustom && (
                         <Badge variant="secondary" className="text-xs">
                           Custom
@@ -451,6 +569,10 @@ export default function Strategies() {
                                 <code className="block bg-muted p-2 rounded text-xs font-mono break-words">
                                   {STRATEGY_FORMULAS[strategy.type as keyof typeof STRATEGY_FORMULAS]?.formula}
                                 </code>
+                                <p className="text-xs text-muted-foreground mt-2">
+                                  EMA50 and EMA200 stand for this strategy's fast and slow moving averages
+                                  ({strategy.maType.toUpperCase()} {strategy.fastPeriod} and {strategy.slowPeriod}).
+                                </p>
                               </div>
                               <div>
                                 <h4 className="font-semibold mb-2">Example</h4>
@@ -490,7 +612,11 @@ export default function Strategies() {
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center gap-4 text-xs font-mono text-muted-foreground">
                         <span>Signals: {strategy.signalCount}</span>
+                        <span data-testid={`text-win-rate-${strategy.id}`}>
+                          Win rate: {formatWinRate(outcomes.find((o) => o.strategyId === strategy.id))}
+                        </span>
                         <span>Type: {strategy.type}</span>
+                        <span data-testid={`text-version-${strategy.id}`}>Version: v{strategy.version}</span>
                       </div>
                       <CollapsibleTrigger asChild>
                         <Button variant="ghost" size="sm" data-testid={`button-expand-${strategy.id}`}>
@@ -520,11 +646,76 @@ export default function Strategies() {
                           )}
                         </div>
                       </div>
+                      <div className="rounded-md bg-muted p-4">
+                        <h4 className="text-xs font-medium mb-3">Signal Outcomes</h4>
+                        <StrategyOutcomeSummaryView summary={outcomes.find((o) => o.strategyId === strategy.id)} />
+                      </div>
+                      {isAdmin && (
+                        <div className="rounded-md border p-4">
+                          <h4 className="text-xs font-medium mb-3">Moving Averages (fast_ma / slow_ma)</h4>
+                          <StrategyMovingAverageEditor
+                            strategy={strategy}
+                            isSaving={updateMutation.isPending}
+                            onSave={(settings) => updateMutation.mutate({ id: strategy.id, data: settings })}
+                          />
+                        </div>
+                      )}
+                      {isAdmin && (
+                        <div className="rounded-md border p-4">
+                          <h4 className="text-xs font-medium mb-3">Signal Cooldown</h4>
+                          <SignalCooldownEditor
+                            strategy={strategy}
+                            isSaving={updateMutation.isPending}
+                            onSave={(cooldownMinutes) => updateMutation.mutate({ id: strategy.id, data: { cooldownMinutes } })}
+                          />
+                        </div>
+                      )}
+                      {isAdmin && (
+                        <div className="rounded-md border p-4">
+                          <h4 className="text-xs font-medium mb-3">Signal Direction</h4>
+                          <SignalDirectionEditor
+                            strategy={strategy}
+                            isSaving={updateMutation.isPending}
+                            onSave={(direction) => updateMutation.mutate({ id: strategy.id, data: { direction } })}
+                          />
+                        </div>
+                      )}
+                      {isAdmin && (
+                        <div className="rounded-md border p-4">
+                          <h4 className="text-xs font-medium mb-3">Outcome Rules</h4>
+                          <StrategyOutcomeRulesEditor
+                            strategy={strategy}
+                            isSaving={updateMutation.isPending}
+                            onSave={(outcomeRules) => updateMutation.mutate({ id: strategy.id, data: { outcomeRules } })}
+                          />
+                        </div>
+                      )}
+                      {isAdmin && (
+                        <div className="rounded-md border p-4">
+                          <h4 className="text-xs font-medium mb-3">Asset Scope</h4>
+                          <StrategyAssetScopeEditor
+                            strategy={strategy}
+                            assets={assets}
+                            isSaving={updateMutation.isPending}
+                            onSave={(assetScope) => updateMutation.mutate({ id: strategy.id, data: { assetScope } })}
+                          />
+                        </div>
+                      )}
+                      <div className="rounded-md border p-4">
+                        <h4 className="text-xs font-medium mb-3">Version History</h4>
+                        <StrategyVersionHistory strategy={strategy} canRollback={isAdmin} />
+                      </div>
                     </CollapsibleContent>
                   </Collapsible>
                 </CardContent>
                 {isAdmin && (
                   <CardFooter className="flex items-center gap-2 justify-end border-t pt-4">
+                    <Button variant="ghost" size="sm" asChild data-testid={`button-export-pine-${strategy.id}`}>
+                      <a href={`/api/strategies/${strategy.id}/export/pine`} download>
+                        <FileCode className="h-4 w-4 mr-2" />
+                        Export Pine
+                      </a>
+                    </Button>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -552,13 +743,14 @@ export default function Strategies() {
             <DialogHeader>
               <DialogTitle>Add Strategy</DialogTitle>
               <DialogDescription>
-                Choose a preset strategy or build your own with the advanced builder
+                Choose a preset strategy, build your own with the advanced builder, or chain steps into a sequence
               </DialogDescription>
             </DialogHeader>
             <Tabs defaultValue="presets" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="presets" data-testid="tab-presets">Presets</TabsTrigger>
                 <TabsTrigger value="builder" data-testid="tab-advanced-builder">Advanced Builder</TabsTrigger>
+                <TabsTrigger value="sequence" data-testid="tab-sequence-builder">Sequence</TabsTrigger>
               </TabsList>
               
               <TabsContent value="presets" className="space-y-4">
@@ -597,6 +789,17 @@ export default function Strategies() {
 
               <TabsContent value="builder" className="mt-4">
                 <AdvancedStrategyBuilder
+                  assets={assets}
+                  isLoading={createMutation.isPending}
+                  onBuild={(strategyData) => {
+                    createMutation.mutate(strategyData);
+                  }}
+                />
+              </TabsContent>
+
+              <TabsContent value="sequence" className="mt-4">
+                <SequenceStrategyBuilder
+                  presets={PRESET_STRATEGIES.map(({ type, name }) => ({ type, name }))}
                   isLoading={createMutation.isPending}
                   onBuild={(strategyData) => {
                     createMutation.mutate(strategyData);
@@ -0,0 +1,60 @@
+import { FormulaEvaluator, type FormulaBar, type FormulaContext } from "../server/services/formula-evaluator";
+
+/**
+ * Benchmarks formula evaluation paths against each other:
+ *   - interpreting the syntax tree vs running the compiled closure
+ *   - validating and building a strategy's formula on every candle close vs the cached compile
+ *
+ * Usage: npx tsx scripts/bench-formulas.ts [iterations]
+ */
+
+const iterations = parseInt(process.argv[2] ?? "", 10) || 20000;
+
+const FORMULAS = [
+  "price > ema50 && ema50 > ema200",
+  "crosses_above(price, ema50) && close[1] < close[2]",
+  "abs(price - ema200) < ema200 * 0.01 && (high - low) / price > 0.002",
+  "rsi(close, 14) > 55 && ema(close, 9) > ema(close, 21)",
+];
+
+function buildContext(): FormulaContext {
+  const bars: FormulaBar[] = [];
+  for (let i = 0; i < 250; i++) {
+    const price = 100 + 5 * Math.sin(i / 10) + i * 0.01;
+    bars.push({ price, close: price, open: price - 0.2, high: price + 0.5, low: price - 0.5, ema50: price - 1, ema200: price - 2 });
+  }
+  const [current, ...history] = bars.reverse();
+  return { ...current, history };
+}
+
+function measure(run: () => void): number {
+  // Warm up the JIT before timing
+  for (let i = 0; i < Math.min(iterations, 1000); i++) run();
+
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) run();
+  const elapsedNs = Number(process.hrtime.bigint() - start);
+  return elapsedNs / iterations / 1000; // µs per call
+}
+
+const evaluator = new FormulaEvaluator();
+const context = buildContext();
+
+console.log(`⏱️  ${iterations} evaluations per case\n`);
+console.log("Formula".padEnd(72) + "interpret".padStart(12) + "compiled".padStart(12) + "per close".padStart(12) + "cached".padStart(12));
+
+for (const formula of FORMULAS) {
+  const compiled = evaluator.compile(formula, "bench");
+  const interpreted = measure(() => evaluator.interpret(formula, context));
+  const closure = measure(() => compiled.evaluate(context));
+
+  // What detectSignals did before compiled strategies were cached: validate and build on every close
+  const uncached = measure(() => {
+    evaluator.clearCache();
+    evaluator.compile(formula, "bench").evaluate(context);
+  });
+  const cached = measure(() => evaluator.compile(formula, "bench").evaluate(context));
+
+  const format = (us: number) => `${us.toFixed(2)}µs`.padStart(12);
+  console.log(formula.padEnd(72) + format(interpreted) + format(closure) + format(uncached) + format(cached));
+}
@@ -0,0 +1,86 @@
+import pg from "pg";
+import { formulaEvaluator } from "../server/services/formula-evaluator";
+
+/**
+ * Rewrites stored strategy formulas in canonical syntax, e.g.
+ *   CLOSE >= EMA_50 AND EMA_50 > EMA_200  ->  close >= ema50 && ema50 > ema200
+ *
+ * Usage: DATABASE_URL=... npx tsx scripts/normalize-formulas.ts [--dry-run]
+ */
+
+const DATABASE_URL = process.env.DATABASE_URL;
+const dryRun = process.argv.includes("--dry-run");
+
+if (!DATABASE_URL) {
+  console.error("❌ DATABASE_URL environment variable is required");
+  process.exit(1);
+}
+
+const pool = new pg.Pool({
+  connectionString: DATABASE_URL,
+  ssl: { rejectUnauthorized: false },
+});
+
+async function normalizeFormulas() {
+  console.log(`🔧 Normalizing strategy formulas${dryRun ? " (dry run)" : ""}...\n`);
+
+  const client = await pool.connect();
+
+  try {
+    // Formulas may call macros, which must be known to tokenize them
+    const macros = await client.query("SELECT name, params, expression FROM formula_macros");
+    formulaEvaluator.setMacros(
+      macros.rows.map((m) => ({ name: m.name, params: m.params ?? [], expression: m.expression }))
+    );
+
+    const { rows } = await client.query(
+      "SELECT id, name, formula FROM strategies WHERE formula IS NOT NULL AND formula <> ''"
+    );
+
+    let updated = 0;
+    let invalid = 0;
+
+    for (const strategy of rows) {
+      let formula: string;
+      try {
+        formula = formulaEvaluator.normalize(strategy.formula);
+      } catch (e: any) {
+        console.log(`   ❌ ${strategy.name}: ${e.message}`);
+        invalid++;
+        continue;
+      }
+
+      const validation = formulaEvaluator.validate(formula);
+      if (!validation.valid) {
+        console.log(`   ❌ ${strategy.name}: ${validation.errors.join("; ")}`);
+        invalid++;
+        continue;
+      }
+
+      if (formula === strategy.formula) {
+        continue;
+      }
+
+      if (!dryRun) {
+        await client.query("UPDATE strategies SET formula = $1, updated_at = NOW() WHERE id = $2", [formula, strategy.id]);
+      }
+      console.log(`   ✅ ${strategy.name}\n      ${strategy.formula}\n   -> ${formula}`);
+      updated++;
+    }
+
+    console.log(`\n✅ ${dryRun ? "Would rewrite" : "Rewrote"} ${updated} of ${rows.length} formulas`);
+    if (invalid > 0) {
+      console.log(`⚠️  ${invalid} formulas are invalid and need fixing by hand`);
+    }
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+normalizeFormulas()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  });
@@ -10,6 +10,7 @@ import session from "express-session";
 
 import { registerRoutes } from "./routes";
 import { startCleanupJob } from "./jobs/database-cleanup";
+import { startIndicatorCheckpointJob } from "./jobs/indicator-checkpoint";
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -103,6 +104,12 @@ export default async function runApp(
   // the catch-all route doesn't interfere with the other routes
   await setup(app, server);
 
+  // Restore the live feeds' tick EMAs before anything can start the feeds (only if using database)
+  if (process.env.DATABASE_URL) {
+    await startIndicatorCheckpointJob();
+    log("Indicator checkpoint job started (saves tick EMAs every minute)", "signalpro");
+  }
+
   // ALWAYS serve the app on the port specified in the environment variable PORT
   // Other ports are firewalled. Default to 5000 if not specified.
   // this serves both the API and the client.
@@ -1,12 +1,15 @@
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, isNotNull, sql } from "drizzle-orm";
 import { db } from "./db";
 import {
   assets,
   strategies,
+  strategyVersions,
+  formulaMacros,
   signals,
   brokerConfigs,
   notificationConfigs,
   candleData,
+  indicatorCheckpoints,
   users,
   logs,
   dashboardConfigs,
@@ -14,6 +17,10 @@ import {
   type InsertAsset,
   type Strategy,
   type InsertStrategy,
+  type StrategyVersion,
+  type InsertStrategyVersion,
+  type FormulaMacro,
+  type InsertFormulaMacro,
   type Signal,
   type InsertSignal,
   type BrokerConfig,
@@ -22,6 +29,7 @@ import {
   type InsertNotificationConfig,
   type CandleData,
   type InsertCandleData,
+  type IndicatorCheckpointRecord,
   type User,
   type InsertUser,
   type Log,
@@ -134,29 +142,108 @@ export class DatabaseStorage implements IStorageWithLogs {
       mergeLogic: logic,
       mergeTimeWindow: timeWindow ?? 60,
       linkedStrategies: [strategy1Id, strategy2Id],
+      maType: s1.maType,
+      fastPeriod: s1.fastPeriod,
+      slowPeriod: s1.slowPeriod,
+      cooldownMinutes: s1.cooldownMinutes,
+      direction: s1.direction === s2.direction ? s1.direction : null,
+      outcomeRules: s1.outcomeRules,
     }).returning();
 
     return mergedStrategy;
   }
 
+  // ============ STRATEGY VERSIONS ============
+  async getStrategyVersions(strategyId: string): Promise<StrategyVersion[]> {
+    return db.select().from(strategyVersions)
+      .where(eq(strategyVersions.strategyId, strategyId))
+      .orderBy(desc(strategyVersions.version));
+  }
+
+  async getStrategyVersion(strategyId: string, version: number): Promise<StrategyVersion | undefined> {
+    const [strategyVersion] = await db.select().from(strategyVersions)
+      .where(and(eq(strategyVersions.strategyId, strategyId), eq(strategyVersions.version, version)));
+    return strategyVersion;
+  }
+
+  async createStrategyVersion(insertVersion: InsertStrategyVersion): Promise<StrategyVersion> {
+    const [strategyVersion] = await db.insert(strategyVersions).values({
+      ...insertVersion,
+      id: randomUUID(),
+    }).returning();
+    return strategyVersion;
+  }
+
+  // ============ FORMULA MACROS ============
+  async getFormulaMacros(): Promise<FormulaMacro[]> {
+    return db.select().from(formulaMacros).orderBy(formulaMacros.name);
+  }
+
+  async getFormulaMacro(id: string): Promise<FormulaMacro | undefined> {
+    const [macro] = await db.select().from(formulaMacros).where(eq(formulaMacros.id, id));
+    return macro;
+  }
+
+  async createFormulaMacro(insertMacro: InsertFormulaMacro): Promise<FormulaMacro> {
+    const [macro] = await db.insert(formulaMacros).values({
+      ...insertMacro,
+      id: randomUUID(),
+    }).returning();
+    return macro;
+  }
+
+  async updateFormulaMacro(id: string, data: Partial<FormulaMacro>): Promise<FormulaMacro | undefined> {
+    const [updated] = await db.update(formulaMacros)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(formulaMacros.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteFormulaMacro(id: string): Promise<boolean> {
+    const result = await db.delete(formulaMacros).where(eq(formulaMacros.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // ============ SIGNALS ============
   async getSignals(): Promise<Signal[]> {
     return db.select().from(signals).orderBy(desc(signals.createdAt));
   }
 
+  async getTrackingSignals(): Promise<Signal[]> {
+    return db.select().from(signals)
+      .where(sql`${signals.outcome}->>'status' = 'tracking'`)
+      .orderBy(desc(signals.createdAt));
+  }
+
+  async getSignalsWithOutcomes(strategyId?: string): Promise<Signal[]> {
+    return db.select().from(signals)
+      .where(and(isNotNull(signals.outcome), strategyId === undefined ? undefined : eq(signals.strategyId, strategyId)))
+      .orderBy(desc(signals.createdAt));
+  }
+
   async getSignal(id: string): Promise<Signal | undefined> {
     const [signal] = await db.select().from(signals).where(eq(signals.id, id));
     return signal;
   }
 
+  async getLatestSignalByDedupKey(dedupKey: string): Promise<Signal | undefined> {
+    const [signal] = await db.select().from(signals)
+      .where(eq(signals.dedupKey, dedupKey))
+      .orderBy(desc(signals.createdAt))
+      .limit(1);
+    return signal;
+  }
+
   async createSignal(insertSignal: InsertSignal): Promise<Signal> {
+    const currentStrategy = await this.getStrategy(insertSignal.strategyId);
     const [signal] = await db.insert(signals).values({
       ...insertSignal,
       id: randomUUID(),
+      strategyVersion: insertSignal.strategyVersion ?? currentStrategy?.version ?? null,
     }).returning();
 
     // Increment signal count for the strategy
-    const currentStrategy = await this.getStrategy(insertSignal.strategyId);
     const newCount = (currentStrategy?.signalCount ?? 0) + 1;
     await db.update(strategies)
       .set({ signalCount: newCount })
@@ -256,6 +343,23 @@ export class DatabaseStorage implements IStorageWithLogs {
     return candle;
   }
 
+  // ============ INDICATOR CHECKPOINTS ============
+  async getIndicatorCheckpoint(name: string): Promise<IndicatorCheckpointRecord | undefined> {
+    const [checkpoint] = await db.select().from(indicatorCheckpoints).where(eq(indicatorCheckpoints.name, name));
+    return checkpoint;
+  }
+
+  async saveIndicatorCheckpoint(checkpoint: IndicatorCheckpointRecord): Promise<IndicatorCheckpointRecord> {
+    const [saved] = await db.insert(indicatorCheckpoints)
+      .values(checkpoint)
+      .onConflictDoUpdate({
+        target: indicatorCheckpoints.name,
+        set: { series: checkpoint.series, createdAt: checkpoint.createdAt },
+      })
+      .returning();
+    return saved;
+  }
+
   // ============ USERS ============
   async getUsers(): Promise<User[]> {
     return db.select().from(users);
@@ -1,6 +1,6 @@
 import { db } from "../db";
 import { signals, logs, candleData } from "@shared/schema";
-import { lt, sql } from "drizzle-orm";
+import { and, isNull, lt, or, sql } from "drizzle-orm";
 
 /**
  * Database Cleanup Job
@@ -8,24 +8,35 @@ import { lt, sql } from "drizzle-orm";
  * Runs every 24 hours to clean up old data while preserving:
  * - Last 250 candles per asset/timeframe (required for EMA200 calculation)
  * - All users, assets, strategies, broker configs, notification configs
+ * - Signals whose outcome is still being tracked
+ * - Signals with a complete outcome for SIGNAL_OUTCOME_RETENTION_DAYS: the strategy outcome stats are computed from them
  * 
  * Deletes:
- * - Signals older than 24 hours
+ * - Signals older than 24 hours without an outcome
+ * - Signals with a complete outcome older than SIGNAL_OUTCOME_RETENTION_DAYS
  * - Logs older than 24 hours
  * - Candle data beyond last 250 per asset/timeframe
  */
 
+// Days signals with a complete outcome are kept, which is the window the strategy outcome stats cover
+export const SIGNAL_OUTCOME_RETENTION_DAYS = 90;
+
 export async function cleanupOldData() {
   const now = new Date();
   const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const outcomeRetentionStart = new Date(now.getTime() - SIGNAL_OUTCOME_RETENTION_DAYS * 24 * 60 * 60 * 1000);
 
   console.log(`[Cleanup] Starting database cleanup at ${now.toISOString()}`);
 
   try {
-    // 1. Delete signals older than 24 hours
+    // 1. Delete signals older than 24 hours without an outcome, and those whose outcome completed
+    // outside the retention window. Signals still being tracked are kept however old.
     const deletedSignals = await db
       .delete(signals)
-      .where(lt(signals.createdAt, twentyFourHoursAgo))
+      .where(or(
+        and(lt(signals.createdAt, twentyFourHoursAgo), isNull(signals.outcome)),
+        and(lt(signals.createdAt, outcomeRetentionStart), sql`${signals.outcome}->>'status' = 'complete'`)
+      ))
       .returning();
     
     console.log(`[Cleanup] Deleted ${deletedSignals.length} old signals`);
@@ -0,0 +1,81 @@
+import { storage } from "../storage";
+import { streamingIndicators, type IndicatorCheckpoint } from "../services/streaming-indicators";
+import { MAX_CANDLE_GAP_MS } from "../services/candle-store";
+
+/**
+ * Indicator Checkpoint Job
+ *
+ * The live feeds fold every tick into EMAs under the "tick" timeframe (see broker-websocket and
+ * finnhub-forex-websocket). Unlike candle series, ticks aren't stored, so there is nothing to replay
+ * after a restart: the tick EMAs are checkpointed every minute instead and restored on startup.
+ * A checkpoint older than MAX_CANDLE_GAP_MS is ignored, as the feeds have missed too much since.
+ */
+
+const TICK_TIMEFRAME = "tick";
+const CHECKPOINT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Save the tick EMAs. Returns the number of series saved.
+ */
+export async function saveTickIndicators(): Promise<number> {
+  const checkpoint = streamingIndicators.checkpoint(TICK_TIMEFRAME);
+  const count = Object.keys(checkpoint.series).length;
+  if (count === 0) {
+    return 0; // keep the last checkpoint until the feeds are running
+  }
+
+  await storage.saveIndicatorCheckpoint({
+    name: TICK_TIMEFRAME,
+    series: checkpoint.series,
+    createdAt: new Date(checkpoint.createdAt),
+  });
+  return count;
+}
+
+/**
+ * Restore the tick EMAs from the last checkpoint. Returns the number of series restored.
+ */
+export async function restoreTickIndicators(now: number = Date.now()): Promise<number> {
+  const saved = await storage.getIndicatorCheckpoint(TICK_TIMEFRAME);
+  if (!saved) {
+    return 0;
+  }
+  if (now - saved.createdAt.getTime() > MAX_CANDLE_GAP_MS) {
+    console.log(`[Indicator Checkpoint] Tick checkpoint from ${saved.createdAt.toISOString()} is too old to restore`);
+    return 0;
+  }
+
+  const checkpoint: IndicatorCheckpoint = {
+    createdAt: saved.createdAt.toISOString(),
+    series: saved.series as IndicatorCheckpoint["series"],
+  };
+  streamingIndicators.restore(checkpoint);
+  return Object.keys(checkpoint.series).length;
+}
+
+/**
+ * Start the checkpoint job scheduler
+ * Restores the last checkpoint first, so call it before the live feeds start
+ */
+export async function startIndicatorCheckpointJob(): Promise<NodeJS.Timeout> {
+  try {
+    const restored = await restoreTickIndicators();
+    console.log(`[Indicator Checkpoint] Restored ${restored} tick series`);
+  } catch (error) {
+    console.error("[Indicator Checkpoint] Error restoring tick indicators:", error);
+  }
+
+  return setInterval(() => {
+    saveTickIndicators().catch((error) => {
+      console.error("[Indicator Checkpoint] Error saving tick indicators:", error);
+    });
+  }, CHECKPOINT_INTERVAL_MS);
+}
+
+/**
+ * Stop the checkpoint job (useful for testing or graceful shutdown)
+ */
+export function stopIndicatorCheckpointJob(intervalId: NodeJS.Timeout) {
+  clearInterval(intervalId);
+  console.log("[Indicator Checkpoint] Indicator checkpoint job stopped");
+}
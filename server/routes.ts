@@ -3,7 +3,7 @@ import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage, dbStorage } from "./storage";
 import { z } from "zod";
-import { insertAssetSchema, insertStrategySchema, insertSignalSchema, insertUserSchema, insertLogSchema } from "@shared/schema";
+import { insertAssetSchema, insertStrategySchema, insertSignalSchema, insertUserSchema, insertLogSchema, insertFormulaMacroSchema, movingAverageSettingsSchema, DEFAULT_MOVING_AVERAGES, MOVING_AVERAGE_TYPES, cooldownMinutesSchema, strategyAssetScopeSchema, SIGNAL_DIRECTIONS, signalOutcomeRulesSchema, strategySequenceSchema, TIMEFRAMES, isTimeframe, type FormulaMacro, type MovingAverageSettings, type StrategySequence } from "@shared/schema";
 import { realtimeSignalGenerator } from "./services/realtime-signal-generator";
 import { forexSignalGenerator } from "./services/forex-signal-generator";
 import { finnhubForexWebSocket, FOREX_SYMBOL_MAP, FINNHUB_FOREX_PAIRS } from "./services/finnhub-forex-websocket";
@@ -11,7 +11,13 @@ import { notificationService } from "./services/notification-service";
 import { brokerService } from "./services/broker-service";
 import { brokerWebSocket } from "./services/broker-websocket";
 import { formulaEvaluator } from "./services/formula-evaluator";
+import { formulaBacktester } from "./services/formula-backtester";
+import { pineConverter, PineConversionError, PRESET_FORMULAS } from "./services/pine-converter";
+import { indicatorCalculator, INDICATOR_NAMES, type IndicatorName } from "./services/indicator-calculator";
+import { summarizeOutcomes, summarizeAllOutcomes } from "./services/outcome-tracker";
 import { signalDetector } from "./services/signal-detector";
+import { strategyRegistry } from "./services/strategy-registry";
+import { strategyVersioning, type StrategyVersionAuthor } from "./services/strategy-versioning";
 import { requireAuth, requireAdmin, loginRateLimit, apiRateLimit, strictRateLimit } from "./middleware/auth";
 
 // Helper function to create activity logs
@@ -41,6 +47,65 @@ async function createActivityLog(
   }
 }
 
+// The formula evaluator resolves macros synchronously, so it keeps its own copy of the library.
+// Strategy formulas are compiled against it, so the strategy registry reloads to recompile them.
+async function loadFormulaMacros() {
+  const macros = await storage.getFormulaMacros();
+  formulaEvaluator.setMacros(macros.map(toMacroDefinition));
+  await reloadStrategyRegistry("formula macros changed");
+}
+
+// Strategy changes reach signal detection once the registry reloads. A failed reload is only logged:
+// the change is saved, and the registry's periodic checksum check picks it up.
+async function reloadStrategyRegistry(reason: string) {
+  try {
+    await strategyRegistry.reload(reason);
+  } catch (error) {
+    console.error("[Strategy Registry] Failed to reload strategies:", error);
+  }
+}
+
+// The signed-in user a strategy change is recorded against
+async function getVersionAuthor(req: Request): Promise<StrategyVersionAuthor | null> {
+  const user = req.session?.userId ? await storage.getUser(req.session.userId) : undefined;
+  return user ? { id: user.id, name: user.name } : null;
+}
+
+function toMacroDefinition(macro: Pick<FormulaMacro, "name" | "params" | "expression">) {
+  return { name: macro.name, params: (macro.params as string[] | null) ?? [], expression: macro.expression };
+}
+
+// Strategies and other macros that expand the named macro, i.e. everything an edit to it affects
+async function getMacroDependents(name: string) {
+  const [strategies, macros] = await Promise.all([storage.getStrategies(), storage.getFormulaMacros()]);
+  return {
+    strategies: strategies
+      .filter((s) => s.formula && formulaEvaluator.getReferencedMacros(s.formula).includes(name))
+      .map((s) => ({ id: s.id, name: s.name, enabled: s.enabled })),
+    macros: macros
+      .filter((m) => m.name !== name && formulaEvaluator.getReferencedMacros(m.expression, toMacroDefinition(m).params).includes(name))
+      .map((m) => ({ id: m.id, name: m.name })),
+  };
+}
+
+// Problems with a sequence strategy's steps that its schema can't catch: formulas that don't
+// validate and presets without an implementation
+function getSequenceErrors(sequence: StrategySequence): string[] {
+  const errors: string[] = [];
+  sequence.steps.forEach((step, index) => {
+    if (step.preset && !signalDetector.hasPreset(step.preset)) {
+      errors.push(`Step ${index + 1}: unknown preset ${step.preset}`);
+    }
+    for (const formula of [step.formula, step.invalidation]) {
+      if (formula) {
+        const validation = formulaEvaluator.validate(formula);
+        errors.push(...validation.errors.map((error) => `Step ${index + 1}: ${error}`));
+      }
+    }
+  });
+  return errors;
+}
+
 const clients = new Set<WebSocket>();
 
 function broadcastSignal(signal: any) {
@@ -331,6 +396,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/strategies/outcomes", async (req, res) => {
+    try {
+      const [strategies, signals] = await Promise.all([storage.getStrategies(), storage.getSignalsWithOutcomes()]);
+      res.json(summarizeAllOutcomes(strategies, signals));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch strategy outcomes" });
+    }
+  });
+
+  app.get("/api/strategies/:id/outcomes", async (req, res) => {
+    try {
+      const strategy = await storage.getStrategy(req.params.id);
+      if (!strategy) {
+        res.status(404).json({ error: "Strategy not found" });
+        return;
+      }
+      res.json(summarizeOutcomes(strategy.id, await storage.getSignalsWithOutcomes(strategy.id)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch strategy outcomes" });
+    }
+  });
+
+  app.get("/api/strategies/:id/versions", async (req, res) => {
+    try {
+      const strategy = await storage.getStrategy(req.params.id);
+      if (!strategy) {
+        res.status(404).json({ error: "Strategy not found" });
+        return;
+      }
+      res.json(await storage.getStrategyVersions(strategy.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch strategy versions" });
+    }
+  });
+
+  app.get("/api/strategies/:id/versions/compare", async (req, res) => {
+    try {
+      const { from, to } = z.object({
+        from: z.coerce.number().int().min(1),
+        to: z.coerce.number().int().min(1),
+      }).parse(req.query);
+      const comparison = await strategyVersioning.compare(req.params.id, from, to);
+      if (!comparison) {
+        res.status(404).json({ error: "Strategy version not found" });
+        return;
+      }
+      res.json(comparison);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation error", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to compare strategy versions" });
+      }
+    }
+  });
+
+  app.post("/api/strategies/:id/versions/:version/rollback", async (req, res) => {
+    try {
+      if (!req.session?.userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      if (req.session.userRole !== "admin") {
+        res.status(403).json({ error: "Forbidden - admin access required" });
+        return;
+      }
+      const { id } = req.params;
+      const version = z.coerce.number().int().min(1).parse(req.params.version);
+
+      const strategy = await strategyVersioning.rollback(id, version, await getVersionAuthor(req));
+      if (!strategy) {
+        res.status(404).json({ error: "Strategy version not found" });
+        return;
+      }
+      await reloadStrategyRegistry(`strategy ${id} rolled back to version ${version}`);
+      res.json(strategy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation error", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to roll back strategy" });
+      }
+    }
+  });
+
   app.post("/api/strategies", async (req, res) => {
     try {
       if (!req.session?.userId) {
@@ -342,7 +492,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       const data = insertStrategySchema.parse(req.body);
+      const sequenceErrors = data.sequence ? getSequenceErrors(data.sequence) : [];
+      if (sequenceErrors.length > 0) {
+        res.status(400).json({ error: "Invalid sequence", details: sequenceErrors });
+        return;
+      }
       const strategy = await storage.createStrategy(data);
+      await strategyVersioning.recordCreated(strategy, await getVersionAuthor(req));
+      await reloadStrategyRegistry(`strategy ${strategy.id} created`);
       res.status(201).json(strategy);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -364,14 +521,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       const { id } = req.params;
-      const strategy = await storage.updateStrategy(id, req.body);
+
+      // Moving average settings are checked together with the ones the update leaves unchanged
+      const { maType, fastPeriod, slowPeriod } = req.body;
+      if (maType !== undefined || fastPeriod !== undefined || slowPeriod !== undefined) {
+        const existing = await storage.getStrategy(id);
+        if (!existing) {
+          res.status(404).json({ error: "Strategy not found" });
+          return;
+        }
+        movingAverageSettingsSchema.parse({
+          maType: maType ?? existing.maType,
+          fastPeriod: fastPeriod ?? existing.fastPeriod,
+          slowPeriod: slowPeriod ?? existing.slowPeriod,
+        });
+      }
+      if (req.body.cooldownMinutes !== undefined) {
+        cooldownMinutesSchema.parse(req.body.cooldownMinutes);
+      }
+      if (req.body.assetScope) {
+        req.body.assetScope = strategyAssetScopeSchema.parse(req.body.assetScope);
+      }
+      if (req.body.direction !== undefined) {
+        z.enum(SIGNAL_DIRECTIONS).nullable().parse(req.body.direction);
+      }
+      if (req.body.outcomeRules) {
+        req.body.outcomeRules = signalOutcomeRulesSchema.parse(req.body.outcomeRules);
+      }
+      if (req.body.sequence) {
+        req.body.sequence = strategySequenceSchema.parse(req.body.sequence);
+        const sequenceErrors = getSequenceErrors(req.body.sequence);
+        if (sequenceErrors.length > 0) {
+          res.status(400).json({ error: "Invalid sequence", details: sequenceErrors });
+          return;
+        }
+      }
+
+      const strategy = await strategyVersioning.update(id, req.body, await getVersionAuthor(req));
       if (!strategy) {
         res.status(404).json({ error: "Strategy not found" });
         return;
       }
+      await reloadStrategyRegistry(`strategy ${id} updated`);
       res.json(strategy);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update strategy" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation error", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update strategy" });
+      }
     }
   });
 
@@ -391,6 +589,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(404).json({ error: "Strategy not found" });
         return;
       }
+      await reloadStrategyRegistry(`strategy ${id} deleted`);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Failed to delete strategy" });
@@ -431,6 +630,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
+      await strategyVersioning.recordCreated(mergedStrategy, await getVersionAuthor(req));
+      await reloadStrategyRegistry(`strategy ${mergedStrategy.id} merged`);
       await createActivityLog("merge_strategies", "strategy", mergedStrategy.id, req.session?.userId, { strategy1Id, strategy2Id, logic }, req);
       res.status(201).json(mergedStrategy);
     } catch (error) {
@@ -454,6 +655,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           valid: true, 
           message: "Formula is valid",
           warnings: validation.warnings,
+          issues: validation.issues,
+          warmupBars: validation.warmupBars,
+          timeframeWarmupBars: validation.timeframeWarmupBars,
           allowedVariables: formulaEvaluator.getAllowedVariables(),
           allowedFunctions: formulaEvaluator.getAllowedFunctions(),
         });
@@ -462,6 +666,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           valid: false, 
           message: "Invalid formula",
           errors: validation.errors,
+          warnings: validation.warnings,
+          issues: validation.issues,
         });
       }
     } catch (error) {
@@ -469,6 +675,261 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/strategies/trace", async (req, res) => {
+    try {
+      const { strategyId, assetId } = req.body;
+      let { formula, timeframe } = req.body;
+      // fast_ma/slow_ma settings: the strategy's, or optional maType/fastPeriod/slowPeriod for a bare formula
+      let movingAverages: MovingAverageSettings = movingAverageSettingsSchema.parse({
+        maType: req.body.maType ?? DEFAULT_MOVING_AVERAGES.maType,
+        fastPeriod: req.body.fastPeriod ?? DEFAULT_MOVING_AVERAGES.fastPeriod,
+        slowPeriod: req.body.slowPeriod ?? DEFAULT_MOVING_AVERAGES.slowPeriod,
+      });
+
+      if (strategyId) {
+        const strategy = await storage.getStrategy(strategyId);
+        if (!strategy) {
+          res.status(404).json({ error: "Strategy not found" });
+          return;
+        }
+        if (!strategy.formula) {
+          res.status(400).json({ error: "Strategy has no formula" });
+          return;
+        }
+        formula = strategy.formula;
+        timeframe = timeframe ?? strategy.timeframe;
+        movingAverages = movingAverageSettingsSchema.parse(strategy);
+      }
+
+      if (!formula || typeof formula !== "string") {
+        res.status(400).json({ error: "Formula or strategyId is required" });
+        return;
+      }
+      if (typeof timeframe !== "string" || !isTimeframe(timeframe)) {
+        res.status(400).json({ error: `Timeframe must be one of ${TIMEFRAMES.join(", ")}` });
+        return;
+      }
+
+      const asset = assetId ? await storage.getAsset(assetId) : undefined;
+      if (!asset) {
+        res.status(404).json({ error: "Asset not found" });
+        return;
+      }
+
+      const validation = formulaEvaluator.validate(formula);
+      if (!validation.valid) {
+        res.status(400).json({
+          valid: false,
+          message: "Invalid formula",
+          errors: validation.errors,
+          issues: validation.issues,
+        });
+        return;
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.body.limit) || 100, 1), 500);
+      const result = await formulaBacktester.run(formula, asset.id, timeframe, limit, movingAverages);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation error", details: error.errors });
+        return;
+      }
+      console.error("[Formula Trace] Error:", error);
+      res.status(500).json({ error: "Failed to trace formula" });
+    }
+  });
+
+  app.get("/api/strategies/:id/export/pine", async (req, res) => {
+    try {
+      const strategy = await storage.getStrategy(req.params.id);
+      if (!strategy) {
+        res.status(404).json({ error: "Strategy not found" });
+        return;
+      }
+      const script = pineConverter.strategyToPine(strategy);
+      res.type("text/plain").attachment(`${strategy.type}.pine`).send(script);
+    } catch (error) {
+      if (error instanceof PineConversionError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error("[Pine Export] Error:", error);
+        res.status(500).json({ error: "Failed to export strategy" });
+      }
+    }
+  });
+
+  app.get("/api/strategies/presets/:type/export/pine", async (req, res) => {
+    const { type } = req.params;
+    const formula = PRESET_FORMULAS[type];
+    if (!formula) {
+      res.status(404).json({ error: "Preset strategy not found" });
+      return;
+    }
+    // Preset types start with their timeframe, e.g. 15m_above_50_bullish
+    const timeframe = type.split("_")[0];
+    res.type("text/plain").attachment(`${type}.pine`).send(pineConverter.toPine(formula, type, timeframe));
+  });
+
+  app.post("/api/strategies/import/pine", async (req, res) => {
+    try {
+      const { script } = req.body;
+      if (!script || typeof script !== "string") {
+        res.status(400).json({ error: "Pine script is required" });
+        return;
+      }
+
+      const formula = pineConverter.fromPine(script);
+      const validation = formulaEvaluator.validate(formula);
+      res.status(validation.valid ? 200 : 400).json({
+        formula,
+        valid: validation.valid,
+        errors: validation.errors,
+        warnings: validation.warnings,
+        issues: validation.issues,
+      });
+    } catch (error) {
+      if (error instanceof PineConversionError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error("[Pine Import] Error:", error);
+        res.status(500).json({ error: "Failed to import Pine script" });
+      }
+    }
+  });
+
+  app.get("/api/formula-macros", async (req, res) => {
+    try {
+      const macros = await storage.getFormulaMacros();
+      const withDependents = await Promise.all(
+        macros.map(async (macro) => ({ ...macro, dependents: await getMacroDependents(macro.name) }))
+      );
+      res.json(withDependents);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch formula macros" });
+    }
+  });
+
+  app.get("/api/formula-macros/:id/dependents", async (req, res) => {
+    try {
+      const macro = await storage.getFormulaMacro(req.params.id);
+      if (!macro) {
+        res.status(404).json({ error: "Formula macro not found" });
+        return;
+      }
+      res.json(await getMacroDependents(macro.name));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch macro dependents" });
+    }
+  });
+
+  app.post("/api/formula-macros", async (req, res) => {
+    try {
+      if (!req.session?.userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      if (req.session.userRole !== "admin") {
+        res.status(403).json({ error: "Forbidden - admin access required" });
+        return;
+      }
+      const data = insertFormulaMacroSchema.parse(req.body);
+      const validation = formulaEvaluator.validateMacro(toMacroDefinition({ ...data, params: data.params ?? [] }));
+      if (!validation.valid) {
+        res.status(400).json({ error: "Invalid macro", errors: validation.errors });
+        return;
+      }
+      const macro = await storage.createFormulaMacro(data);
+      await loadFormulaMacros();
+      await createActivityLog("create_formula_macro", "formula_macro", macro.id, req.session?.userId, { name: macro.name }, req);
+      res.status(201).json(macro);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation error", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create formula macro" });
+      }
+    }
+  });
+
+  app.patch("/api/formula-macros/:id", async (req, res) => {
+    try {
+      if (!req.session?.userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      if (req.session.userRole !== "admin") {
+        res.status(403).json({ error: "Forbidden - admin access required" });
+        return;
+      }
+      const { id } = req.params;
+      const existing = await storage.getFormulaMacro(id);
+      if (!existing) {
+        res.status(404).json({ error: "Formula macro not found" });
+        return;
+      }
+      const data = insertFormulaMacroSchema.partial().parse(req.body);
+      const validation = formulaEvaluator.validateMacro(toMacroDefinition({ ...existing, ...data }), existing.name);
+      if (!validation.valid) {
+        res.status(400).json({ error: "Invalid macro", errors: validation.errors });
+        return;
+      }
+      const dependents = await getMacroDependents(existing.name);
+      // Dependent formulas call the macro by name with its parameters, so renaming it or changing
+      // how many it takes would stop them compiling
+      const renamed = data.name !== undefined && data.name.toLowerCase() !== existing.name.toLowerCase();
+      const arityChanged = toMacroDefinition({ ...existing, ...data }).params.length !== toMacroDefinition(existing).params.length;
+      if ((renamed || arityChanged) && (dependents.strategies.length > 0 || dependents.macros.length > 0)) {
+        res.status(409).json({
+          error: `Formula macro is still in use; its ${renamed ? "name" : "parameter count"} can't change`,
+          dependents,
+        });
+        return;
+      }
+      const macro = await storage.updateFormulaMacro(id, data);
+      await loadFormulaMacros();
+      await createActivityLog("update_formula_macro", "formula_macro", id, req.session?.userId, { name: existing.name, dependents }, req);
+      res.json({ ...macro, dependents });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation error", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update formula macro" });
+      }
+    }
+  });
+
+  app.delete("/api/formula-macros/:id", async (req, res) => {
+    try {
+      if (!req.session?.userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      if (req.session.userRole !== "admin") {
+        res.status(403).json({ error: "Forbidden - admin access required" });
+        return;
+      }
+      const { id } = req.params;
+      const existing = await storage.getFormulaMacro(id);
+      if (!existing) {
+        res.status(404).json({ error: "Formula macro not found" });
+        return;
+      }
+      // Deleting a macro that is still used would break every formula that expands it
+      const dependents = await getMacroDependents(existing.name);
+      if (dependents.strategies.length > 0 || dependents.macros.length > 0) {
+        res.status(409).json({ error: "Formula macro is still in use", dependents });
+        return;
+      }
+      await storage.deleteFormulaMacro(id);
+      await loadFormulaMacros();
+      await createActivityLog("delete_formula_macro", "formula_macro", id, req.session?.userId, { name: existing.name }, req);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete formula macro" });
+    }
+  });
+
   app.get("/api/signals", async (req, res) => {
     try {
       const signals = await storage.getSignals();
@@ -1341,6 +1802,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/admin/strategy-registry", async (req, res) => {
+    try {
+      if (!req.session?.userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      if (req.session.userRole !== "admin") {
+        res.status(403).json({ error: "Forbidden - admin access required" });
+        return;
+      }
+
+      await strategyRegistry.getStrategies();
+      const { strategies, ...status } = strategyRegistry.getStatus();
+      const implementations = new Map(signalDetector.getImplementationStatuses().map((s) => [s.strategyId, s]));
+
+      res.json({
+        ...status,
+        strategies: strategies.map((strategy) => ({
+          id: strategy.id,
+          name: strategy.name,
+          type: strategy.type,
+          timeframe: strategy.timeframe,
+          enabled: strategy.enabled,
+          updatedAt: strategy.updatedAt,
+          implementation: implementations.get(strategy.id)?.kind ?? null,
+          error: implementations.get(strategy.id)?.error ?? null,
+        })),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get strategy registry" });
+    }
+  });
+
   app.post("/api/admin/cleanup-now", async (req, res) => {
     try {
       if (!req.session?.userId) {
@@ -1463,15 +1957,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ============ EMA VALIDATION API ============
   app.post("/api/ema/validate", async (req, res) => {
     try {
-      const { data, period } = req.body;
+      const { data, period, type = "ema" } = req.body;
       if (!data || !Array.isArray(data) || !period) {
         res.status(400).json({ error: "data array and period required" });
         return;
       }
+      if (!MOVING_AVERAGE_TYPES.includes(type)) {
+        res.status(400).json({ error: `type must be one of: ${MOVING_AVERAGE_TYPES.join(", ")}` });
+        return;
+      }
 
-      const { emaCalculator } = await import("./services/ema-calculator");
-      const validation = emaCalculator.validateEMACalculation(data, period);
-      res.json(validation);
+      if (type === "ema") {
+        const { emaCalculator } = await import("./services/ema-calculator");
+        res.json(emaCalculator.validateEMACalculation(data, period));
+        return;
+      }
+      res.json(indicatorCalculator.validateMovingAverageCalculation(data, type, period));
     } catch (error) {
       res.status(500).json({ error: "Validation failed" });
     }
@@ -1479,17 +1980,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/ema/calculate", async (req, res) => {
     try {
-      const { data, period } = req.body;
+      const { data, period, type = "ema" } = req.body;
       if (!data || !Array.isArray(data) || !period) {
         res.status(400).json({ error: "data array and period required" });
         return;
       }
+      if (!MOVING_AVERAGE_TYPES.includes(type)) {
+        res.status(400).json({ error: `type must be one of: ${MOVING_AVERAGE_TYPES.join(", ")}` });
+        return;
+      }
 
-      const { emaCalculator } = await import("./services/ema-calculator");
-      const emaValues = emaCalculator.calculateEMA(data, period);
+      // The EMA, SMA, WMA, RMA, DEMA, TEMA or HMA of the data; the field names predate the type parameter
+      const emaValues = indicatorCalculator.calculateMovingAverage(data, type, period);
       const validValues = emaValues.filter(v => !isNaN(v));
       
       res.json({
+        type,
         period,
         inputLength: data.length,
         emaLength: validValues.length,
@@ -1501,6 +2007,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ============ INDICATOR API ============
+  const indicatorRequestSchema = z.object({
+    indicator: z.enum(INDICATOR_NAMES as [IndicatorName, ...IndicatorName[]]),
+    candles: z.array(z.object({
+      high: z.number(),
+      low: z.number(),
+      close: z.number(),
+      volume: z.number().optional(),
+      timestamp: z.coerce.date().optional(),
+    })).min(1),
+    params: z.object({
+      period: z.number().int().positive().optional(),
+      fast: z.number().int().positive().optional(),
+      slow: z.number().int().positive().optional(),
+      signal: z.number().int().positive().optional(),
+      stdDevs: z.number().positive().optional(),
+      multiplier: z.number().positive().optional(),
+      utcOffsetMinutes: z.number().int().optional(),
+    }).optional(),
+  });
+
+  app.post("/api/indicators/calculate", async (req, res) => {
+    try {
+      const { indicator, candles, params } = indicatorRequestSchema.parse(req.body);
+      const bars = candles.map(c => ({ ...c, volume: c.volume ?? 0, timestamp: c.timestamp ?? new Date(0) }));
+      const series = indicatorCalculator.calculate(indicator, bars, params);
+
+      res.json({
+        indicator,
+        inputLength: candles.length,
+        // NaN marks the warm-up bars; JSON has no NaN, so send null
+        series: Object.fromEntries(
+          Object.entries(series).map(([name, values]) => [name, values.map(v => (Number.isNaN(v) ? null : v))])
+        ),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation error", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Calculation failed" });
+      }
+    }
+  });
+
+  app.post("/api/indicators/validate", async (req, res) => {
+    try {
+      const { indicator, candles, params } = indicatorRequestSchema.parse(req.body);
+      const bars = candles.map(c => ({ ...c, volume: c.volume ?? 0, timestamp: c.timestamp ?? new Date(0) }));
+      res.json(indicatorCalculator.validate(indicator, bars, params));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation error", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Validation failed" });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
 
   const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
@@ -1526,7 +2090,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     ws.send(JSON.stringify({ type: "connected", message: "WebSocket connected" }));
   });
 
-  // Setup broker WebSocket to broadcast ticks and generate signals
+  // Setup broker WebSocket to broadcast ticks
   brokerWebSocket.on("tick", async (tickData) => {
     // Broadcast raw tick to connected clients
     clients.forEach((client) => {
@@ -1535,53 +2099,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
-    // Generate signals if we have EMA data
-    if (tickData.ema50 && tickData.ema200) {
-      try {
-        // Get asset ID from token mapping
-        const assetTokenMap = realtimeSignalGenerator.getAssetTokenMap();
-        const assetInfo = assetTokenMap.get(tickData.symbol);
-        
-        if (!assetInfo) {
-          console.log(`[Routes] No asset mapping found for ${tickData.symbol}`);
-          return;
-        }
-
-        const signals = await signalDetector.detectSignals({
-          assetId: assetInfo.assetId,
-          timeframe: "5m", // Match strategy timeframes
-          price: tickData.lastPrice,
-          high: tickData.high,
-          low: tickData.low,
-          open: tickData.open,
-          ema50: tickData.ema50,
-          ema200: tickData.ema200,
-        });
-
-        for (const signal of signals) {
-          const createdSignal = await storage.createSignal(signal);
-          
-          // Get asset and strategy info for broadcasting
-          const asset = await storage.getAsset(signal.assetId);
-          const strategy = await storage.getStrategy(signal.strategyId);
-          
-          // Broadcast signal with asset info for better flash messages
-          broadcastSignal({
-            ...createdSignal,
-            asset: asset ? { symbol: asset.symbol, name: asset.name } : null,
-            strategy: strategy ? { name: strategy.name } : null
-          });
-
-          // Send notifications
-          if (asset && strategy) {
-            const configs = await storage.getNotificationConfigs();
-            notificationService.sendToAllEnabled({ signal: createdSignal, asset, strategy }, configs);
-          }
-        }
-      } catch (error) {
-        console.error("Signal detection error:", error);
-      }
-    }
+    // Signals are detected by realtimeSignalGenerator when a candle closes, not per tick
   });
 
   // Start real-time WebSocket connection for Zerodha
@@ -1734,6 +2252,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   realtimeSignalGenerator.setBroadcastCallback(broadcastSignal);
   forexSignalGenerator.setBroadcastCallback(broadcastSignal);
 
+  loadFormulaMacros().catch((error) => {
+    console.error("[Formula Macros] Failed to load macro library:", error);
+  });
+  strategyRegistry.start();
+
   // ==================== FOREX ROUTES ====================
 
   // Start Finnhub Forex WebSocket connection
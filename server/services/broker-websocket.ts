@@ -1,6 +1,6 @@
 import { WebSocket } from "ws";
 import { EventEmitter } from "events";
-import { emaCalculator } from "./ema-calculator";
+import { streamingIndicators } from "./streaming-indicators";
 import type { BrokerConfig } from "@shared/schema";
 
 export interface TickData {
@@ -11,7 +11,7 @@ export interface TickData {
   high: number;
   low: number;
   close: number;
-  volume: number;
+  volume: number; // traded so far in the day
   timestamp: Date;
   change: number;
   changePercent: number;
@@ -31,7 +31,6 @@ export class BrokerWebSocketManager extends EventEmitter {
   private connections: Map<string, WebSocket> = new Map();
   private subscriptions: Map<string, Set<number>> = new Map();
   private reconnectAttempts: Map<string, number> = new Map();
-  private priceHistory: Map<string, number[]> = new Map();
   private latestTicks: Map<string, TickData> = new Map();
   private brokerConfigs: Map<string, BrokerWebSocketConfig> = new Map();
   private healthCheckInterval: NodeJS.Timeout | null = null;
@@ -450,34 +449,8 @@ export class BrokerWebSocketManager extends EventEmitter {
     // Store latest tick for live price display
     this.latestTicks.set(key, tick);
     
-    // Store price history for EMA calculation
-    if (!this.priceHistory.has(key)) {
-      this.priceHistory.set(key, []);
-    }
-    
-    const history = this.priceHistory.get(key)!;
-    history.push(tick.lastPrice);
-    
-    // Keep only last 250 prices
-    if (history.length > 250) {
-      history.shift();
-    }
-
-    // Calculate EMAs if we have enough data
-    let ema50 = null;
-    let ema200 = null;
-    
-    if (history.length >= 50) {
-      const ema50Values = emaCalculator.calculateEMA(history, 50);
-      ema50 = ema50Values[ema50Values.length - 1];
-      if (isNaN(ema50)) ema50 = null;
-    }
-    
-    if (history.length >= 200) {
-      const ema200Values = emaCalculator.calculateEMA(history, 200);
-      ema200 = ema200Values[ema200Values.length - 1];
-      if (isNaN(ema200)) ema200 = null;
-    }
+    // Fold the price into the running tick EMAs (constant work per tick)
+    const { ema50, ema200 } = streamingIndicators.updateEMA50And200(key, "tick", tick.lastPrice);
 
     // Emit tick with EMA data
     this.emit("tick", {
@@ -485,7 +458,7 @@ export class BrokerWebSocketManager extends EventEmitter {
       ...tick,
       ema50,
       ema200,
-      historyLength: history.length,
+      historyLength: streamingIndicators.getLength(key, "tick"),
     });
   }
 
@@ -0,0 +1,85 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+
+// The storage module connects lazily but needs a URL to load; the tests run on an in-memory store
+process.env.DATABASE_URL ??= "postgres://test@127.0.0.1:1/test";
+const { storage, MemStorage } = await import("../storage");
+const { candleAggregator } = await import("./candle-aggregator");
+const { signalDetector } = await import("./signal-detector");
+const { strategyRegistry } = await import("./strategy-registry");
+
+const memory = new MemStorage();
+for (const method of Object.getOwnPropertyNames(MemStorage.prototype)) {
+  if (method !== "constructor") {
+    Object.assign(storage, { [method]: (memory as any)[method].bind(memory) });
+  }
+}
+mock.method(console, "log", () => {});
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2026, 0, 5, 4, 0);
+
+/**
+ * Feed one tick a minute through the aggregator and check strategies on every 1m close, as the
+ * live generators do. Returns the signal types raised, with the number of 1m candles closed so far.
+ */
+async function run(assetId: string, prices: number[]): Promise<Array<{ type: string; candles: number }>> {
+  const raised: Array<{ type: string; candles: number }> = [];
+  for (let i = 0; i < prices.length; i++) {
+    for (const event of candleAggregator.update(assetId, prices[i], START + i * MINUTE)) {
+      if (event.timeframe !== "1m") continue;
+      for (const signal of await signalDetector.detectSignals(candleAggregator.getMarketData(event))) {
+        raised.push({ type: signal.type, candles: candleAggregator.getCandles(assetId, "1m").length });
+      }
+    }
+  }
+  return raised;
+}
+
+test("strategies that don't need EMA 50/200 are checked before they warm up", async () => {
+  for (const strategy of await storage.getStrategies()) {
+    await storage.updateStrategy(strategy.id, { enabled: false });
+  }
+  await storage.createStrategy({ name: "Fast cross", type: "15m_above_50_bullish", timeframe: "1m", fastPeriod: 9, slowPeriod: 21 });
+  await storage.createStrategy({ name: "Up bar", type: "custom_up_bar", timeframe: "1m", isCustom: true, formula: "close > close[1] && close@5m > open@5m" });
+  await strategyRegistry.reload("test");
+
+  const asset = await storage.createAsset({ symbol: "TEST", name: "Test", type: "stock" });
+  // Flat, then rising from the 30th minute
+  const prices = Array.from({ length: 40 }, (_, i) => (i < 30 ? 100 : 100 + (i - 29)));
+  const raised = await run(asset.id, prices);
+
+  const { ema50, ema200 } = candleAggregator.getEMAs(asset.id, "1m");
+  assert.equal(ema50, null);
+  assert.equal(ema200, null);
+
+  // The first 1m candle closing in the rise, long before 50 candles
+  assert.deepEqual(raised.map(({ type }) => type).sort(), ["15m_above_50_bullish", "custom_up_bar"]);
+  for (const { candles } of raised) {
+    assert.ok(candles < 50, `raised after ${candles} candles`);
+  }
+});
+
+test("candles sum the volume of their ticks, and formulas can read it", async () => {
+  for (const strategy of await storage.getStrategies()) {
+    await storage.updateStrategy(strategy.id, { enabled: false });
+  }
+  await storage.createStrategy({ name: "Volume spike", type: "custom_volume_spike", timeframe: "1m", isCustom: true, formula: "volume > volume[1] * 2" });
+  await strategyRegistry.reload("test");
+
+  const asset = await storage.createAsset({ symbol: "VOL", name: "Volume", type: "stock" });
+  const raised: string[] = [];
+  // Two ticks a minute: 10 + 20 traded in each of the first three minutes, then 40 + 60
+  const ticks = [10, 20, 10, 20, 10, 20, 40, 60, 5, 5];
+  for (let i = 0; i < ticks.length; i++) {
+    for (const event of candleAggregator.update(asset.id, 100, START + (i * MINUTE) / 2, 100, 100, ticks[i])) {
+      if (event.timeframe !== "1m") continue;
+      const data = candleAggregator.getMarketData(event);
+      raised.push(...(await signalDetector.detectSignals(data)).map((signal) => `${signal.type}@${data.volume}`));
+    }
+  }
+
+  assert.deepEqual(candleAggregator.getCandles(asset.id, "1m").map((candle) => candle.volume), [30, 30, 30, 100]);
+  assert.equal(candleAggregator.getCandles(asset.id, "5m").length, 0);
+  assert.deepEqual(raised, ["custom_volume_spike@100"]);
+});
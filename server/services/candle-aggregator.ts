@@ -0,0 +1,303 @@
+import { EventEmitter } from "events";
+import { TIMEFRAMES, TIMEFRAME_MS, isTimeframe, type Strategy, type Timeframe } from "@shared/schema";
+import type { MarketData, MarketDataBar, MarketDataFrame } from "./signal-detector";
+import { MAX_HISTORY_BARS } from "./formula-evaluator";
+import { streamingIndicators } from "./streaming-indicators";
+import { MAX_CANDLE_GAP_MS, countMissingCandles, loadCandleHistory, persistCandle, type StoredCandle } from "./candle-store";
+import { strategyRegistry } from "./strategy-registry";
+
+/**
+ * Tick-to-candle aggregation shared by the live feeds.
+ *
+ * Every tick updates the open candle of each timeframe in TIMEFRAMES for its asset. A tick in a new
+ * period closes the open candle: its EMAs are folded into the streaming engine, it is persisted (see
+ * candle-store) and published on the candle-closed bus. Closes are published only once every
+ * timeframe has seen the tick, so a listener for a 5m close sees a 15m candle closed by the same tick.
+ *
+ * Listeners subscribe by timeframe with `onCandleClose`. The signal generators use
+ * `onStrategyCandleClose`, which follows the timeframes the enabled strategies run on.
+ */
+
+export interface CandleCloseEvent {
+  assetId: string;
+  timeframe: Timeframe;
+  candle: StoredCandle; // with the EMAs it closed with
+}
+
+export type CandleCloseListener = (event: CandleCloseEvent) => void | Promise<void>;
+
+interface CandleHistory {
+  candles: StoredCandle[]; // closed candles, oldest first
+  currentCandle: StoredCandle | null;
+  lastCandleTime: number;
+}
+
+export class CandleAggregator extends EventEmitter {
+  // key = "assetId-timeframe" (e.g., "asset1-5m")
+  private histories: Map<string, CandleHistory> = new Map();
+
+  /**
+   * Reload the persisted candles of every timeframe of the given assets, so EMAs are ready as soon
+   * as their feed reconnects. Returns the number of candles loaded.
+   */
+  async warmStart(assetIds: string[]): Promise<number> {
+    let loaded = 0;
+
+    for (const assetId of assetIds) {
+      for (const timeframe of TIMEFRAMES) {
+        const candles = await loadCandleHistory(assetId, timeframe, MAX_HISTORY_BARS);
+        if (candles.length === 0) continue;
+
+        const history = this.getHistory(assetId, timeframe);
+        history.candles = candles;
+        history.currentCandle = null;
+        history.lastCandleTime = candles[candles.length - 1].timestamp;
+        loaded += candles.length;
+      }
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Fold a tick into the open candle of every timeframe, then publish the candles it closed.
+   * Feeds that only send the last price leave `high` and `low` to default to it. `volume` is what
+   * traded since the previous tick. Returns the closed candles, shortest timeframe first.
+   */
+  update(assetId: string, price: number, timestamp: number, high: number = price, low: number = price, volume: number = 0): CandleCloseEvent[] {
+    const closed: CandleCloseEvent[] = [];
+    for (const timeframe of TIMEFRAMES) {
+      const candle = this.updateCandle(assetId, timeframe, price, high, low, volume, timestamp);
+      if (candle) {
+        closed.push({ assetId, timeframe, candle });
+      }
+    }
+
+    for (const event of closed) {
+      this.emit(`close:${event.timeframe}`, event);
+    }
+    return closed;
+  }
+
+  /**
+   * Call `listener` for every candle of a timeframe that closes. Errors thrown by the listener are
+   * logged, so one listener can't keep the others from seeing a close. Returns an unsubscribe function.
+   */
+  onCandleClose(timeframe: Timeframe, listener: CandleCloseListener): () => void {
+    const handler = async (event: CandleCloseEvent) => {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.error(`[Candle Aggregator] Error handling ${event.assetId} ${event.timeframe} candle close:`, error);
+      }
+    };
+
+    this.on(`close:${timeframe}`, handler);
+    return () => {
+      this.off(`close:${timeframe}`, handler);
+    };
+  }
+
+  /**
+   * Call `listener` for the candle closes of the timeframes enabled strategies run on, following
+   * strategy changes, so timeframes no strategy uses cost nothing beyond their aggregation.
+   * Returns an unsubscribe function.
+   */
+  onStrategyCandleClose(listener: CandleCloseListener): () => void {
+    const subscriptions = new Map<Timeframe, () => void>();
+
+    const sync = (strategies: Strategy[]) => {
+      const timeframes = new Set(strategies.filter((s) => s.enabled).map((s) => s.timeframe).filter(isTimeframe));
+
+      subscriptions.forEach((unsubscribe, timeframe) => {
+        if (!timeframes.has(timeframe)) {
+          unsubscribe();
+          subscriptions.delete(timeframe);
+        }
+      });
+      timeframes.forEach((timeframe) => {
+        if (!subscriptions.has(timeframe)) {
+          subscriptions.set(timeframe, this.onCandleClose(timeframe, listener));
+        }
+      });
+    };
+
+    strategyRegistry.on("change", sync);
+    strategyRegistry.getStrategies().then(sync).catch((error) => {
+      console.error("[Candle Aggregator] Error loading strategy timeframes:", error);
+    });
+
+    return () => {
+      strategyRegistry.off("change", sync);
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions.clear();
+    };
+  }
+
+  /**
+   * Closed candles of an asset and timeframe, oldest first
+   */
+  getCandles(assetId: string, timeframe: Timeframe): StoredCandle[] {
+    return this.histories.get(`${assetId}-${timeframe}`)?.candles ?? [];
+  }
+
+  /**
+   * Latest EMAs of the closed candles, kept up to date by the streaming engine
+   * Returns { ema50, ema200 } or nulls if insufficient data
+   */
+  getEMAs(assetId: string, timeframe: Timeframe): { ema50: number | null; ema200: number | null } {
+    return {
+      ema50: streamingIndicators.getEMA(assetId, timeframe, 50),
+      ema200: streamingIndicators.getEMA(assetId, timeframe, 200),
+    };
+  }
+
+  /**
+   * Market data for a closed candle as the signal detector takes it: the candle with its previous bars
+   * and the latest candle of every timeframe. EMAs are NaN until enough candles have closed; the
+   * detector decides per strategy whether it can be checked without them.
+   */
+  getMarketData({ assetId, timeframe, candle }: CandleCloseEvent): MarketData {
+    const timeframes = this.getTimeframeFrames(assetId);
+    return {
+      assetId,
+      timeframe,
+      timestamp: candle.timestamp,
+      price: candle.close,
+      high: candle.high,
+      low: candle.low,
+      open: candle.open,
+      volume: candle.volume,
+      ema50: candle.ema50 ?? NaN,
+      ema200: candle.ema200 ?? NaN,
+      history: timeframes[timeframe]?.history ?? [],
+      timeframes,
+    };
+  }
+
+  /**
+   * Build the latest closed candle of every timeframe, with its previous bars (most recent first),
+   * for historical and multi-timeframe formula references. EMAs not warmed up yet are NaN.
+   */
+  getTimeframeFrames(assetId: string): Record<string, MarketDataFrame> {
+    const frames: Record<string, MarketDataFrame> = {};
+
+    for (const timeframe of TIMEFRAMES) {
+      const candles = this.getCandles(assetId, timeframe);
+
+      const bars: MarketDataBar[] = [];
+      for (let i = candles.length - 1; i >= 0; i--) {
+        bars.push({
+          price: candles[i].close,
+          high: candles[i].high,
+          low: candles[i].low,
+          open: candles[i].open,
+          volume: candles[i].volume,
+          ema50: candles[i].ema50 ?? NaN,
+          ema200: candles[i].ema200 ?? NaN,
+        });
+      }
+
+      const [latest, ...history] = bars;
+      if (latest) {
+        frames[timeframe] = { ...latest, history };
+      }
+    }
+
+    return frames;
+  }
+
+  /**
+   * Initialize or get candle history for an asset/timeframe combination
+   */
+  private getHistory(assetId: string, timeframe: Timeframe): CandleHistory {
+    const key = `${assetId}-${timeframe}`;
+    if (!this.histories.has(key)) {
+      this.histories.set(key, {
+        candles: [],
+        currentCandle: null,
+        lastCandleTime: 0,
+      });
+    }
+    return this.histories.get(key)!;
+  }
+
+  /**
+   * Update the open candle of one timeframe with a tick. Returns the candle it closed, if any.
+   */
+  private updateCandle(
+    assetId: string,
+    timeframe: Timeframe,
+    price: number,
+    high: number,
+    low: number,
+    volume: number,
+    timestamp: number
+  ): StoredCandle | null {
+    const intervalMs = TIMEFRAME_MS[timeframe];
+    const history = this.getHistory(assetId, timeframe);
+    const periodStart = Math.floor(timestamp / intervalMs) * intervalMs;
+
+    // After a warm start, ignore ticks for a period that is already stored
+    if (!history.currentCandle && periodStart <= history.lastCandleTime) {
+      return null;
+    }
+
+    let closedCandle: StoredCandle | null = null;
+
+    // Check if we're in a new candle period
+    if (history.currentCandle && periodStart > history.lastCandleTime) {
+      closedCandle = { ...history.currentCandle };
+
+      const previous = history.candles[history.candles.length - 1];
+      const missing = previous ? countMissingCandles(previous.timestamp, closedCandle.timestamp, intervalMs) : 0;
+      if (missing > 0) {
+        console.log(`[Candle Aggregator] ${assetId} ${timeframe}: ${missing} candle periods missing since ${new Date(previous.timestamp).toISOString()}`);
+      }
+      // Market closures are bridged; after a longer outage the series restarts, see MAX_CANDLE_GAP_MS
+      if (previous && closedCandle.timestamp - previous.timestamp > MAX_CANDLE_GAP_MS) {
+        console.log(`[Candle Aggregator] ${assetId} ${timeframe}: gap too long to carry the EMAs across, warming them up again`);
+        streamingIndicators.reset(assetId, timeframe);
+        history.candles = [];
+      }
+
+      const { ema50, ema200 } = streamingIndicators.updateEMA50And200(assetId, timeframe, closedCandle.close);
+      closedCandle.ema50 = ema50 ?? NaN;
+      closedCandle.ema200 = ema200 ?? NaN;
+
+      history.candles.push(closedCandle);
+      persistCandle(assetId, timeframe, closedCandle).catch((error) => {
+        console.error("[Candle Aggregator] Error saving candle:", error);
+      });
+
+      // Keep only the bars historical formula references can reach
+      if (history.candles.length > MAX_HISTORY_BARS) {
+        history.candles.shift();
+      }
+
+      history.currentCandle = null;
+    }
+
+    // Create or update current candle
+    if (!history.currentCandle) {
+      history.currentCandle = {
+        open: price,
+        high,
+        low,
+        close: price,
+        volume,
+        timestamp: periodStart,
+      };
+      history.lastCandleTime = periodStart;
+    } else {
+      history.currentCandle.high = Math.max(history.currentCandle.high, high);
+      history.currentCandle.low = Math.min(history.currentCandle.low, low);
+      history.currentCandle.close = price; // Latest price is the close
+      history.currentCandle.volume = (history.currentCandle.volume ?? 0) + volume;
+    }
+
+    return closedCandle;
+  }
+}
+
+export const candleAggregator = new CandleAggregator();
@@ -0,0 +1,113 @@
+import { storage } from "../storage";
+import { streamingIndicators } from "./streaming-indicators";
+
+/**
+ * Candle persistence for the live signal generators.
+ *
+ * Closed candles are written to candle_data so that after a restart the generators
+ * can reload them, rebuild their EMAs and produce signals as soon as the feed
+ * reconnects, instead of waiting for 200 fresh candles.
+ */
+
+/**
+ * Closed candle as kept in a generator's history
+ */
+export interface StoredCandle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number; // traded during the candle
+  timestamp: number; // Start of candle period
+  ema50?: number;
+  ema200?: number;
+}
+
+/**
+ * Longest gap between candles that the EMAs are carried across. Long enough to bridge a weekend
+ * plus a holiday: market closures leave gaps every night, and the EMAs continue over them as
+ * charting platforms do. A longer gap (e.g. the feed was down for days) leaves too much of the
+ * series missing for the EMAs to be trusted, so the series restarts from the candle after it and
+ * its EMAs warm up again. Stored history whose last candle is older than this is not reused at all.
+ */
+export const MAX_CANDLE_GAP_MS = 4 * 24 * 60 * 60 * 1000;
+
+/**
+ * Save a closed candle, along with the EMAs it closed with
+ */
+export async function persistCandle(assetId: string, timeframe: string, candle: StoredCandle): Promise<void> {
+  await storage.createCandleData({
+    assetId,
+    timeframe,
+    timestamp: new Date(candle.timestamp),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume ?? 0,
+    ema50: candle.ema50 !== undefined && !isNaN(candle.ema50) ? candle.ema50 : null,
+    ema200: candle.ema200 !== undefined && !isNaN(candle.ema200) ? candle.ema200 : null,
+  });
+}
+
+/**
+ * Reload the stored candles of a series and replay them through the streaming engine,
+ * so its EMAs continue from where the previous process left off.
+ * Returns the most recent `maxCandles` candles (oldest first) since the last gap longer than
+ * MAX_CANDLE_GAP_MS, or an empty list when nothing is stored or the last stored candle is older than that.
+ */
+export async function loadCandleHistory(
+  assetId: string,
+  timeframe: string,
+  maxCandles: number,
+  now: number = Date.now()
+): Promise<StoredCandle[]> {
+  const rows = await storage.getCandleData(assetId, timeframe);
+  streamingIndicators.reset(assetId, timeframe);
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const lastStored = rows[rows.length - 1].timestamp.getTime();
+  if (now - lastStored > MAX_CANDLE_GAP_MS) {
+    console.log(`[Candle Store] ${assetId} ${timeframe}: last stored candle is from ${new Date(lastStored).toISOString()}, too old to warm-start from`);
+    return [];
+  }
+
+  const candles: StoredCandle[] = [];
+  let lastTimestamp = -Infinity;
+  for (const row of rows) {
+    const timestamp = row.timestamp.getTime();
+    // The same period stored twice (e.g. by two overlapping processes) would be counted twice by the EMAs
+    if (timestamp <= lastTimestamp) {
+      continue;
+    }
+    if (timestamp - lastTimestamp > MAX_CANDLE_GAP_MS && candles.length > 0) {
+      streamingIndicators.reset(assetId, timeframe);
+      candles.length = 0;
+    }
+    lastTimestamp = timestamp;
+
+    const { ema50, ema200 } = streamingIndicators.updateEMA50And200(assetId, timeframe, row.close);
+    candles.push({
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+      timestamp,
+      ema50: ema50 ?? NaN,
+      ema200: ema200 ?? NaN,
+    });
+  }
+
+  return candles.slice(-maxCandles);
+}
+
+/**
+ * Number of candle periods missing between two candle start times
+ */
+export function countMissingCandles(previousStart: number, nextStart: number, intervalMs: number): number {
+  return Math.max(0, Math.round((nextStart - previousStart) / intervalMs) - 1);
+}
@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CANDLESTICK_PATTERNS, type CandlestickPattern } from "@shared/schema";
+import { detectPattern, isCandlestickPattern, PATTERN_DEFINITIONS, type PatternCandle } from "./candlestick-patterns";
+
+const candle = (open: number, high: number, low: number, close: number): PatternCandle => ({ open, high, low, close });
+
+interface PatternFixture {
+  match: PatternCandle[]; // most recent first
+  nearMiss: PatternCandle[]; // almost the pattern, but not quite
+  // A threshold the match fails with, or a near miss passes with
+  override: { candles: PatternCandle[]; threshold: number; expected: boolean };
+}
+
+// Hand-crafted candles, most recent first
+const FIXTURES: Record<CandlestickPattern, PatternFixture> = {
+  bullish_engulfing: {
+    // Bearish 102 -> 100, then bullish 99.5 -> 103 covering it
+    match: [candle(99.5, 103.5, 99, 103), candle(102, 102.5, 99.8, 100)],
+    // Closes at 101.5, short of the previous open
+    nearMiss: [candle(99.5, 102, 99, 101.5), candle(102, 102.5, 99.8, 100)],
+    // A 3.5 body over a 2 body is 1.75x, not 2x
+    override: { candles: [candle(99.5, 103.5, 99, 103), candle(102, 102.5, 99.8, 100)], threshold: 2, expected: false },
+  },
+  bearish_engulfing: {
+    match: [candle(102.5, 103, 98.5, 99), candle(100, 102.2, 99.8, 102)],
+    // Opens at 101.8, below the previous close
+    nearMiss: [candle(101.8, 102, 98.5, 99), candle(100, 102.2, 99.8, 102)],
+    override: { candles: [candle(102.5, 103, 98.5, 99), candle(100, 102.2, 99.8, 102)], threshold: 2, expected: false },
+  },
+  hammer: {
+    // Body 1, lower shadow 3, upper shadow 0.5
+    match: [candle(100, 101.5, 97, 101)],
+    // Lower shadow 1.5: only 1.5 bodies
+    nearMiss: [candle(100, 101.5, 98.5, 101)],
+    override: { candles: [candle(100, 101.5, 98.5, 101)], threshold: 1.5, expected: true },
+  },
+  shooting_star: {
+    // Body 1, upper shadow 3, lower shadow 0.5
+    match: [candle(101, 104, 99.5, 100)],
+    // Lower shadow 1.5 is longer than the body
+    nearMiss: [candle(101, 104, 98.5, 100)],
+    override: { candles: [candle(101, 104, 99.5, 100)], threshold: 4, expected: false },
+  },
+  doji: {
+    // Body 0.2 of a range of 4
+    match: [candle(100, 102, 98, 100.2)],
+    // Body 0.6 of a range of 4 is 15%
+    nearMiss: [candle(100, 102, 98, 100.6)],
+    override: { candles: [candle(100, 102, 98, 100.6)], threshold: 0.2, expected: true },
+  },
+  inside_bar: {
+    // Range 101.5..99 inside 103..97
+    match: [candle(100, 101.5, 99, 101), candle(98, 103, 97, 102)],
+    // High 103.1 pokes above the previous high
+    nearMiss: [candle(100, 103.1, 99, 101), candle(98, 103, 97, 102)],
+    // Range 2.5 is 42% of 6
+    override: { candles: [candle(100, 101.5, 99, 101), candle(98, 103, 97, 102)], threshold: 0.4, expected: false },
+  },
+  morning_star: {
+    // Bearish 110 -> 100, star body 0.5 below the midpoint 105, bullish close 107 above it
+    match: [candle(101, 107.5, 100.5, 107), candle(99.5, 100.5, 98.5, 100), candle(110, 110.5, 99.5, 100)],
+    // Third candle closes at 104.5, below the first body's midpoint
+    nearMiss: [candle(101, 105, 100.5, 104.5), candle(99.5, 100.5, 98.5, 100), candle(110, 110.5, 99.5, 100)],
+    // Star body 2 is 20% of the first body
+    override: { candles: [candle(101, 107.5, 100.5, 107), candle(98, 100.5, 97.5, 100), candle(110, 110.5, 99.5, 100)], threshold: 0.1, expected: false },
+  },
+  evening_star: {
+    match: [candle(109, 109.5, 102.5, 103), candle(110.5, 111.5, 109.5, 110), candle(100, 110.5, 99.5, 110)],
+    // The star's body dips to 104.5, below the first body's midpoint
+    nearMiss: [candle(109, 109.5, 102.5, 103), candle(104.5, 111.5, 104, 105), candle(100, 110.5, 99.5, 110)],
+    override: { candles: [candle(109, 109.5, 102.5, 103), candle(112, 112.5, 109.5, 110), candle(100, 110.5, 99.5, 110)], threshold: 0.1, expected: false },
+  },
+};
+
+test("every pattern has fixtures", () => {
+  assert.deepEqual(Object.keys(FIXTURES).sort(), [...CANDLESTICK_PATTERNS].sort());
+  for (const pattern of CANDLESTICK_PATTERNS) {
+    assert.ok(isCandlestickPattern(pattern));
+  }
+  assert.equal(isCandlestickPattern("hanging_man"), false);
+});
+
+for (const pattern of CANDLESTICK_PATTERNS) {
+  const fixture = FIXTURES[pattern];
+  const definition = PATTERN_DEFINITIONS[pattern];
+
+  test(`${pattern} matches its fixture`, () => {
+    assert.equal(detectPattern(pattern, fixture.match), true);
+  });
+
+  test(`${pattern} rejects a near miss`, () => {
+    assert.equal(detectPattern(pattern, fixture.nearMiss), false);
+  });
+
+  test(`${pattern} applies an overridden threshold`, () => {
+    const { candles, threshold, expected } = fixture.override;
+    assert.ok(threshold >= definition.min && threshold <= definition.max, "override is within the allowed range");
+    assert.equal(detectPattern(pattern, candles), !expected, "default threshold gives the opposite result");
+    assert.equal(detectPattern(pattern, candles, threshold), expected);
+  });
+
+  test(`${pattern} only reads the candles it spans`, () => {
+    const older = candle(50, 200, 10, 60);
+    assert.equal(detectPattern(pattern, [...fixture.match, older]), true);
+  });
+
+  test(`${pattern} throws without enough history`, () => {
+    assert.throws(
+      () => detectPattern(pattern, fixture.match.slice(0, definition.bars - 1)),
+      new RegExp(`Insufficient history for ${pattern}: needs ${definition.bars} candles`)
+    );
+  });
+}
@@ -0,0 +1,170 @@
+import type { CandlestickPattern } from "@shared/schema";
+
+/**
+ * Candlestick pattern recognition over closed candles.
+ *
+ * Patterns look at the shape of the last one to three candles only, not at the trend before them,
+ * so e.g. a hammer is any candle with a long lower shadow; formulas combine them with a trend
+ * condition such as `close < ema50 && hammer()`. Each pattern has one sensitivity threshold, which
+ * formulas can override with an argument: `doji(0.05)` is a stricter doji than `doji()`.
+ */
+
+export interface PatternCandle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface PatternDefinition {
+  bars: number; // candles the pattern spans, current one included
+  threshold: number; // default sensitivity
+  min: number; // allowed threshold range, inclusive
+  max: number;
+  thresholdDescription: string;
+  // `candles` most recent first, `bars` of them
+  detect(candles: PatternCandle[], threshold: number): boolean;
+}
+
+function body(candle: PatternCandle): number {
+  return Math.abs(candle.close - candle.open);
+}
+
+function range(candle: PatternCandle): number {
+  return candle.high - candle.low;
+}
+
+function upperShadow(candle: PatternCandle): number {
+  return candle.high - Math.max(candle.open, candle.close);
+}
+
+function lowerShadow(candle: PatternCandle): number {
+  return Math.min(candle.open, candle.close) - candle.low;
+}
+
+const isBullish = (candle: PatternCandle) => candle.close > candle.open;
+const isBearish = (candle: PatternCandle) => candle.close < candle.open;
+const bodyMidpoint = (candle: PatternCandle) => (candle.open + candle.close) / 2;
+
+export const PATTERN_DEFINITIONS: Record<CandlestickPattern, PatternDefinition> = {
+  // A bullish body that covers the previous bearish body, and is at least `threshold` times its size
+  bullish_engulfing: {
+    bars: 2,
+    threshold: 1,
+    min: 1,
+    max: 10,
+    thresholdDescription: "minimum body size relative to the previous body",
+    detect: ([current, previous], threshold) =>
+      isBearish(previous) &&
+      isBullish(current) &&
+      current.open <= previous.close &&
+      current.close >= previous.open &&
+      body(current) >= threshold * body(previous),
+  },
+  bearish_engulfing: {
+    bars: 2,
+    threshold: 1,
+    min: 1,
+    max: 10,
+    thresholdDescription: "minimum body size relative to the previous body",
+    detect: ([current, previous], threshold) =>
+      isBullish(previous) &&
+      isBearish(current) &&
+      current.open >= previous.close &&
+      current.close <= previous.open &&
+      body(current) >= threshold * body(previous),
+  },
+  // A lower shadow at least `threshold` bodies long, and an upper shadow no longer than the body
+  hammer: {
+    bars: 1,
+    threshold: 2,
+    min: 0.5,
+    max: 10,
+    thresholdDescription: "minimum lower shadow length in bodies",
+    detect: ([candle], threshold) =>
+      range(candle) > 0 &&
+      lowerShadow(candle) >= threshold * body(candle) &&
+      upperShadow(candle) <= body(candle),
+  },
+  shooting_star: {
+    bars: 1,
+    threshold: 2,
+    min: 0.5,
+    max: 10,
+    thresholdDescription: "minimum upper shadow length in bodies",
+    detect: ([candle], threshold) =>
+      range(candle) > 0 &&
+      upperShadow(candle) >= threshold * body(candle) &&
+      lowerShadow(candle) <= body(candle),
+  },
+  // A body no larger than `threshold` of the candle's range
+  doji: {
+    bars: 1,
+    threshold: 0.1,
+    min: 0.01,
+    max: 0.5,
+    thresholdDescription: "maximum body size as a fraction of the range",
+    detect: ([candle], threshold) => range(candle) > 0 && body(candle) <= threshold * range(candle),
+  },
+  // A candle within the previous one's high and low, with at most `threshold` of its range
+  inside_bar: {
+    bars: 2,
+    threshold: 1,
+    min: 0.1,
+    max: 1,
+    thresholdDescription: "maximum range as a fraction of the previous range",
+    detect: ([current, previous], threshold) =>
+      range(previous) > 0 &&
+      current.high <= previous.high &&
+      current.low >= previous.low &&
+      range(current) <= threshold * range(previous),
+  },
+  // A bearish candle, a small body below its midpoint (at most `threshold` of the first body),
+  // then a bullish candle closing above the first body's midpoint
+  morning_star: {
+    bars: 3,
+    threshold: 0.3,
+    min: 0.05,
+    max: 1,
+    thresholdDescription: "maximum star body size relative to the first body",
+    detect: ([third, star, first], threshold) =>
+      isBearish(first) &&
+      body(star) <= threshold * body(first) &&
+      Math.max(star.open, star.close) <= bodyMidpoint(first) &&
+      isBullish(third) &&
+      third.close > bodyMidpoint(first),
+  },
+  evening_star: {
+    bars: 3,
+    threshold: 0.3,
+    min: 0.05,
+    max: 1,
+    thresholdDescription: "maximum star body size relative to the first body",
+    detect: ([third, star, first], threshold) =>
+      isBullish(first) &&
+      body(star) <= threshold * body(first) &&
+      Math.min(star.open, star.close) >= bodyMidpoint(first) &&
+      isBearish(third) &&
+      third.close < bodyMidpoint(first),
+  },
+};
+
+export function isCandlestickPattern(name: string): name is CandlestickPattern {
+  return Object.prototype.hasOwnProperty.call(PATTERN_DEFINITIONS, name);
+}
+
+/**
+ * Whether the latest of `candles` (most recent first) completes the pattern. Throws if there are
+ * fewer candles than the pattern spans.
+ */
+export function detectPattern(
+  pattern: CandlestickPattern,
+  candles: PatternCandle[],
+  threshold: number = PATTERN_DEFINITIONS[pattern].threshold
+): boolean {
+  const definition = PATTERN_DEFINITIONS[pattern];
+  if (candles.length < definition.bars) {
+    throw new Error(`Insufficient history for ${pattern}: needs ${definition.bars} candles`);
+  }
+  return definition.detect(candles.slice(0, definition.bars), threshold);
+}
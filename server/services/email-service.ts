@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import type { IndicatorSnapshot } from '@shared/schema';
 
 export interface SmtpConfig {
   smtpHost: string;
@@ -22,7 +23,7 @@ export class EmailService {
     });
   }
 
-  async sendSignalAlert(emails: string[], assetSymbol: string, strategyName: string, signalType: string, price: number, ema50: number, ema200: number, config?: SmtpConfig): Promise<boolean> {
+  async sendSignalAlert(emails: string[], assetSymbol: string, strategyName: string, signalType: string, price: number, indicators: IndicatorSnapshot, config?: SmtpConfig): Promise<boolean> {
     if (!emails || emails.length === 0) {
       console.log('No email recipients configured');
       return false;
@@ -71,14 +72,11 @@ export class EmailService {
                   <span class="data-label">Current Price:</span>
                   <span class="data-value">$${price.toFixed(2)}</span>
                 </div>
+                ${Object.entries(indicators).map(([label, value]) => `
                 <div class="data-row">
-                  <span class="data-label">EMA 50:</span>
-                  <span class="data-value">$${ema50.toFixed(2)}</span>
-                </div>
-                <div class="data-row">
-                  <span class="data-label">EMA 200:</span>
-                  <span class="data-value">$${ema200.toFixed(2)}</span>
-                </div>
+                  <span class="data-label">${label}:</span>
+                  <span class="data-value">${value.toFixed(2)}</span>
+                </div>`).join('')}
               </div>
               
               <p style="color: #666; margin: 20px 0;">
@@ -102,8 +100,7 @@ Strategy: ${strategyName}
 Signal Type: ${signalType}
 
 Current Price: $${price.toFixed(2)}
-EMA 50: $${ema50.toFixed(2)}
-EMA 200: $${ema200.toFixed(2)}
+${Object.entries(indicators).map(([label, value]) => `${label}: ${value.toFixed(2)}`).join('\n')}
 
 Visit your SignalPro dashboard for more details.
       `;
@@ -1,6 +1,6 @@
 import { WebSocket } from "ws";
 import { EventEmitter } from "events";
-import { emaCalculator } from "./ema-calculator";
+import { streamingIndicators } from "./streaming-indicators";
 
 /**
  * Finnhub Forex WebSocket Service
@@ -70,7 +70,6 @@ export class FinnhubForexWebSocket extends EventEmitter {
   private apiKey: string = "";
   private subscriptions: Set<string> = new Set();
   private reconnectAttempts: number = 0;
-  private priceHistory: Map<string, number[]> = new Map();
   private latestTicks: Map<string, ForexTickData> = new Map();
   private isConnected: boolean = false;
   private pingInterval: NodeJS.Timeout | null = null;
@@ -229,32 +228,9 @@ export class FinnhubForexWebSocket extends EventEmitter {
           // Store latest tick
           this.latestTicks.set(trade.s, tickData);
 
-          // Update price history for EMA calculation
-          const historyKey = trade.s;
-          if (!this.priceHistory.has(historyKey)) {
-            this.priceHistory.set(historyKey, []);
-          }
-          const history = this.priceHistory.get(historyKey)!;
-          history.push(trade.p);
-          if (history.length > 250) {
-            history.shift();
-          }
-
-          // Calculate EMAs if we have enough data
-          let ema50 = null;
-          let ema200 = null;
-
-          if (history.length >= 50) {
-            const ema50Values = emaCalculator.calculateEMA(history, 50);
-            ema50 = ema50Values[ema50Values.length - 1];
-            if (isNaN(ema50)) ema50 = null;
-          }
-
-          if (history.length >= 200) {
-            const ema200Values = emaCalculator.calculateEMA(history, 200);
-            ema200 = ema200Values[ema200Values.length - 1];
-            if (isNaN(ema200)) ema200 = null;
-          }
+          // Fold the price into the running tick EMAs (constant work per tick)
+          const seriesKey = `finnhub_forex:${trade.s}`;
+          const { ema50, ema200 } = streamingIndicators.updateEMA50And200(seriesKey, "tick", trade.p);
 
           // Emit tick with EMA data
           this.emit("tick", {
@@ -269,7 +245,7 @@ export class FinnhubForexWebSocket extends EventEmitter {
             timestamp: new Date(trade.t),
             ema50,
             ema200,
-            historyLength: history.length,
+            historyLength: streamingIndicators.getLength(seriesKey, "tick"),
           });
         }
       } else if (message.type === "ping") {
@@ -1,29 +1,10 @@
 import { storage } from "../storage";
-import { signalDetector, type MarketData } from "./signal-detector";
+import { signalDetector } from "./signal-detector";
 import { finnhubForexWebSocket, FOREX_SYMBOL_MAP, FINNHUB_FOREX_PAIRS } from "./finnhub-forex-websocket";
-import { emaCalculator } from "./ema-calculator";
+import { candleAggregator, type CandleCloseEvent } from "./candle-aggregator";
+import { outcomeTracker } from "./outcome-tracker";
 import type { SignalBroadcastCallback } from "./market-data-generator";
 
-/**
- * Candle data structure for aggregating ticks
- */
-interface Candle {
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  timestamp: number;
-}
-
-/**
- * Candle history for EMA calculation per asset per timeframe
- */
-interface CandleHistory {
-  candles: Candle[];
-  currentCandle: Candle | null;
-  lastCandleTime: number;
-}
-
 /**
  * Forex Signal Generator using Finnhub WebSocket
  * Generates signals for forex pairs with proper candle aggregation and EMA calculation
@@ -33,15 +14,6 @@ export class ForexSignalGenerator {
   private forexAssetMap: Map<string, { symbol: string; assetId: string; name: string }> = new Map();
   private isInitialized = false;
 
-  // Candle history for proper EMA calculation: key = "assetId-timeframe"
-  private candleHistories: Map<string, CandleHistory> = new Map();
-
-  // Timeframe intervals in milliseconds
-  private readonly TIMEFRAMES = {
-    "5m": 5 * 60 * 1000,
-    "15m": 15 * 60 * 1000,
-  };
-
   setBroadcastCallback(callback: SignalBroadcastCallback) {
     this.broadcastCallback = callback;
   }
@@ -51,6 +23,12 @@ export class ForexSignalGenerator {
 
     console.log("[Forex Signals] Initializing...");
 
+    await this.warmStart();
+    await outcomeTracker.initialize();
+
+    // Check strategies on every candle close of a timeframe they run on
+    candleAggregator.onStrategyCandleClose((event) => this.processCandleClose(event));
+
     // Listen for WebSocket ticks
     finnhubForexWebSocket.on("tick", async (tickData: any) => {
       await this.processTickData(tickData);
@@ -157,87 +135,18 @@ export class ForexSignalGenerator {
   }
 
   /**
-   * Get the start timestamp for a candle period
+   * Reload persisted candles so EMAs are ready as soon as the feed reconnects
    */
-  private getCandlePeriodStart(timestamp: number, intervalMs: number): number {
-    return Math.floor(timestamp / intervalMs) * intervalMs;
-  }
-
-  /**
-   * Initialize or get candle history for an asset/timeframe combination
-   */
-  private getCandleHistory(assetId: string, timeframe: string): CandleHistory {
-    const key = `${assetId}-${timeframe}`;
-    if (!this.candleHistories.has(key)) {
-      this.candleHistories.set(key, {
-        candles: [],
-        currentCandle: null,
-        lastCandleTime: 0,
-      });
-    }
-    return this.candleHistories.get(key)!;
-  }
-
-  /**
-   * Update candle with new tick data
-   */
-  private updateCandle(
-    assetId: string,
-    timeframe: string,
-    price: number,
-    timestamp: number
-  ): { candleClosed: boolean; closedCandle: Candle | null } {
-    const intervalMs = this.TIMEFRAMES[timeframe as keyof typeof this.TIMEFRAMES];
-    const history = this.getCandleHistory(assetId, timeframe);
-    const periodStart = this.getCandlePeriodStart(timestamp, intervalMs);
-
-    let candleClosed = false;
-    let closedCandle: Candle | null = null;
-
-    // Check if we're in a new candle period
-    if (history.currentCandle && periodStart > history.lastCandleTime) {
-      closedCandle = { ...history.currentCandle };
-      history.candles.push(closedCandle);
-
-      if (history.candles.length > 250) {
-        history.candles.shift();
-      }
-
-      candleClosed = true;
-      history.currentCandle = null;
-    }
-
-    // Create or update current candle
-    if (!history.currentCandle) {
-      history.currentCandle = {
-        open: price,
-        high: price,
-        low: price,
-        close: price,
-        timestamp: periodStart,
-      };
-      history.lastCandleTime = periodStart;
-    } else {
-      history.currentCandle.high = Math.max(history.currentCandle.high, price);
-      history.currentCandle.low = Math.min(history.currentCandle.low, price);
-      history.currentCandle.close = price;
-    }
-
-    return { candleClosed, closedCandle };
-  }
-
-  /**
-   * Calculate EMA from candle history
-   */
-  private calculateEMAFromCandles(assetId: string, timeframe: string): { ema50: number | null; ema200: number | null } {
-    const history = this.getCandleHistory(assetId, timeframe);
+  private async warmStart() {
+    try {
+      const assets = await storage.getAssets();
+      const enabledAssets = assets.filter(a => a.enabled && a.type === "forex");
+      const loaded = await candleAggregator.warmStart(enabledAssets.map(a => a.id));
 
-    if (history.candles.length < 50) {
-      return { ema50: null, ema200: null };
+      console.log(`[Forex Signals] Warm-started ${loaded} stored candles for ${enabledAssets.length} assets`);
+    } catch (error) {
+      console.error("[Forex Signals] Error loading stored candles:", error);
     }
-
-    const closePrices = history.candles.map(c => c.close);
-    return emaCalculator.calculateEMA50And200(closePrices);
   }
 
   /**
@@ -261,63 +170,50 @@ export class ForexSignalGenerator {
         timestamp,
       });
 
-      // Process for each timeframe
-      for (const timeframe of ["5m", "15m"]) {
-        const { candleClosed, closedCandle } = this.updateCandle(
-          assetInfo.assetId,
-          timeframe,
-          price,
-          timestamp
-        );
-
-        if (candleClosed && closedCandle) {
-          const { ema50, ema200 } = this.calculateEMAFromCandles(assetInfo.assetId, timeframe);
-
-          if (ema50 === null || ema200 === null) {
-            const candleCount = this.getCandleHistory(assetInfo.assetId, timeframe).candles.length;
-            console.log(`[Forex Signals] ${assetInfo.symbol} ${timeframe}: Need more data (have ${candleCount} candles)`);
-            continue;
-          }
-
-          console.log(`[Forex Signals] ${assetInfo.symbol} ${timeframe} candle closed: ${closedCandle.close.toFixed(5)} (EMA50: ${ema50.toFixed(5)}, EMA200: ${ema200.toFixed(5)})`);
-
-          const marketData: MarketData = {
-            assetId: assetInfo.assetId,
-            timeframe,
-            price: closedCandle.close,
-            high: closedCandle.high,
-            low: closedCandle.low,
-            open: closedCandle.open,
-            ema50,
-            ema200,
-          };
-
-          const signals = await signalDetector.detectSignals(marketData);
-
-          for (const signal of signals) {
-            const createdSignal = await storage.createSignal(signal);
-            console.log(`[Forex Signals] 🚨 Signal: ${signal.type} for ${assetInfo.symbol} at ${closedCandle.close.toFixed(5)}`);
-
-            if (this.broadcastCallback) {
-              this.broadcastCallback(createdSignal);
-            }
-
-            // Send notifications
-            const asset = await storage.getAsset(assetInfo.assetId);
-            const strategy = await storage.getStrategy(signal.strategyId);
-            if (asset && strategy) {
-              const configs = await storage.getNotificationConfigs();
-              const { notificationService } = await import("./notification-service");
-              notificationService.sendToAllEnabled({ signal: createdSignal, asset, strategy }, configs);
-            }
-          }
-        }
-      }
+      // Signals are checked when a candle closes, see processCandleClose. Each trade reports its own size.
+      candleAggregator.update(assetInfo.assetId, price, timestamp, price, price, tickData.volume ?? 0);
     } catch (error) {
       console.error("[Forex Signals] Error processing tick:", error);
     }
   }
 
+  /**
+   * Check strategies against a closed candle of one of the forex pairs
+   */
+  private async processCandleClose(event: CandleCloseEvent): Promise<void> {
+    const { assetId, timeframe, candle: closedCandle } = event;
+    const assetInfo = Array.from(this.forexAssetMap.values()).find(a => a.assetId === assetId);
+    if (!assetInfo) {
+      return;
+    }
+
+    // Strategies that need EMAs still warming up are skipped by the detector, the others are checked
+    const { ema50, ema200 } = candleAggregator.getEMAs(assetId, timeframe);
+    const emas = ema50 !== null && ema200 !== null
+      ? `EMA50: ${ema50.toFixed(5)}, EMA200: ${ema200.toFixed(5)}`
+      : `EMAs warming up, ${candleAggregator.getCandles(assetId, timeframe).length} candles`;
+    console.log(`[Forex Signals] ${assetInfo.symbol} ${timeframe} candle closed: ${closedCandle.close.toFixed(5)} (${emas})`);
+
+    const signals = await signalDetector.detectSignals(candleAggregator.getMarketData(event));
+
+    for (const createdSignal of await signalDetector.saveSignals(signals)) {
+      console.log(`[Forex Signals] 🚨 Signal: ${createdSignal.type} for ${assetInfo.symbol} at ${closedCandle.close.toFixed(5)}`);
+
+      if (this.broadcastCallback) {
+        this.broadcastCallback(createdSignal);
+      }
+
+      // Send notifications
+      const asset = await storage.getAsset(assetId);
+      const strategy = await storage.getStrategy(createdSignal.strategyId);
+      if (asset && strategy) {
+        const configs = await storage.getNotificationConfigs();
+        const { notificationService } = await import("./notification-service");
+        notificationService.sendToAllEnabled({ signal: createdSignal, asset, strategy }, configs);
+      }
+    }
+  }
+
   /**
    * Get live prices for all subscribed forex pairs
    */
@@ -0,0 +1,131 @@
+import { DEFAULT_MOVING_AVERAGES, TIMEFRAME_MS, type CandleData, type MovingAverageSettings } from "@shared/schema";
+import { storage } from "../storage";
+import { movingAverageSeries, type MarketDataBar } from "./signal-detector";
+import {
+  formulaEvaluator,
+  MAX_HISTORY_BARS,
+  type FormulaBar,
+  type FormulaContext,
+  type FormulaTrace,
+} from "./formula-evaluator";
+
+export interface FormulaBarTrace extends FormulaTrace {
+  timestamp: Date;
+  price: number;
+}
+
+export interface FormulaBacktestResult {
+  formula: string;
+  assetId: string;
+  timeframe: string;
+  barsAvailable: number;
+  triggered: number;
+  bars: FormulaBarTrace[];
+}
+
+/**
+ * Stored candles (oldest first) with the bar values formulas read
+ */
+interface CandleSeries {
+  candles: CandleData[];
+  bars: FormulaBar[];
+}
+
+/**
+ * EMA 50 and 200 are the values each candle was stored with, which the streaming engine computed over
+ * the full candle history, so they match what the live detector read. Other moving averages are
+ * computed over the stored candles the way the detector computes them over its history.
+ */
+function toSeries(candles: CandleData[], movingAverages: MovingAverageSettings): CandleSeries {
+  const marketBars: MarketDataBar[] = candles.map(c => ({
+    price: c.close,
+    high: c.high,
+    low: c.low,
+    open: c.open,
+    volume: c.volume,
+    ema50: c.ema50 ?? NaN,
+    ema200: c.ema200 ?? NaN,
+  }));
+  const fastValues = movingAverageSeries(marketBars, movingAverages.maType, movingAverages.fastPeriod);
+  const slowValues = movingAverageSeries(marketBars, movingAverages.maType, movingAverages.slowPeriod);
+
+  const bars = marketBars.map((bar, i) => ({
+    ...bar,
+    close: bar.price,
+    fast_ma: fastValues[i],
+    slow_ma: slowValues[i],
+  }));
+
+  return { candles, bars };
+}
+
+/**
+ * Formula context for the bar at `index`, with the same history depth the live generators keep
+ */
+function buildContext(series: CandleSeries, index: number): FormulaContext {
+  const history: FormulaBar[] = [];
+  for (let i = index - 1; i >= 0 && history.length < MAX_HISTORY_BARS - 1; i--) {
+    history.push(series.bars[i]);
+  }
+  return { ...series.bars[index], history };
+}
+
+/**
+ * Replays a formula over stored candle_data and traces every bar.
+ * Candle timestamps are the start of the candle period, as in the live generators.
+ * `movingAverages` are the strategy settings that fast_ma and slow_ma read.
+ */
+export class FormulaBacktester {
+  async run(
+    formula: string,
+    assetId: string,
+    timeframe: string,
+    limit: number,
+    movingAverages: MovingAverageSettings = DEFAULT_MOVING_AVERAGES
+  ): Promise<FormulaBacktestResult> {
+    const base = toSeries(await storage.getCandleData(assetId, timeframe), movingAverages);
+
+    const otherTimeframes = new Map<string, { series: CandleSeries; next: number }>();
+    for (const tf of formulaEvaluator.getReferencedTimeframes(formula)) {
+      otherTimeframes.set(tf, { series: toSeries(await storage.getCandleData(assetId, tf), movingAverages), next: 0 });
+    }
+
+    const bars: FormulaBarTrace[] = [];
+    const start = Math.max(0, base.candles.length - limit);
+
+    for (let i = start; i < base.candles.length; i++) {
+      const candle = base.candles[i];
+      const closeTime = candle.timestamp.getTime() + TIMEFRAME_MS[timeframe];
+      const context = buildContext(base, i);
+
+      // Latest candle of each referenced timeframe that had closed when this bar closed
+      context.timeframes = {};
+      for (const [tf, state] of Array.from(otherTimeframes)) {
+        const { candles } = state.series;
+        while (state.next < candles.length && candles[state.next].timestamp.getTime() + TIMEFRAME_MS[tf] <= closeTime) {
+          state.next++;
+        }
+        if (state.next > 0) {
+          context.timeframes[tf] = buildContext(state.series, state.next - 1);
+        }
+      }
+
+      bars.push({
+        timestamp: candle.timestamp,
+        price: candle.close,
+        ...formulaEvaluator.trace(formula, context),
+      });
+    }
+
+    return {
+      formula,
+      assetId,
+      timeframe,
+      barsAvailable: base.candles.length,
+      triggered: bars.filter(bar => bar.result === true).length,
+      bars,
+    };
+  }
+}
+
+export const formulaBacktester = new FormulaBacktester();
@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FormulaEvaluator, MAX_CACHED_FORMULAS, type FormulaBar, type FormulaContext } from "./formula-evaluator";
+
+/**
+ * Context whose current bar is the last price of the series, with the others as its history
+ */
+function contextFromPrices(prices: number[]): FormulaContext {
+  const bars: FormulaBar[] = prices.map((price, i) => ({
+    price,
+    close: price,
+    open: i > 0 ? prices[i - 1] : price,
+    high: price + 1,
+    low: price - 1,
+    ema50: price - 2,
+    ema200: price - 5,
+  }));
+  const [current, ...history] = bars.reverse();
+  return { ...current, history };
+}
+
+const FORMULAS = [
+  "price > ema50 && ema50 > ema200",
+  "crosses_above(price, ema50) || close[1] < close[2]",
+  "abs(price - ema200) < ema200 * 0.05",
+  "rsi(close, 14) > 50 && ema(close, 10) > sma(close, 20)",
+  "(high - low) / price > 0.01 || min(open, close) > max(ema50, ema200)",
+];
+
+test("compiled closures give the same results as interpreting the syntax tree", () => {
+  const evaluator = new FormulaEvaluator();
+  for (let shift = 0; shift < 20; shift++) {
+    const prices = Array.from({ length: 40 }, (_, i) => 100 + 10 * Math.sin((i + shift) / 4));
+    const context = contextFromPrices(prices);
+    for (const formula of FORMULAS) {
+      assert.equal(evaluator.compile(formula).evaluate(context), evaluator.interpret(formula, context), formula);
+    }
+  }
+});
+
+test("compile reuses the cached closure for the same key and formula", () => {
+  const evaluator = new FormulaEvaluator();
+  const first = evaluator.compile("price > ema50", "strategy-1:1");
+  assert.equal(evaluator.compile("price > ema50", "strategy-1:1"), first);
+});
+
+test("compile rebuilds when the formula under a key changes", () => {
+  const evaluator = new FormulaEvaluator();
+  const first = evaluator.compile("price > ema50", "strategy-1:1");
+  const second = evaluator.compile("price < ema50", "strategy-1:1");
+  assert.notEqual(second, first);
+  assert.equal(second.formula, "price < ema50");
+});
+
+test("compile lists the variables a formula reads, including in macros and other timeframes", () => {
+  const evaluator = new FormulaEvaluator();
+  evaluator.setMacros([{ name: "above_slow", params: [], expression: "price > slow_ma" }]);
+  const compiled = evaluator.compile("above_slow() && rsi(close, 14) > 50 && ema50@15m > ema200@15m[1]");
+  assert.deepEqual([...compiled.variables].sort(), ["close", "ema200", "ema50", "price", "slow_ma"]);
+});
+
+test("the least recently used formula is evicted when the cache is full", () => {
+  const evaluator = new FormulaEvaluator();
+  const oldest = evaluator.compile("price > 1", "key-0");
+  const second = evaluator.compile("price > 2", "key-1");
+  for (let i = 2; i < MAX_CACHED_FORMULAS; i++) {
+    evaluator.compile(`price > ${i + 1}`, `key-${i}`);
+  }
+
+  // Reading key-0 makes key-1 the least recently used entry
+  assert.equal(evaluator.compile("price > 1", "key-0"), oldest);
+  evaluator.compile("price > 0", "key-new");
+
+  assert.equal(evaluator.compile("price > 1", "key-0"), oldest);
+  assert.notEqual(evaluator.compile("price > 2", "key-1"), second);
+});
+
+test("changing the macro library invalidates cached formulas", () => {
+  const evaluator = new FormulaEvaluator();
+  const context = contextFromPrices([100, 101, 102]);
+  evaluator.setMacros([{ name: "near_ema50", params: ["pct"], expression: "abs(price - ema50) < ema50 * pct" }]);
+  const before = evaluator.compile("near_ema50(0.01)", "strategy-1:1");
+  assert.equal(before.evaluate(context), false); // price 102 is 2 away from ema50 100
+
+  evaluator.setMacros([{ name: "near_ema50", params: ["pct"], expression: "abs(price - ema50) < ema50 * pct * 10" }]);
+  const after = evaluator.compile("near_ema50(0.01)", "strategy-1:1");
+  assert.notEqual(after, before);
+  assert.equal(after.evaluate(context), true);
+  assert.equal(evaluator.evaluate("near_ema50(0.01)", context), true);
+});
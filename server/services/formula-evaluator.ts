@@ -7,14 +7,30 @@
  * It implements a simple expression parser that only allows:
  * - Numeric literals
  * - Predefined variables (price, ema50, ema200, high, low, open, close, volume)
+ * - The strategy's own moving averages (fast_ma, slow_ma), with the type and periods it is configured with
+ * - Historical bar references (close[1], ema50[3]) reaching back N closed candles
  * - Comparison operators (>, <, >=, <=, ==, !=)
  * - Logical operators (&&, ||, !)
  * - Arithmetic operators (+, -, *, /)
  * - Parentheses for grouping
  * - Math functions (abs, min, max, round, floor, ceil)
+ * - Cross functions (crosses_above, crosses_below, crosses) over the previous and current bar
+ * - Indicator functions (ema, sma, rsi, atr, macd, bb_upper/bb_lower, supertrend) computed over the candle history
+ * - Candlestick patterns (bullish_engulfing(), hammer(2.5), morning_star(), ...) matched on the latest candles
+ * - Other timeframes (ema200@15m, close@1h[1], any of 1m to 1D) read from that timeframe's latest closed candle
+ * - Formula macros (near_ema200(0.01)), expanded inline when the formula is parsed
+ * - The older uppercase dialect (CLOSE >= EMA_50 AND EMA_50 > EMA_200), read as its canonical tokens
+ *
+ * Validation also type-checks the AST (numbers vs true/false conditions) and reports
+ * every problem with the character span it applies to.
  */
 
-export interface FormulaContext {
+import { TIMEFRAMES, type Timeframe } from "@shared/schema";
+import { emaCalculator } from "./ema-calculator";
+import { indicatorCalculator } from "./indicator-calculator";
+import { detectPattern, isCandlestickPattern, PATTERN_DEFINITIONS, type PatternCandle } from "./candlestick-patterns";
+
+export interface FormulaBar {
   price: number;
   ema50: number;
   ema200: number;
@@ -23,12 +39,60 @@ export interface FormulaContext {
   open: number;
   close?: number;
   volume?: number;
+  fast_ma?: number;
+  slow_ma?: number;
+}
+
+export interface FormulaContext extends FormulaBar {
+  // Previous closed bars, most recent first: history[0] is what `close[1]` reads
+  history?: FormulaBar[];
+  // Latest closed candle (with its own history) of each timeframe, read by `ema200@15m`
+  timeframes?: Record<string, FormulaContext>;
+}
+
+export interface FormulaIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  start: number; // character offset of the first offending character
+  end: number; // character offset just past the last offending character
+}
+
+export interface FormulaTraceValue {
+  expression: string; // formula text of the sub-expression
+  start: number;
+  end: number;
+  value: number | boolean;
+}
+
+export interface FormulaTrace {
+  result: boolean | null; // null when the formula could not be evaluated on this bar
+  error?: string;
+  variables: Record<string, number>; // resolved variable references, e.g. { "close[1]": 101.2 }
+  subexpressions: FormulaTraceValue[]; // innermost first, ending with the whole formula
+}
+
+/**
+ * A validated formula compiled into closures, with the closed bars it needs on each timeframe
+ */
+export interface CompiledFormula {
+  formula: string;
+  // Previous closed bars needed on the formula's own timeframe, and on each timeframe read with `@`
+  lookback: number;
+  timeframeLookbacks: Record<string, number>;
+  // Variables the formula reads on any bar or timeframe, e.g. ["close", "fast_ma"]
+  variables: string[];
+  evaluate(context: FormulaContext): boolean;
 }
 
 export interface FormulaValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
+  issues: FormulaIssue[];
+  // Closed candles needed before the formula can evaluate (set when valid)
+  warmupBars?: number;
+  // Closed candles needed on each other timeframe the formula references
+  timeframeWarmupBars?: Record<string, number>;
 }
 
 // Token types
@@ -42,24 +106,151 @@ type TokenType =
   | 'RPAREN'
   | 'FUNCTION'
   | 'COMMA'
+  | 'LBRACKET'
+  | 'RBRACKET'
+  | 'TIMEFRAME'
+  | 'MACRO'
+  | 'PARAM'
   | 'EOF';
 
 interface Token {
   type: TokenType;
   value: string | number;
   position: number;
+  end: number;
+}
+
+/**
+ * A named formula fragment. Parameters stand for numbers (thresholds, periods)
+ * and are replaced by the call's arguments.
+ */
+export interface FormulaMacroDefinition {
+  name: string;
+  params: string[];
+  expression: string;
+}
+
+/**
+ * Names the tokenizer and parser can resolve beyond the built-in variables and functions
+ */
+interface ParseScope {
+  macros: Map<string, FormulaMacroDefinition>;
+  bindings: Map<string, ASTNode>; // macro parameter -> call argument, inside a macro body
+  stack: string[]; // macros currently being expanded, to detect cycles
+  used: Set<string>; // every macro expanded while parsing the formula
+}
+
+function createScope(macros: Map<string, FormulaMacroDefinition>): ParseScope {
+  return { macros, bindings: new Map(), stack: [], used: new Set() };
+}
+
+/**
+ * Syntax error carrying the span of the formula it applies to
+ */
+export class FormulaSyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+    this.name = 'FormulaSyntaxError';
+  }
 }
 
 // Allowed variables
 const ALLOWED_VARIABLES = new Set([
-  'price', 'ema50', 'ema200', 'high', 'low', 'open', 'close', 'volume'
+  'price', 'ema50', 'ema200', 'high', 'low', 'open', 'close', 'volume', 'fast_ma', 'slow_ma'
 ]);
 
+// Variables that are indicator values rather than candle prices, recorded in signal snapshots
+const INDICATOR_VARIABLES = new Set(['ema50', 'ema200', 'fast_ma', 'slow_ma']);
+
+// Formulas kept parsed and compiled; the least recently used ones are dropped beyond this
+export const MAX_CACHED_FORMULAS = 500;
+
+// Candle histories hold 250 closed bars, so no formula can need more than that
+export const MAX_HISTORY_BARS = 250;
+
+// Timeframes that can be referenced with `@`, by their lowercased name (`@1d` reads 1D candles)
+const ALLOWED_TIMEFRAMES = new Map<string, Timeframe>(TIMEFRAMES.map((timeframe) => [timeframe.toLowerCase(), timeframe]));
+
+// Candles a variable needs before its current value is defined
+const VARIABLE_WARMUP: Record<string, number> = {
+  ema50: 50,
+  ema200: 200,
+};
+
 // Allowed functions
 const ALLOWED_FUNCTIONS = new Set([
-  'abs', 'min', 'max', 'round', 'floor', 'ceil', 'sqrt', 'pow'
+  'abs', 'min', 'max', 'round', 'floor', 'ceil', 'sqrt', 'pow',
+  'crosses_above', 'crosses_below', 'crosses',
+  'ema', 'sma', 'rsi', 'atr',
+  'macd', 'macd_signal', 'macd_hist', 'bb_upper', 'bb_lower', 'supertrend',
+  ...Object.keys(PATTERN_DEFINITIONS)
+]);
+
+// Keywords and identifiers of the uppercase dialect the seed scripts use; normalize() rewrites them
+const LEGACY_DIALECT = new Map<string, { type: 'LOGICAL' | 'VARIABLE'; value: string }>([
+  ['and', { type: 'LOGICAL', value: '&&' }],
+  ['or', { type: 'LOGICAL', value: '||' }],
+  ['not', { type: 'LOGICAL', value: '!' }],
+  ['ema_50', { type: 'VARIABLE', value: 'ema50' }],
+  ['ema_200', { type: 'VARIABLE', value: 'ema200' }],
 ]);
 
+// Functions that compare their arguments on the previous and current bar
+const CROSS_FUNCTIONS = new Set(['crosses_above', 'crosses_below', 'crosses']);
+
+// Indicator functions and their arguments: a source variable such as close, and/or a whole-number period.
+// MACD uses the standard 12/26/9 periods, Bollinger Bands 2 standard deviations and SuperTrend 3 ATRs.
+const INDICATOR_SIGNATURES: Record<string, { source: boolean; period: boolean }> = {
+  ema: { source: true, period: true },
+  sma: { source: true, period: true },
+  rsi: { source: true, period: true },
+  bb_upper: { source: true, period: true },
+  bb_lower: { source: true, period: true },
+  macd: { source: true, period: false },
+  macd_signal: { source: true, period: false },
+  macd_hist: { source: true, period: false },
+  atr: { source: false, period: true },
+  supertrend: { source: false, period: true },
+};
+const INDICATOR_FUNCTIONS = new Set(Object.keys(INDICATOR_SIGNATURES));
+
+// Bars beyond its source's that a source indicator needs: e.g. ema(close, 20) needs 19 more closes
+function indicatorLookback(name: string, period: number): number {
+  switch (name) {
+    case 'rsi': return period; // works on bar-to-bar changes
+    case 'macd': return 25; // the 26-bar slow EMA
+    case 'macd_signal':
+    case 'macd_hist': return 33; // then a 9-bar EMA of the MACD line
+    default: return period - 1;
+  }
+}
+
+// Argument counts for the math functions (cross and indicator arity is checked by the parser)
+const FUNCTION_ARITY: Record<string, { min: number; max: number }> = {
+  abs: { min: 1, max: 1 },
+  round: { min: 1, max: 1 },
+  floor: { min: 1, max: 1 },
+  ceil: { min: 1, max: 1 },
+  sqrt: { min: 1, max: 1 },
+  pow: { min: 2, max: 2 },
+  min: { min: 2, max: Infinity },
+  max: { min: 2, max: Infinity },
+};
+
+/**
+ * True when series a moved from at or below b on the previous bar to above b now
+ */
+export function crossesAbove(prevA: number, prevB: number, a: number, b: number): boolean {
+  return prevA <= prevB && a > b;
+}
+
+/**
+ * True when series a moved from at or above b on the previous bar to below b now
+ */
+export function crossesBelow(prevA: number, prevB: number, a: number, b: number): boolean {
+  return prevA >= prevB && a < b;
+}
+
 // Operator precedence
 const PRECEDENCE: Record<string, number> = {
   '||': 1,
@@ -74,7 +265,7 @@ const PRECEDENCE: Record<string, number> = {
 /**
  * Tokenizer - converts formula string into tokens
  */
-function tokenize(formula: string): Token[] {
+function tokenize(formula: string, scope?: ParseScope): Token[] {
   const tokens: Token[] = [];
   let pos = 0;
 
@@ -93,7 +284,7 @@ function tokenize(formula: string): Token[] {
       while (pos < formula.length && /[0-9.]/.test(formula[pos])) {
         numStr += formula[pos++];
       }
-      tokens.push({ type: 'NUMBER', value: parseFloat(numStr), position: pos - numStr.length });
+      tokens.push({ type: 'NUMBER', value: parseFloat(numStr), position: pos - numStr.length, end: pos });
       continue;
     }
 
@@ -106,12 +297,20 @@ function tokenize(formula: string): Token[] {
       }
       
       // Check if it's a function (followed by parenthesis)
-      if (ALLOWED_FUNCTIONS.has(identifier.toLowerCase())) {
-        tokens.push({ type: 'FUNCTION', value: identifier.toLowerCase(), position: startPos });
-      } else if (ALLOWED_VARIABLES.has(identifier.toLowerCase())) {
-        tokens.push({ type: 'VARIABLE', value: identifier.toLowerCase(), position: startPos });
+      const name = identifier.toLowerCase();
+      const legacy = LEGACY_DIALECT.get(name);
+      if (legacy) {
+        tokens.push({ type: legacy.type, value: legacy.value, position: startPos, end: pos });
+      } else if (ALLOWED_FUNCTIONS.has(name)) {
+        tokens.push({ type: 'FUNCTION', value: name, position: startPos, end: pos });
+      } else if (ALLOWED_VARIABLES.has(name)) {
+        tokens.push({ type: 'VARIABLE', value: name, position: startPos, end: pos });
+      } else if (scope?.bindings.has(name)) {
+        tokens.push({ type: 'PARAM', value: name, position: startPos, end: pos });
+      } else if (scope?.macros.has(name)) {
+        tokens.push({ type: 'MACRO', value: name, position: startPos, end: pos });
       } else {
-        throw new Error(`Unknown identifier: ${identifier} at position ${startPos}`);
+        throw new FormulaSyntaxError(`Unknown identifier: ${identifier} at position ${startPos}`, startPos, pos);
       }
       continue;
     }
@@ -120,9 +319,9 @@ function tokenize(formula: string): Token[] {
     const twoChar = formula.slice(pos, pos + 2);
     if (['&&', '||', '==', '!=', '<=', '>='].includes(twoChar)) {
       if (['&&', '||'].includes(twoChar)) {
-        tokens.push({ type: 'LOGICAL', value: twoChar, position: pos });
+        tokens.push({ type: 'LOGICAL', value: twoChar, position: pos, end: pos + 2 });
       } else {
-        tokens.push({ type: 'COMPARISON', value: twoChar, position: pos });
+        tokens.push({ type: 'COMPARISON', value: twoChar, position: pos, end: pos + 2 });
       }
       pos += 2;
       continue;
@@ -130,51 +329,74 @@ function tokenize(formula: string): Token[] {
 
     // Single-character operators
     if (['+', '-', '*', '/'].includes(char)) {
-      tokens.push({ type: 'OPERATOR', value: char, position: pos++ });
+      tokens.push({ type: 'OPERATOR', value: char, position: pos, end: ++pos });
       continue;
     }
 
     if (['<', '>'].includes(char)) {
-      tokens.push({ type: 'COMPARISON', value: char, position: pos++ });
+      tokens.push({ type: 'COMPARISON', value: char, position: pos, end: ++pos });
       continue;
     }
 
     if (char === '!') {
-      tokens.push({ type: 'LOGICAL', value: char, position: pos++ });
+      tokens.push({ type: 'LOGICAL', value: char, position: pos, end: ++pos });
       continue;
     }
 
     if (char === '(') {
-      tokens.push({ type: 'LPAREN', value: char, position: pos++ });
+      tokens.push({ type: 'LPAREN', value: char, position: pos, end: ++pos });
       continue;
     }
 
     if (char === ')') {
-      tokens.push({ type: 'RPAREN', value: char, position: pos++ });
+      tokens.push({ type: 'RPAREN', value: char, position: pos, end: ++pos });
       continue;
     }
 
     if (char === ',') {
-      tokens.push({ type: 'COMMA', value: char, position: pos++ });
+      tokens.push({ type: 'COMMA', value: char, position: pos, end: ++pos });
+      continue;
+    }
+
+    // Timeframe suffix: ema200@15m
+    if (char === '@') {
+      const startPos = pos++;
+      let timeframe = '';
+      while (pos < formula.length && /[a-zA-Z0-9]/.test(formula[pos])) {
+        timeframe += formula[pos++];
+      }
+      tokens.push({ type: 'TIMEFRAME', value: timeframe.toLowerCase(), position: startPos, end: pos });
+      continue;
+    }
+
+    if (char === '[') {
+      tokens.push({ type: 'LBRACKET', value: char, position: pos, end: ++pos });
+      continue;
+    }
+
+    if (char === ']') {
+      tokens.push({ type: 'RBRACKET', value: char, position: pos, end: ++pos });
       continue;
     }
 
-    throw new Error(`Unexpected character: ${char} at position ${pos}`);
+    throw new FormulaSyntaxError(`Unexpected character: ${char} at position ${pos}`, pos, pos + 1);
   }
 
-  tokens.push({ type: 'EOF', value: '', position: pos });
+  tokens.push({ type: 'EOF', value: '', position: pos, end: pos });
   return tokens;
 }
 
 /**
- * AST Node types
+ * AST Node types. `start`/`end` are the character span the node was parsed from;
+ * nodes expanded from a macro body take the span of the macro call and are marked `expanded`.
  */
-type ASTNode =
+export type ASTNode = (
   | { type: 'number'; value: number }
-  | { type: 'variable'; name: string }
+  | { type: 'variable'; name: string; offset: number; timeframe?: string }
   | { type: 'binary'; operator: string; left: ASTNode; right: ASTNode }
   | { type: 'unary'; operator: string; operand: ASTNode }
-  | { type: 'function'; name: string; args: ASTNode[] };
+  | { type: 'function'; name: string; args: ASTNode[] }
+) & { start: number; end: number; expanded?: boolean };
 
 /**
  * Parser - converts tokens into AST
@@ -182,9 +404,11 @@ type ASTNode =
 class Parser {
   private tokens: Token[];
   private pos: number = 0;
+  private scope: ParseScope;
 
-  constructor(tokens: Token[]) {
+  constructor(tokens: Token[], scope: ParseScope = createScope(new Map())) {
     this.tokens = tokens;
+    this.scope = scope;
   }
 
   private current(): Token {
@@ -194,7 +418,7 @@ class Parser {
   private consume(expectedType?: TokenType): Token {
     const token = this.current();
     if (expectedType && token.type !== expectedType) {
-      throw new Error(`Expected ${expectedType} but got ${token.type} at position ${token.position}`);
+      throw new FormulaSyntaxError(`Expected ${expectedType} but got ${token.type} at position ${token.position}`, token.position, token.end);
     }
     this.pos++;
     return token;
@@ -203,7 +427,8 @@ class Parser {
   parse(): ASTNode {
     const result = this.parseExpression(0);
     if (this.current().type !== 'EOF') {
-      throw new Error(`Unexpected token at position ${this.current().position}`);
+      const token = this.current();
+      throw new FormulaSyntaxError(`Unexpected token at position ${token.position}`, token.position, token.end);
     }
     return result;
   }
@@ -226,7 +451,7 @@ class Parser {
 
       this.consume();
       const right = this.parseExpression(precedence + 1);
-      left = { type: 'binary', operator: tokenValue, left, right };
+      left = { type: 'binary', operator: tokenValue, left, right, start: left.start, end: right.end };
     }
 
     return left;
@@ -238,13 +463,20 @@ class Parser {
     if (token.type === 'LOGICAL' && token.value === '!') {
       this.consume();
       const operand = this.parseUnary();
-      return { type: 'unary', operator: '!', operand };
+      return { type: 'unary', operator: '!', operand, start: token.position, end: operand.end };
     }
 
     if (token.type === 'OPERATOR' && token.value === '-') {
       this.consume();
       const operand = this.parseUnary();
-      return { type: 'binary', operator: '*', left: { type: 'number', value: -1 }, right: operand };
+      return {
+        type: 'binary',
+        operator: '*',
+        left: { type: 'number', value: -1, start: token.position, end: token.end },
+        right: operand,
+        start: token.position,
+        end: operand.end,
+      };
     }
 
     return this.parsePrimary();
@@ -255,61 +487,350 @@ class Parser {
 
     if (token.type === 'NUMBER') {
       this.consume();
-      return { type: 'number', value: token.value as number };
+      return { type: 'number', value: token.value as number, start: token.position, end: token.end };
     }
 
     if (token.type === 'VARIABLE') {
-      this.consume();
-      return { type: 'variable', name: token.value as string };
+      let end = this.consume().end;
+      let offset = 0;
+      let timeframe: string | undefined;
+
+      // Other timeframe: ema200@15m reads the latest closed 15m candle
+      if (this.current().type === 'TIMEFRAME') {
+        const timeframeToken = this.consume();
+        timeframe = ALLOWED_TIMEFRAMES.get(timeframeToken.value as string);
+        end = timeframeToken.end;
+        if (!timeframe) {
+          throw new FormulaSyntaxError(
+            `Unsupported timeframe: ${timeframeToken.value || '(empty)'} at position ${timeframeToken.position}`,
+            timeframeToken.position,
+            timeframeToken.end
+          );
+        }
+      }
+
+      // Historical reference: close[1] is the previous closed bar
+      if (this.current().type === 'LBRACKET') {
+        this.consume();
+        const indexToken = this.consume('NUMBER');
+        offset = indexToken.value as number;
+        if (!Number.isInteger(offset)) {
+          throw new FormulaSyntaxError(`Bar index must be a whole number at position ${indexToken.position}`, indexToken.position, indexToken.end);
+        }
+        end = this.consume('RBRACKET').end;
+      }
+
+      return { type: 'variable', name: token.value as string, offset, timeframe, start: token.position, end };
     }
 
     if (token.type === 'FUNCTION') {
       const funcName = token.value as string;
       this.consume();
       this.consume('LPAREN');
-      
-      const args: ASTNode[] = [];
-      if (this.current().type !== 'RPAREN') {
-        args.push(this.parseExpression(0));
-        while (this.current().type === 'COMMA') {
-          this.consume();
-          args.push(this.parseExpression(0));
-        }
+      const args = this.parseArguments();
+      const end = this.consume('RPAREN').end;
+
+      if (CROSS_FUNCTIONS.has(funcName) && args.length !== 2) {
+        throw new FormulaSyntaxError(`${funcName} expects 2 arguments but got ${args.length} at position ${token.position}`, token.position, end);
       }
-      
-      this.consume('RPAREN');
-      return { type: 'function', name: funcName, args };
+
+      if (INDICATOR_FUNCTIONS.has(funcName)) {
+        this.checkIndicatorArgs(funcName, args, token.position, end);
+      }
+
+      if (isCandlestickPattern(funcName)) {
+        this.checkPatternArgs(funcName, args, token.position, end);
+      }
+
+      return { type: 'function', name: funcName, args, start: token.position, end };
+    }
+
+    if (token.type === 'MACRO') {
+      this.consume();
+      let args: ASTNode[] = [];
+      let end = token.end;
+      if (this.current().type === 'LPAREN') {
+        this.consume();
+        args = this.parseArguments();
+        end = this.consume('RPAREN').end;
+      }
+      return this.expandMacro(token.value as string, args, token.position, end);
+    }
+
+    // Macro parameter: the argument the macro was called with
+    if (token.type === 'PARAM') {
+      this.consume();
+      return this.scope.bindings.get(token.value as string)!;
     }
 
     if (token.type === 'LPAREN') {
       this.consume();
       const expr = this.parseExpression(0);
-      this.consume('RPAREN');
-      return expr;
+      const end = this.consume('RPAREN').end;
+      return { ...expr, start: token.position, end };
+    }
+
+    throw new FormulaSyntaxError(`Unexpected token: ${token.type} at position ${token.position}`, token.position, token.end);
+  }
+
+  /**
+   * Comma-separated arguments up to (not including) the closing parenthesis
+   */
+  private parseArguments(): ASTNode[] {
+    const args: ASTNode[] = [];
+    if (this.current().type !== 'RPAREN') {
+      args.push(this.parseExpression(0));
+      while (this.current().type === 'COMMA') {
+        this.consume();
+        args.push(this.parseExpression(0));
+      }
+    }
+    return args;
+  }
+
+  /**
+   * Parse a macro body with its parameters bound to the call arguments
+   */
+  private expandMacro(name: string, args: ASTNode[], start: number, end: number): ASTNode {
+    const macro = this.scope.macros.get(name)!;
+
+    if (this.scope.stack.includes(name)) {
+      throw new FormulaSyntaxError(`Macro cycle: ${[...this.scope.stack, name].join(' -> ')}`, start, end);
+    }
+    if (args.length !== macro.params.length) {
+      throw new FormulaSyntaxError(
+        `${name} expects ${macro.params.length} argument${macro.params.length === 1 ? '' : 's'} but got ${args.length} at position ${start}`,
+        start,
+        end
+      );
+    }
+
+    this.scope.used.add(name);
+    const bodyScope: ParseScope = {
+      ...this.scope,
+      bindings: new Map(macro.params.map((param, i) => [param.toLowerCase(), args[i]] as [string, ASTNode])),
+      stack: [...this.scope.stack, name],
+    };
+
+    let body: ASTNode;
+    try {
+      body = new Parser(tokenize(macro.expression, bodyScope), bodyScope).parse();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid macro';
+      const nested = message.startsWith('In macro') || message.startsWith('Macro cycle');
+      throw new FormulaSyntaxError(nested ? message : `In macro ${name}: ${message}`, start, end);
     }
 
-    throw new Error(`Unexpected token: ${token.type} at position ${token.position}`);
+    return respan(body, start, end, new Set(args), true);
+  }
+
+  /**
+   * Indicators take a source variable (except atr) and a whole-number period literal
+   */
+  private checkIndicatorArgs(funcName: string, args: ASTNode[], position: number, end: number): void {
+    const signature = INDICATOR_SIGNATURES[funcName];
+    const expected = (signature.source ? 1 : 0) + (signature.period ? 1 : 0);
+    if (args.length !== expected) {
+      throw new FormulaSyntaxError(
+        `${funcName} expects ${expected} argument${expected === 1 ? '' : 's'} but got ${args.length} at position ${position}`,
+        position,
+        end
+      );
+    }
+
+    if (signature.source && args[0].type !== 'variable') {
+      throw new FormulaSyntaxError(`${funcName} source must be a variable such as close at position ${position}`, args[0].start, args[0].end);
+    }
+
+    if (!signature.period) return;
+
+    const period = args[args.length - 1];
+    if (period.type !== 'number' || !Number.isInteger(period.value) || period.value < 1) {
+      throw new FormulaSyntaxError(`${funcName} period must be a positive whole number at position ${position}`, period.start, period.end);
+    }
+  }
+
+  /**
+   * Candlestick patterns take an optional sensitivity threshold literal within the pattern's range
+   */
+  private checkPatternArgs(funcName: string, args: ASTNode[], position: number, end: number): void {
+    if (args.length > 1) {
+      throw new FormulaSyntaxError(`${funcName} expects at most 1 argument but got ${args.length} at position ${position}`, position, end);
+    }
+    if (args.length === 0) return;
+
+    const { min, max, thresholdDescription } = PATTERN_DEFINITIONS[funcName as keyof typeof PATTERN_DEFINITIONS];
+    const threshold = args[0];
+    if (threshold.type !== 'number' || threshold.value < min || threshold.value > max) {
+      throw new FormulaSyntaxError(
+        `${funcName} threshold (${thresholdDescription}) must be a number from ${min} to ${max} at position ${position}`,
+        threshold.start,
+        threshold.end
+      );
+    }
   }
 }
 
 /**
- * Evaluator - evaluates AST with given context
+ * Give the nodes of an expanded macro body the span of the macro call, leaving the
+ * call's own arguments (substituted for parameters) as they were written
  */
-function evaluate(node: ASTNode, context: FormulaContext): number | boolean {
+function respan(node: ASTNode, start: number, end: number, keep: Set<ASTNode>, isRoot: boolean = false): ASTNode {
+  if (keep.has(node)) return node;
+
+  const span = { start, end, expanded: isRoot ? undefined : true };
+  switch (node.type) {
+    case 'binary':
+      return { ...node, ...span, left: respan(node.left, start, end, keep), right: respan(node.right, start, end, keep) };
+    case 'unary':
+      return { ...node, ...span, operand: respan(node.operand, start, end, keep) };
+    case 'function':
+      return { ...node, ...span, args: node.args.map(arg => respan(arg, start, end, keep)) };
+    default:
+      return { ...node, ...span };
+  }
+}
+
+/**
+ * Format a variable reference the way it is written in a formula, e.g. close@15m[2]
+ */
+function formatVariable(name: string, offset: number, timeframe?: string): string {
+  const suffix = timeframe ? `@${timeframe}` : '';
+  return offset === 0 ? `${name}${suffix}` : `${name}${suffix}[${offset}]`;
+}
+
+/**
+ * Resolve the context a variable is read from: the current one, or another timeframe's
+ */
+function getFrame(context: FormulaContext, timeframe?: string): FormulaContext {
+  if (!timeframe) return context;
+
+  const frame = context.timeframes?.[timeframe];
+  if (!frame) {
+    throw new Error(`Timeframe ${timeframe} is not ready: no closed candles yet`);
+  }
+  return frame;
+}
+
+/**
+ * Collect a variable's values oldest first, ending `endOffset` bars before the current bar
+ */
+function getSeries(context: FormulaContext, name: string, endOffset: number): number[] {
+  const history = context.history ?? [];
+  const values: number[] = [];
+  for (let offset = history.length; offset >= endOffset; offset--) {
+    const bar = offset === 0 ? context : history[offset - 1];
+    const value = name === 'close' ? bar.close ?? bar.price : bar[name as keyof FormulaBar];
+    values.push(value ?? NaN);
+  }
+  return values;
+}
+
+/**
+ * Evaluate an indicator function on the bar `shift` bars before the current one
+ */
+function evaluateIndicator(node: { name: string; args: ASTNode[] }, context: FormulaContext, shift: number): number {
+  const signature = INDICATOR_SIGNATURES[node.name];
+  const period = signature.period ? (node.args[node.args.length - 1] as { value: number }).value : 0;
+  let series: number[];
+  let label: string;
+
+  if (!signature.source) {
+    label = `${node.name}(${period})`;
+    const highs = getSeries(context, 'high', shift);
+    const lows = getSeries(context, 'low', shift);
+    const bars = getSeries(context, 'close', shift).map((close, i) => ({ high: highs[i], low: lows[i], close }));
+    series = node.name === 'atr'
+      ? indicatorCalculator.calculateATR(bars, period)
+      : indicatorCalculator.calculateSuperTrend(bars, period).values;
+  } else {
+    const source = node.args[0] as { name: string; offset: number; timeframe?: string };
+    const values = getSeries(getFrame(context, source.timeframe), source.name, source.offset + shift);
+    const sourceLabel = formatVariable(source.name, source.offset, source.timeframe);
+    label = signature.period ? `${node.name}(${sourceLabel}, ${period})` : `${node.name}(${sourceLabel})`;
+
+    switch (node.name) {
+      case 'ema': series = emaCalculator.calculateEMA(values, period); break;
+      case 'sma': series = indicatorCalculator.calculateSMA(values, period); break;
+      case 'rsi': series = indicatorCalculator.calculateRSI(values, period); break;
+      case 'bb_upper': series = indicatorCalculator.calculateBollingerBands(values, period).upper; break;
+      case 'bb_lower': series = indicatorCalculator.calculateBollingerBands(values, period).lower; break;
+      case 'macd': series = indicatorCalculator.calculateMACD(values).macd; break;
+      case 'macd_signal': series = indicatorCalculator.calculateMACD(values).signal; break;
+      default: series = indicatorCalculator.calculateMACD(values).histogram;
+    }
+  }
+
+  const value = series.length > 0 ? series[series.length - 1] : NaN;
+  if (Number.isNaN(value)) {
+    throw new Error(`Insufficient history for ${label}`);
+  }
+  return value;
+}
+
+/**
+ * Match a candlestick pattern ending on the bar `shift` bars before the current one
+ */
+function evaluatePattern(node: { name: string; args: ASTNode[] }, context: FormulaContext, shift: number): boolean {
+  const pattern = node.name as keyof typeof PATTERN_DEFINITIONS;
+  const candles: PatternCandle[] = [];
+  for (let offset = shift; offset < shift + PATTERN_DEFINITIONS[pattern].bars; offset++) {
+    const bar = offset === 0 ? context : context.history?.[offset - 1];
+    if (!bar) {
+      throw new Error(`Insufficient history for ${pattern}()`);
+    }
+    candles.push({ open: bar.open, high: bar.high, low: bar.low, close: bar.close ?? bar.price });
+  }
+  const threshold = node.args.length > 0 ? (node.args[0] as { value: number }).value : undefined;
+  return detectPattern(pattern, candles, threshold);
+}
+
+/**
+ * Evaluator - evaluates AST with given context.
+ * `shift` moves every bar reference further into the past (used by cross functions).
+ * References to other timeframes shift by that timeframe's own bars.
+ * When `trace` is given, the value of every node on the current bar is recorded in it.
+ */
+function evaluate(
+  node: ASTNode,
+  context: FormulaContext,
+  shift: number = 0,
+  trace?: Map<ASTNode, number | boolean>
+): number | boolean {
+  const value = evaluateNode(node, context, shift, trace);
+  if (trace && shift === 0) {
+    trace.set(node, value);
+  }
+  return value;
+}
+
+function evaluateNode(
+  node: ASTNode,
+  context: FormulaContext,
+  shift: number,
+  trace?: Map<ASTNode, number | boolean>
+): number | boolean {
   switch (node.type) {
     case 'number':
       return node.value;
 
-    case 'variable':
-      const value = context[node.name as keyof FormulaContext];
-      if (value === undefined) {
-        throw new Error(`Undefined variable: ${node.name}`);
+    case 'variable': {
+      const offset = node.offset + shift;
+      const frame = getFrame(context, node.timeframe);
+      const bar = offset === 0 ? frame : frame.history?.[offset - 1];
+      if (!bar) {
+        throw new Error(`Insufficient history for ${formatVariable(node.name, offset, node.timeframe)}`);
+      }
+      const value = bar[node.name as keyof FormulaBar];
+      if (value === undefined || Number.isNaN(value)) {
+        throw new Error(`Undefined variable: ${formatVariable(node.name, offset, node.timeframe)}`);
       }
       return value;
+    }
 
     case 'binary': {
-      const left = evaluate(node.left, context);
-      const right = evaluate(node.right, context);
+      const left = evaluate(node.left, context, shift, trace);
+      const right = evaluate(node.right, context, shift, trace);
       
       switch (node.operator) {
         case '+': return (left as number) + (right as number);
@@ -332,7 +853,7 @@ function evaluate(node: ASTNode, context: FormulaContext): number | boolean {
     }
 
     case 'unary': {
-      const operand = evaluate(node.operand, context);
+      const operand = evaluate(node.operand, context, shift, trace);
       if (node.operator === '!') {
         return !Boolean(operand);
       }
@@ -340,7 +861,29 @@ function evaluate(node: ASTNode, context: FormulaContext): number | boolean {
     }
 
     case 'function': {
-      const args = node.args.map(arg => evaluate(arg, context) as number);
+      if (CROSS_FUNCTIONS.has(node.name)) {
+        const [a, b] = node.args;
+        const prevA = evaluate(a, context, shift + 1, trace) as number;
+        const prevB = evaluate(b, context, shift + 1, trace) as number;
+        const curA = evaluate(a, context, shift, trace) as number;
+        const curB = evaluate(b, context, shift, trace) as number;
+
+        switch (node.name) {
+          case 'crosses_above': return crossesAbove(prevA, prevB, curA, curB);
+          case 'crosses_below': return crossesBelow(prevA, prevB, curA, curB);
+          default: return crossesAbove(prevA, prevB, curA, curB) || crossesBelow(prevA, prevB, curA, curB);
+        }
+      }
+
+      if (INDICATOR_FUNCTIONS.has(node.name)) {
+        return evaluateIndicator(node, context, shift);
+      }
+
+      if (isCandlestickPattern(node.name)) {
+        return evaluatePattern(node, context, shift);
+      }
+
+      const args = node.args.map(arg => evaluate(arg, context, shift, trace) as number);
       
       switch (node.name) {
         case 'abs': return Math.abs(args[0]);
@@ -361,93 +904,744 @@ function evaluate(node: ASTNode, context: FormulaContext): number | boolean {
   }
 }
 
+/**
+ * A compiled AST node: evaluates the node `shift` bars before the current one
+ */
+type CompiledNode = (context: FormulaContext, shift: number) => number | boolean;
+
+/**
+ * Compile an AST into nested closures, resolving operators and functions once instead of on every
+ * evaluation. Behaves exactly like evaluateNode, which is still used for tracing.
+ */
+function compileNode(node: ASTNode): CompiledNode {
+  switch (node.type) {
+    case 'number': {
+      const value = node.value;
+      return () => value;
+    }
+
+    case 'variable': {
+      const { name, offset: baseOffset, timeframe } = node;
+      const key = name as keyof FormulaBar;
+      return (context, shift) => {
+        const offset = baseOffset + shift;
+        const frame = getFrame(context, timeframe);
+        const bar = offset === 0 ? frame : frame.history?.[offset - 1];
+        if (!bar) {
+          throw new Error(`Insufficient history for ${formatVariable(name, offset, timeframe)}`);
+        }
+        const value = bar[key];
+        if (value === undefined || Number.isNaN(value)) {
+          throw new Error(`Undefined variable: ${formatVariable(name, offset, timeframe)}`);
+        }
+        return value;
+      };
+    }
+
+    case 'binary': {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+
+      switch (node.operator) {
+        case '+': return (c, s) => (left(c, s) as number) + (right(c, s) as number);
+        case '-': return (c, s) => (left(c, s) as number) - (right(c, s) as number);
+        case '*': return (c, s) => (left(c, s) as number) * (right(c, s) as number);
+        case '/':
+          return (c, s) => {
+            const l = left(c, s) as number;
+            const r = right(c, s) as number;
+            if (r === 0) throw new Error('Division by zero');
+            return l / r;
+          };
+        case '<': return (c, s) => (left(c, s) as number) < (right(c, s) as number);
+        case '>': return (c, s) => (left(c, s) as number) > (right(c, s) as number);
+        case '<=': return (c, s) => (left(c, s) as number) <= (right(c, s) as number);
+        case '>=': return (c, s) => (left(c, s) as number) >= (right(c, s) as number);
+        case '==': return (c, s) => left(c, s) === right(c, s);
+        case '!=': return (c, s) => left(c, s) !== right(c, s);
+        // Both sides are evaluated, as in evaluateNode, so errors surface the same way
+        case '&&': return (c, s) => { const l = left(c, s); const r = right(c, s); return Boolean(l) && Boolean(r); };
+        case '||': return (c, s) => { const l = left(c, s); const r = right(c, s); return Boolean(l) || Boolean(r); };
+        default:
+          throw new Error(`Unknown operator: ${node.operator}`);
+      }
+    }
+
+    case 'unary': {
+      const operand = compileNode(node.operand);
+      if (node.operator === '!') {
+        return (c, s) => !Boolean(operand(c, s));
+      }
+      throw new Error(`Unknown unary operator: ${node.operator}`);
+    }
+
+    case 'function': {
+      if (CROSS_FUNCTIONS.has(node.name)) {
+        const a = compileNode(node.args[0]);
+        const b = compileNode(node.args[1]);
+        const name = node.name;
+        return (c, s) => {
+          const prevA = a(c, s + 1) as number;
+          const prevB = b(c, s + 1) as number;
+          const curA = a(c, s) as number;
+          const curB = b(c, s) as number;
+
+          switch (name) {
+            case 'crosses_above': return crossesAbove(prevA, prevB, curA, curB);
+            case 'crosses_below': return crossesBelow(prevA, prevB, curA, curB);
+            default: return crossesAbove(prevA, prevB, curA, curB) || crossesBelow(prevA, prevB, curA, curB);
+          }
+        };
+      }
+
+      if (INDICATOR_FUNCTIONS.has(node.name)) {
+        return (c, s) => evaluateIndicator(node, c, s);
+      }
+
+      if (isCandlestickPattern(node.name)) {
+        return (c, s) => evaluatePattern(node, c, s);
+      }
+
+      const args = node.args.map(compileNode);
+      const arg = (i: number, c: FormulaContext, s: number) => args[i](c, s) as number;
+
+      switch (node.name) {
+        case 'abs': return (c, s) => Math.abs(arg(0, c, s));
+        case 'min': return (c, s) => Math.min(...args.map(f => f(c, s) as number));
+        case 'max': return (c, s) => Math.max(...args.map(f => f(c, s) as number));
+        case 'round': return (c, s) => Math.round(arg(0, c, s));
+        case 'floor': return (c, s) => Math.floor(arg(0, c, s));
+        case 'ceil': return (c, s) => Math.ceil(arg(0, c, s));
+        case 'sqrt': return (c, s) => Math.sqrt(arg(0, c, s));
+        case 'pow': return (c, s) => Math.pow(arg(0, c, s), arg(1, c, s));
+        default:
+          throw new Error(`Unknown function: ${node.name}`);
+      }
+    }
+
+    default:
+      throw new Error(`Unknown node type`);
+  }
+}
+
+/**
+ * Map with a size bound that drops the least recently used entry when full.
+ * Relies on Map keeping insertion order: reads re-insert the entry at the end.
+ */
+class LRUCache<K, V> {
+  private entries: Map<K, V> = new Map();
+
+  constructor(private maxSize: number) {}
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Count the bars (current one included) an AST reads on one timeframe: `null` for the
+ * strategy's own timeframe, or a timeframe referenced with `@`. Returns 0 if it reads none.
+ * With `includeWarmup`, variables like ema200 also count the candles they need before they are defined.
+ */
+function requiredBars(node: ASTNode, includeWarmup: boolean, timeframe: string | null = null): number {
+  switch (node.type) {
+    case 'variable':
+      if ((node.timeframe ?? null) !== timeframe) return 0;
+      return node.offset + (includeWarmup ? VARIABLE_WARMUP[node.name] ?? 1 : 1);
+    case 'binary':
+      return Math.max(requiredBars(node.left, includeWarmup, timeframe), requiredBars(node.right, includeWarmup, timeframe));
+    case 'unary':
+      return requiredBars(node.operand, includeWarmup, timeframe);
+    case 'function': {
+      if (INDICATOR_FUNCTIONS.has(node.name)) {
+        const signature = INDICATOR_SIGNATURES[node.name];
+        const period = signature.period ? (node.args[node.args.length - 1] as { value: number }).value : 0;
+        // ATR and SuperTrend read the strategy's own candles, and true ranges need the previous close
+        if (!signature.source) return timeframe === null ? period + 1 : 0;
+        const sourceBars = requiredBars(node.args[0], includeWarmup, timeframe);
+        return sourceBars === 0 ? 0 : sourceBars + indicatorLookback(node.name, period);
+      }
+
+      // Patterns read the strategy's own candles
+      if (isCandlestickPattern(node.name)) {
+        return timeframe === null ? PATTERN_DEFINITIONS[node.name].bars : 0;
+      }
+
+      const argBars = node.args.reduce((max, arg) => Math.max(max, requiredBars(arg, includeWarmup, timeframe)), 0);
+      // Cross functions also read each argument one bar further back
+      return CROSS_FUNCTIONS.has(node.name) && argBars > 0 ? argBars + 1 : argBars;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Collect the timeframes an AST references with `@`
+ */
+function referencedTimeframes(node: ASTNode, found: Set<string> = new Set()): Set<string> {
+  switch (node.type) {
+    case 'variable':
+      if (node.timeframe) found.add(node.timeframe);
+      break;
+    case 'binary':
+      referencedTimeframes(node.left, found);
+      referencedTimeframes(node.right, found);
+      break;
+    case 'unary':
+      referencedTimeframes(node.operand, found);
+      break;
+    case 'function':
+      node.args.forEach(arg => referencedTimeframes(arg, found));
+      break;
+  }
+  return found;
+}
+
+function referencedVariables(node: ASTNode, found: Set<string> = new Set()): Set<string> {
+  switch (node.type) {
+    case 'variable':
+      found.add(node.name);
+      break;
+    case 'binary':
+      referencedVariables(node.left, found);
+      referencedVariables(node.right, found);
+      break;
+    case 'unary':
+      referencedVariables(node.operand, found);
+      break;
+    case 'function':
+      node.args.forEach(arg => referencedVariables(arg, found));
+      break;
+  }
+  return found;
+}
+
+type ValueType = 'number' | 'boolean';
+
+const ARITHMETIC_OPERATORS = new Set(['+', '-', '*', '/']);
+const RELATIONAL_OPERATORS = new Set(['<', '>', '<=', '>=']);
+const EQUALITY_OPERATORS = new Set(['==', '!=']);
+
+/**
+ * Record an error when a node's type isn't the one its position in the formula needs
+ */
+function expectType(node: ASTNode, actual: ValueType, expected: ValueType, where: string, issues: FormulaIssue[]): void {
+  if (actual === expected) return;
+
+  issues.push({
+    severity: 'error',
+    message: expected === 'number'
+      ? `Expected a number ${where} but got a true/false condition`
+      : `Expected a true/false condition ${where} but got a number`,
+    start: node.start,
+    end: node.end,
+  });
+}
+
+/**
+ * True for nodes that can only produce whole numbers, so == on them is exact
+ */
+function isWholeNumber(node: ASTNode): boolean {
+  if (node.type === 'number') return Number.isInteger(node.value);
+  return node.type === 'function' && ['round', 'floor', 'ceil'].includes(node.name);
+}
+
+/**
+ * Infer the type of every node, recording type errors and warnings along the way
+ */
+function checkTypes(node: ASTNode, issues: FormulaIssue[]): ValueType {
+  switch (node.type) {
+    case 'number':
+    case 'variable':
+      return 'number';
+
+    case 'unary':
+      expectType(node.operand, checkTypes(node.operand, issues), 'boolean', `after ${node.operator}`, issues);
+      return 'boolean';
+
+    case 'binary': {
+      const left = checkTypes(node.left, issues);
+      const right = checkTypes(node.right, issues);
+
+      if (ARITHMETIC_OPERATORS.has(node.operator) || RELATIONAL_OPERATORS.has(node.operator)) {
+        expectType(node.left, left, 'number', `on the left of ${node.operator}`, issues);
+        expectType(node.right, right, 'number', `on the right of ${node.operator}`, issues);
+        return ARITHMETIC_OPERATORS.has(node.operator) ? 'number' : 'boolean';
+      }
+
+      if (EQUALITY_OPERATORS.has(node.operator)) {
+        if (left !== right) {
+          issues.push({
+            severity: 'error',
+            message: `Cannot compare a number with a true/false condition using ${node.operator}`,
+            start: node.start,
+            end: node.end,
+          });
+        } else if (left === 'number' && !(isWholeNumber(node.left) && isWholeNumber(node.right))) {
+          issues.push({
+            severity: 'warning',
+            message: `${node.operator} compares prices exactly and will rarely match; use a tolerance such as abs(a - b) < 0.01`,
+            start: node.start,
+            end: node.end,
+          });
+        }
+        return 'boolean';
+      }
+
+      expectType(node.left, left, 'boolean', `on the left of ${node.operator}`, issues);
+      expectType(node.right, right, 'boolean', `on the right of ${node.operator}`, issues);
+      return 'boolean';
+    }
+
+    case 'function': {
+      const arity = FUNCTION_ARITY[node.name];
+      if (arity && (node.args.length < arity.min || node.args.length > arity.max)) {
+        const expected = arity.min === arity.max ? `${arity.min}` : `at least ${arity.min}`;
+        issues.push({
+          severity: 'error',
+          message: `${node.name} expects ${expected} argument${arity.min === 1 ? '' : 's'} but got ${node.args.length}`,
+          start: node.start,
+          end: node.end,
+        });
+      }
+
+      for (const arg of node.args) {
+        expectType(arg, checkTypes(arg, issues), 'number', `as an argument to ${node.name}`, issues);
+      }
+      return CROSS_FUNCTIONS.has(node.name) || isCandlestickPattern(node.name) ? 'boolean' : 'number';
+    }
+
+    default:
+      return 'number';
+  }
+}
+
+// Keywords that have no place in a formula
+const DANGEROUS_PATTERNS = [
+  /\beval\b/i,
+  /\bfunction\b/i,
+  /\bnew\b/i,
+  /\bimport\b/i,
+  /\brequire\b/i,
+  /\bprocess\b/i,
+  /\bglobal\b/i,
+  /\bwindow\b/i,
+  /\bdocument\b/i,
+  /\bfetch\b/i,
+  /\bXMLHttpRequest\b/i,
+  /\bsetTimeout\b/i,
+  /\bsetInterval\b/i,
+];
+
+function findForbiddenKeywords(text: string): FormulaIssue[] {
+  const issues: FormulaIssue[] = [];
+  for (const pattern of DANGEROUS_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) {
+      issues.push({
+        severity: 'error',
+        message: `Formula contains forbidden keyword: ${pattern.source}`,
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Split issues into the error and warning message lists of a validation result
+ */
+function buildValidationResult(issues: FormulaIssue[]): FormulaValidationResult {
+  const errors = issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+  const warnings = issues.filter(issue => issue.severity === 'warning').map(issue => issue.message);
+  return { valid: errors.length === 0, errors, warnings, issues };
+}
+
 /**
  * Formula Evaluator Class
  */
 export class FormulaEvaluator {
-  private cache: Map<string, ASTNode> = new Map();
+  private cache = new LRUCache<string, { ast: ASTNode; run: CompiledNode }>(MAX_CACHED_FORMULAS);
+  private compiled = new LRUCache<string, CompiledFormula>(MAX_CACHED_FORMULAS);
+  private macros: Map<string, FormulaMacroDefinition> = new Map();
+
+  /**
+   * Replace the macro library formulas can call. Cached formulas are dropped since they embed macro bodies.
+   */
+  setMacros(macros: FormulaMacroDefinition[]): void {
+    this.macros = new Map(macros.map(macro => [macro.name.toLowerCase(), macro]));
+    this.clearCache();
+  }
+
+  /**
+   * Check a macro definition against the library it would join, replacing the macro named
+   * `replacing` (when renaming) or of the same name: names must be free identifiers, and the
+   * body must parse without reaching itself again
+   */
+  validateMacro(macro: FormulaMacroDefinition, replacing?: string): FormulaValidationResult {
+    const issues: FormulaIssue[] = [];
+    const identifierPattern = /^[a-z_][a-z0-9_]*$/;
+    const isReserved = (name: string) =>
+      ALLOWED_VARIABLES.has(name) || ALLOWED_FUNCTIONS.has(name) || LEGACY_DIALECT.has(name);
+
+    if (!identifierPattern.test(macro.name) || isReserved(macro.name)) {
+      issues.push({ severity: 'error', message: `Invalid macro name: ${macro.name}`, start: 0, end: 0 });
+    }
+    for (const param of macro.params) {
+      if (!identifierPattern.test(param) || isReserved(param) || param === macro.name) {
+        issues.push({ severity: 'error', message: `Invalid parameter name: ${param}`, start: 0, end: 0 });
+      }
+    }
+    if (new Set(macro.params).size !== macro.params.length) {
+      issues.push({ severity: 'error', message: 'Parameter names must be unique', start: 0, end: 0 });
+    }
+    if (!macro.expression || macro.expression.trim().length === 0) {
+      issues.push({ severity: 'error', message: 'Macro expression cannot be empty', start: 0, end: 0 });
+    }
+
+    issues.push(...findForbiddenKeywords(macro.expression ?? ''));
+    if (issues.length > 0) {
+      return buildValidationResult(issues);
+    }
+
+    // Parse a call with placeholder arguments, which also expands every macro the body uses
+    const macros = new Map(this.macros);
+    if (replacing) macros.delete(replacing);
+    macros.set(macro.name, macro);
+    const call = macro.params.length > 0 ? `${macro.name}(${macro.params.map(() => '1').join(', ')})` : macro.name;
+    try {
+      const scope = createScope(macros);
+      new Parser(tokenize(call, scope), scope).parse();
+    } catch (error) {
+      issues.push({
+        severity: 'error',
+        message: error instanceof Error ? error.message : 'Invalid macro expression',
+        start: 0,
+        end: macro.expression.length,
+      });
+    }
+
+    return buildValidationResult(issues);
+  }
+
+  /**
+   * Rewrite a formula in canonical syntax: lowercase identifiers, `&&`/`||`/`!` for AND/OR/NOT
+   * and ema50/ema200 for EMA_50/EMA_200. Spacing, numbers and parentheses are kept as written.
+   * Throws FormulaSyntaxError if the formula doesn't tokenize.
+   */
+  normalize(formula: string): string {
+    const tokens = tokenize(formula, createScope(this.macros));
+    let normalized = '';
+    let pos = 0;
+
+    for (const token of tokens) {
+      if (token.type === 'EOF') break;
+      let text = formula.slice(token.position, token.end);
+      if (token.type === 'TIMEFRAME') {
+        text = `@${token.value}`;
+      } else if (token.type !== 'NUMBER') {
+        text = String(token.value);
+      }
+      normalized += formula.slice(pos, token.position) + text;
+      pos = token.end;
+    }
+
+    return normalized + formula.slice(pos);
+  }
+
+  /**
+   * Macros a formula expands, directly or through other macros. Empty if the formula doesn't parse.
+   * Pass `params` to scan a macro body, whose parameters aren't otherwise known identifiers.
+   */
+  getReferencedMacros(formula: string, params: string[] = []): string[] {
+    const scope = createScope(this.macros);
+    for (const param of params) {
+      scope.bindings.set(param.toLowerCase(), { type: 'number', value: 1, start: 0, end: 0 });
+    }
+    try {
+      new Parser(tokenize(formula, scope), scope).parse();
+    } catch {
+      return [];
+    }
+    return Array.from(scope.used);
+  }
 
   /**
    * Validate a formula without executing it
    */
   validate(formula: string): FormulaValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const issues: FormulaIssue[] = [];
 
     if (!formula || formula.trim().length === 0) {
-      return { valid: false, errors: ['Formula cannot be empty'], warnings: [] };
+      return buildValidationResult([{ severity: 'error', message: 'Formula cannot be empty', start: 0, end: 0 }]);
     }
 
-    // Check for dangerous patterns
-    const dangerousPatterns = [
-      /\beval\b/i,
-      /\bfunction\b/i,
-      /\bnew\b/i,
-      /\bimport\b/i,
-      /\brequire\b/i,
-      /\bprocess\b/i,
-      /\bglobal\b/i,
-      /\bwindow\b/i,
-      /\bdocument\b/i,
-      /\bfetch\b/i,
-      /\bXMLHttpRequest\b/i,
-      /\bsetTimeout\b/i,
-      /\bsetInterval\b/i,
-    ];
+    issues.push(...findForbiddenKeywords(formula));
+    if (issues.length > 0) {
+      return buildValidationResult(issues);
+    }
 
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(formula)) {
-        errors.push(`Formula contains forbidden keyword: ${pattern.source}`);
+    let ast: ASTNode;
+    try {
+      const tokens = tokenize(formula, createScope(this.macros));
+      const parser = new Parser(tokens, createScope(this.macros));
+      ast = parser.parse();
+    } catch (error) {
+      if (error instanceof FormulaSyntaxError) {
+        return buildValidationResult([{ severity: 'error', message: error.message, start: error.start, end: error.end }]);
       }
+      return buildValidationResult([{
+        severity: 'error',
+        message: error instanceof Error ? error.message : 'Invalid formula syntax',
+        start: 0,
+        end: formula.length,
+      }]);
     }
 
-    if (errors.length > 0) {
-      return { valid: false, errors, warnings };
+    // The whole formula has to be a condition, not a number like "price - ema50"
+    if (checkTypes(ast, issues) !== 'boolean') {
+      issues.push({
+        severity: 'error',
+        message: 'Formula must be a true/false condition, e.g. compare it with > or <',
+        start: ast.start,
+        end: ast.end,
+      });
     }
 
-    try {
-      const tokens = tokenize(formula);
-      const parser = new Parser(tokens);
-      parser.parse();
+    const warmupBars = Math.max(requiredBars(ast, true), 1);
+    if (warmupBars > MAX_HISTORY_BARS) {
+      issues.push({
+        severity: 'error',
+        message: `Formula needs ${warmupBars} candles of history but only ${MAX_HISTORY_BARS} are kept`,
+        start: ast.start,
+        end: ast.end,
+      });
+    }
 
-      // Warn about potentially confusing constructs
-      if (formula.includes('==') && formula.includes('=') && !formula.includes('==') && !formula.includes('!=')) {
-        warnings.push('Use == for equality comparison, not =');
+    const timeframeWarmupBars: Record<string, number> = {};
+    for (const timeframe of Array.from(referencedTimeframes(ast))) {
+      const bars = requiredBars(ast, true, timeframe);
+      if (bars > MAX_HISTORY_BARS) {
+        issues.push({
+          severity: 'error',
+          message: `Formula needs ${bars} ${timeframe} candles of history but only ${MAX_HISTORY_BARS} are kept`,
+          start: ast.start,
+          end: ast.end,
+        });
       }
-
-      return { valid: true, errors: [], warnings };
-    } catch (error) {
-      return {
-        valid: false,
-        errors: [error instanceof Error ? error.message : 'Invalid formula syntax'],
-        warnings,
-      };
+      timeframeWarmupBars[timeframe] = bars;
     }
+
+    const result = buildValidationResult(issues);
+    return result.valid ? { ...result, warmupBars, timeframeWarmupBars } : result;
   }
 
   /**
    * Evaluate a formula with the given context
    */
   evaluate(formula: string, context: FormulaContext): boolean {
-    // Check cache first
-    let ast = this.cache.get(formula);
-    
-    if (!ast) {
-      const tokens = tokenize(formula);
-      const parser = new Parser(tokens);
-      ast = parser.parse();
-      this.cache.set(formula, ast);
+    const result = this.getParsed(formula).run(context, 0);
+    return Boolean(result);
+  }
+
+  /**
+   * Evaluate a formula by walking its syntax tree instead of running its compiled closure.
+   * Slower than `evaluate`; it is the reference the compiled closures are checked and benchmarked against.
+   */
+  interpret(formula: string, context: FormulaContext): boolean {
+    return Boolean(evaluate(this.getAST(formula), context, 0));
+  }
+
+  /**
+   * Validate and compile a formula once, caching it under `key` (e.g. strategy id and version).
+   * A cached entry is reused only while its formula text matches. Throws if the formula is invalid.
+   */
+  compile(formula: string, key: string = formula): CompiledFormula {
+    const cached = this.compiled.get(key);
+    if (cached && cached.formula === formula) {
+      return cached;
     }
 
-    const result = evaluate(ast, context);
-    return Boolean(result);
+    const validation = this.validate(formula);
+    if (!validation.valid) {
+      throw new Error(`Invalid formula: ${validation.errors.join(', ')}`);
+    }
+
+    const { ast, run } = this.getParsed(formula);
+    const timeframeLookbacks: Record<string, number> = {};
+    for (const timeframe of Array.from(referencedTimeframes(ast))) {
+      timeframeLookbacks[timeframe] = Math.max(requiredBars(ast, false, timeframe) - 1, 0);
+    }
+
+    const compiled: CompiledFormula = {
+      formula,
+      lookback: Math.max(requiredBars(ast, false) - 1, 0),
+      timeframeLookbacks,
+      variables: Array.from(referencedVariables(ast)),
+      evaluate: (context) => Boolean(run(context, 0)),
+    };
+    this.compiled.set(key, compiled);
+    return compiled;
   }
 
   /**
-   * Clear the formula cache
+   * Evaluate a formula and record the value of each variable and sub-expression.
+   * Evaluation errors are reported in the trace instead of being thrown.
+   */
+  trace(formula: string, context: FormulaContext): FormulaTrace {
+    const ast = this.getAST(formula);
+    const values = new Map<ASTNode, number | boolean>();
+    const trace: FormulaTrace = { result: null, variables: {}, subexpressions: [] };
+
+    try {
+      trace.result = Boolean(evaluate(ast, context, 0, values));
+    } catch (error) {
+      trace.error = error instanceof Error ? error.message : 'Evaluation failed';
+    }
+
+    for (const [node, value] of Array.from(values)) {
+      if (node.type === 'variable') {
+        trace.variables[formatVariable(node.name, node.offset, node.timeframe)] = value as number;
+      } else if (node.type !== 'number' && !node.expanded) {
+        const expression = formula.slice(node.start, node.end);
+        trace.subexpressions.push({ expression, start: node.start, end: node.end, value });
+      }
+    }
+
+    return trace;
+  }
+
+  /**
+   * Values of the indicators a formula reads on the current bar, keyed by how the formula
+   * writes them, e.g. { "ema50": 101.2, "rsi(close, 14)": 61.5 }. Indicators that can't be
+   * evaluated on this bar are left out.
+   */
+  snapshot(formula: string, context: FormulaContext): Record<string, number> {
+    const ast = this.getAST(formula);
+    const values = new Map<ASTNode, number | boolean>();
+    const snapshot: Record<string, number> = {};
+
+    try {
+      evaluate(ast, context, 0, values);
+    } catch {
+      // Keep whatever was evaluated before the error
+    }
+
+    for (const [node, value] of Array.from(values)) {
+      if (typeof value !== 'number') continue;
+      if (node.type === 'variable' && INDICATOR_VARIABLES.has(node.name)) {
+        snapshot[formatVariable(node.name, node.offset, node.timeframe)] = value;
+      } else if (node.type === 'function' && INDICATOR_FUNCTIONS.has(node.name) && !node.expanded) {
+        snapshot[formula.slice(node.start, node.end)] = value;
+      }
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Candlestick patterns a formula checks that match on the current bar, e.g. ["hammer"] for
+   * "close < ema50 && (hammer() || bullish_engulfing())" on a hammer candle
+   */
+  matchedPatterns(formula: string, context: FormulaContext): string[] {
+    const ast = this.getAST(formula);
+    const values = new Map<ASTNode, number | boolean>();
+
+    try {
+      evaluate(ast, context, 0, values);
+    } catch {
+      // Keep whatever was evaluated before the error
+    }
+
+    const matched = new Set<string>();
+    for (const [node, value] of Array.from(values)) {
+      if (node.type === 'function' && isCandlestickPattern(node.name) && value === true) {
+        matched.add(node.name);
+      }
+    }
+    return Array.from(matched);
+  }
+
+  /**
+   * Syntax tree of a formula with macros expanded, e.g. for translating it to another language.
+   * The tree is shared with the cache, so it must not be modified.
+   */
+  parse(formula: string): ASTNode {
+    return this.getAST(formula);
+  }
+
+  /**
+   * Number of previous closed bars a formula needs (0 if it only reads the current bar).
+   * Pass a timeframe to count the bars it reads from that timeframe with `@`.
+   */
+  getRequiredLookback(formula: string, timeframe?: string): number {
+    return Math.max(requiredBars(this.getAST(formula), false, timeframe ?? null) - 1, 0);
+  }
+
+  /**
+   * Timeframes a formula reads with `@`, e.g. ["15m"] for "ema50@15m > ema200@15m"
+   */
+  getReferencedTimeframes(formula: string): string[] {
+    return Array.from(referencedTimeframes(this.getAST(formula)));
+  }
+
+  /**
+   * Number of closed candles a formula needs before it can fire, including indicator warm-up
+   */
+  getWarmupBars(formula: string): number {
+    return Math.max(requiredBars(this.getAST(formula), true), 1);
+  }
+
+  /**
+   * Parse a formula, using the cache when possible
+   */
+  private getAST(formula: string): ASTNode {
+    return this.getParsed(formula).ast;
+  }
+
+  /**
+   * Parse and compile a formula, using the cache when possible
+   */
+  private getParsed(formula: string): { ast: ASTNode; run: CompiledNode } {
+    let parsed = this.cache.get(formula);
+
+    if (!parsed) {
+      const scope = createScope(this.macros);
+      const tokens = tokenize(formula, scope);
+      const parser = new Parser(tokens, scope);
+      const ast = parser.parse();
+      parsed = { ast, run: compileNode(ast) };
+      this.cache.set(formula, parsed);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Clear the formula caches
    */
   clearCache(): void {
     this.cache.clear();
+    this.compiled.clear();
   }
 
   /**
@@ -485,4 +1679,20 @@ export const formulaEvaluator = new FormulaEvaluator();
  * 
  * Crossover detection:
  *   - "price > ema50 && ema50 > ema200"
+ *   - "close[1] < ema50[1] && close > ema50"
+ *   - "crosses_above(ema50, ema200)"
+ *   - "crosses_below(price, ema200) && ema50 > ema200"
+ * 
+ * Indicator functions:
+ *   - "ema(close, 21) > ema(close, 55) && rsi(close, 14) < 70"
+ *   - "crosses_above(ema(close, 9), ema(close, 21))"
+ *   - "high - low > atr(14) * 1.5"
+ * 
+ * Candlestick patterns:
+ *   - "close < ema50 && (hammer() || bullish_engulfing())"
+ *   - "doji(0.05) && abs(close - ema200) < atr(14)"
+ *
+ * Multi-timeframe (on a 5m strategy):
+ *   - "ema50@15m > ema200@15m && low <= ema200 && price > ema200"
+ *   - "close@15m > ema(close@15m, 21)"
  */
@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { indicatorCalculator, type PriceBar, type VolumeBar } from "./indicator-calculator";
+
+/**
+ * Compare a series with reference values; null stands for a warm-up bar, which must be NaN
+ */
+function assertSeries(actual: number[], expected: Array<number | null>, tolerance: number, label: string) {
+  assert.equal(actual.length, expected.length, `${label}: length`);
+  expected.forEach((value, i) => {
+    if (value === null) {
+      assert.ok(Number.isNaN(actual[i]), `${label}[${i}]: expected NaN during warm-up, got ${actual[i]}`);
+    } else {
+      assert.ok(Math.abs(actual[i] - value) <= tolerance, `${label}[${i}]: expected ${value}, got ${actual[i]}`);
+    }
+  });
+}
+
+// StockCharts' RSI example series, with Wilder's 14-period RSI worked out from it: the first
+// averages are a gain of 3.34 / 14 and a loss of 1.40 / 14, so RSI = 100 - 100 / (1 + 3.34 / 1.40)
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28,
+  46.28, 46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18,
+  44.22, 44.57, 43.42, 42.66, 43.13,
+];
+const RSI_14: Array<number | null> = [
+  ...new Array(14).fill(null),
+  70.4641, 66.2496, 66.4809, 69.3469, 66.2947, 57.915, 62.8807, 63.2088, 56.0116, 62.3399, 54.671,
+  50.3868, 40.0194, 41.4926, 41.9024, 45.4995, 37.3228, 33.0905, 37.7888,
+];
+
+// StockCharts' moving average example closes
+const CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29,
+  22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75, 23.83, 23.95, 23.63,
+];
+
+// Hand-worked bars for the range-based indicators: true ranges 2, 2, 1.6, 1.5, 1.4, 1.5, 1.6, 1.2, 1.4, 1.7, 1.4
+const BARS: PriceBar[] = [
+  { high: 10, low: 8, close: 9 },
+  { high: 11, low: 9, close: 10.5 },
+  { high: 12, low: 10, close: 11.5 },
+  { high: 11.8, low: 10.2, close: 10.4 },
+  { high: 10.6, low: 9.1, close: 9.5 },
+  { high: 10.2, low: 8.8, close: 10.1 },
+  { high: 11.4, low: 9.9, close: 11.2 },
+  { high: 12.6, low: 11, close: 12.4 },
+  { high: 12.9, low: 11.7, close: 11.9 },
+  { high: 12.2, low: 10.8, close: 11.0 },
+  { high: 11.3, low: 9.6, close: 9.8 },
+  { high: 10.4, low: 9.0, close: 10.2 },
+];
+
+test("RSI matches Wilder's reference values, with the first 14 bars warming up", () => {
+  assertSeries(indicatorCalculator.calculateRSI(RSI_CLOSES, 14), RSI_14, 1e-4, "rsi");
+});
+
+test("RSI is 100 when prices only rise", () => {
+  const rsi = indicatorCalculator.calculateRSI([1, 2, 3, 4, 5], 3);
+  assertSeries(rsi, [null, null, null, 100, 100], 0, "rsi");
+});
+
+test("SMA matches the StockCharts reference values", () => {
+  assertSeries(
+    indicatorCalculator.calculateSMA(CLOSES, 10),
+    [...new Array(9).fill(null), 22.22, 22.21, 22.23, 22.26, 22.30, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21],
+    0.005,
+    "sma"
+  );
+});
+
+test("Bollinger Bands use the population standard deviation around the SMA", () => {
+  const bands = indicatorCalculator.calculateBollingerBands(CLOSES, 5, 2);
+  const warmup = new Array(4).fill(null);
+  assertSeries(bands.middle, [...warmup, 22.178, 22.15, 22.158, 22.228, 22.242, 22.264, 22.268, 22.3, 22.29, 22.364, 22.578, 22.958, 23.23, 23.52, 23.788, 23.842], 1e-6, "middle");
+  assertSeries(bands.upper, [...warmup, 22.29893, 22.230994, 22.258717, 22.439811, 22.445725, 22.459796, 22.453213, 22.502386, 22.469332, 22.664293, 23.4124, 24.263949, 24.515799, 24.533351, 24.262367, 24.136591], 1e-5, "upper");
+  assertSeries(bands.lower, [...warmup, 22.05707, 22.069006, 22.057283, 22.016189, 22.038275, 22.068204, 22.082787, 22.097614, 22.110668, 22.063707, 21.7436, 21.652051, 21.944201, 22.506649, 23.313633, 23.547409], 1e-5, "lower");
+});
+
+test("MACD seeds each EMA with an SMA and starts the signal line on the first MACD value", () => {
+  const { macd, signal, histogram } = indicatorCalculator.calculateMACD(CLOSES, 3, 6, 3);
+  assertSeries(macd, [null, null, null, null, null, -0.01625, 0.004732, 0.054407, 0.023661, 0.020015, -0.014147, 0.027102, 0.035819, 0.083101, 0.24883, 0.420329, 0.357246, 0.300824, 0.263413, 0.14385], 1e-5, "macd");
+  assertSeries(signal, [null, null, null, null, null, null, null, 0.014296, 0.018979, 0.019497, 0.002675, 0.014889, 0.025354, 0.054228, 0.151529, 0.285929, 0.321588, 0.311206, 0.287309, 0.21558], 1e-5, "signal");
+  assertSeries(histogram, [null, null, null, null, null, null, null, 0.040111, 0.004682, 0.000518, -0.016822, 0.012214, 0.010465, 0.028874, 0.097301, 0.1344, 0.035659, -0.010382, -0.023897, -0.07173], 1e-5, "histogram");
+});
+
+test("true range uses the previous close, and the first bar has none", () => {
+  assertSeries(indicatorCalculator.calculateTrueRange(BARS), [null, 2, 2, 1.6, 1.5, 1.4, 1.5, 1.6, 1.2, 1.4, 1.7, 1.4], 1e-9, "tr");
+});
+
+test("ATR starts with the mean of the first true ranges, then uses Wilder's smoothing", () => {
+  // (2 + 2 + 1.6) / 3, then (1.866667 * 2 + 1.5) / 3, ...
+  assertSeries(
+    indicatorCalculator.calculateATR(BARS, 3),
+    [null, null, null, 1.866667, 1.744444, 1.62963, 1.58642, 1.590947, 1.460631, 1.440421, 1.526947, 1.484631],
+    1e-6,
+    "atr"
+  );
+});
+
+test("SuperTrend flips up when the close breaks the upper band and down when it breaks the lower one", () => {
+  const { values, direction } = indicatorCalculator.calculateSuperTrend(BARS, 3, 1);
+  assertSeries(values, [null, null, null, 12.866667, 11.594444, 11.12963, 9.133333, 10.209053, 10.839369, 10.839369, 11.976947, 11.184631], 1e-6, "supertrend");
+  assertSeries(direction, [null, null, null, -1, -1, -1, 1, 1, 1, 1, -1, -1], 0, "direction");
+});
+
+test("VWAP accumulates the typical price by volume and restarts each session", () => {
+  const bar = (iso: string, high: number, low: number, close: number, volume: number): VolumeBar => ({
+    timestamp: new Date(iso), high, low, close, volume,
+  });
+  const bars = [
+    bar("2024-01-02T04:00:00Z", 101, 99, 100, 0), // no volume traded yet
+    bar("2024-01-02T04:05:00Z", 103, 100, 102, 100), // typical 101.6667
+    bar("2024-01-02T04:10:00Z", 106, 102, 104, 300), // typical 104
+    bar("2024-01-02T19:00:00Z", 110, 107, 108, 200), // 00:30 IST on Jan 3: a new NSE session
+  ];
+
+  assertSeries(indicatorCalculator.calculateVWAP(bars), [null, 101.666667, 103.416667, 105.055556], 1e-6, "vwap utc");
+  assertSeries(indicatorCalculator.calculateVWAP(bars, 330), [null, 101.666667, 103.416667, 108.333333], 1e-6, "vwap ist");
+});
@@ -0,0 +1,873 @@
+import { movingAverageWarmup, type MovingAverageType } from "@shared/schema";
+import { emaCalculator } from "./ema-calculator";
+
+export interface PriceBar {
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface VolumeBar extends PriceBar {
+  volume: number;
+  timestamp: Date;
+}
+
+export interface MACDResult {
+  macd: number[];
+  signal: number[];
+  histogram: number[];
+}
+
+export interface BollingerBandsResult {
+  middle: number[];
+  upper: number[];
+  lower: number[];
+}
+
+export interface SuperTrendResult {
+  values: number[];
+  direction: number[]; // 1 while the trend is up (line below price), -1 while down, NaN during warm-up
+}
+
+export type IndicatorName = 'rsi' | 'macd' | 'bollinger' | 'atr' | 'vwap' | 'supertrend';
+
+export const INDICATOR_NAMES: IndicatorName[] = ['rsi', 'macd', 'bollinger', 'atr', 'vwap', 'supertrend'];
+
+// Optional settings; each indicator reads the ones it uses and defaults the rest
+export interface IndicatorParams {
+  period?: number;
+  fast?: number;
+  slow?: number;
+  signal?: number;
+  stdDevs?: number;
+  multiplier?: number;
+  utcOffsetMinutes?: number;
+}
+
+export interface IndicatorValidation {
+  valid: boolean;
+  details: string;
+}
+
+/**
+ * First index where two aligned series differ by more than the tolerance (NaN must match NaN), or -1
+ */
+function findMismatch(actual: number[], expected: number[], tolerance: number = 0.0001): number {
+  if (actual.length !== expected.length) return Math.min(actual.length, expected.length);
+  for (let i = 0; i < actual.length; i++) {
+    if (Number.isNaN(actual[i]) !== Number.isNaN(expected[i])) return i;
+    if (!Number.isNaN(expected[i]) && Math.abs(actual[i] - expected[i]) > tolerance) return i;
+  }
+  return -1;
+}
+
+/**
+ * Run a smoothing over the defined part of a series (from its first non-NaN value),
+ * keeping the result aligned with the input
+ */
+function applyToDefined(values: number[], smooth: (defined: number[]) => number[]): number[] {
+  const start = values.findIndex(v => !Number.isNaN(v));
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (start === -1) {
+    return result;
+  }
+  smooth(values.slice(start)).forEach((v, i) => {
+    result[start + i] = v;
+  });
+  return result;
+}
+
+/**
+ * Indicator library beyond EMA. Every series is aligned with its input: index i is the
+ * indicator value on bar i, and bars before the indicator has enough data are NaN.
+ *
+ * - Moving averages: SMA, WMA, Wilder's RMA, DEMA, TEMA and Hull (HMA), alongside the EMA in EMACalculator
+ * - RSI and ATR use Wilder's smoothing, seeded with the mean of the first `period` changes/ranges
+ * - MACD is EMA(fast) - EMA(slow), with an EMA of the MACD line as its signal
+ * - Bollinger Bands use the population standard deviation, as TradingView does
+ * - VWAP restarts every session (calendar day at the given UTC offset)
+ * - SuperTrend trails ATR bands around the bar midpoint and flips when the close crosses them
+ */
+export class IndicatorCalculator {
+  /**
+   * Calculate the Simple Moving Average of each `period`-bar window.
+   *
+   * @param data - Array of values, oldest first
+   * @param period - SMA period
+   * @returns Array of SMA values, same length as input
+   */
+  calculateSMA(data: number[], period: number): number[] {
+    if (period <= 0) {
+      throw new Error('SMA period must be greater than 0');
+    }
+
+    const values: number[] = new Array(data.length).fill(NaN);
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i];
+      if (i >= period) sum -= data[i - period];
+      if (i >= period - 1) values[i] = sum / period;
+    }
+    return values;
+  }
+
+  /**
+   * Calculate the Weighted Moving Average of each `period`-bar window,
+   * weighting the newest value `period` and the oldest 1.
+   *
+   * @param data - Array of values, oldest first
+   * @param period - WMA period
+   * @returns Array of WMA values, same length as input
+   */
+  calculateWMA(data: number[], period: number): number[] {
+    if (period <= 0) {
+      throw new Error('WMA period must be greater than 0');
+    }
+
+    const values: number[] = new Array(data.length).fill(NaN);
+    const divisor = (period * (period + 1)) / 2;
+    for (let i = period - 1; i < data.length; i++) {
+      let weighted = 0;
+      for (let j = 0; j < period; j++) {
+        weighted += data[i - j] * (period - j);
+      }
+      values[i] = weighted / divisor;
+    }
+    return values;
+  }
+
+  /**
+   * Calculate Wilder's moving average (RMA, or SMMA): an EMA with multiplier 1 / period,
+   * seeded with the SMA of the first `period` values. This is the smoothing RSI and ATR use.
+   *
+   * @param data - Array of values, oldest first
+   * @param period - RMA period
+   * @returns Array of RMA values, same length as input
+   */
+  calculateRMA(data: number[], period: number): number[] {
+    if (period <= 0) {
+      throw new Error('RMA period must be greater than 0');
+    }
+
+    const values: number[] = new Array(data.length).fill(NaN);
+    if (data.length < period) {
+      return values;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < period; i++) {
+      sum += data[i];
+    }
+    values[period - 1] = sum / period;
+
+    for (let i = period; i < data.length; i++) {
+      values[i] = (values[i - 1] * (period - 1) + data[i]) / period;
+    }
+    return values;
+  }
+
+  /**
+   * Calculate the Double EMA: 2 × EMA - EMA(EMA).
+   * The first 2 × (period - 1) values are NaN.
+   *
+   * @param data - Array of values, oldest first
+   * @param period - DEMA period
+   * @returns Array of DEMA values, same length as input
+   */
+  calculateDEMA(data: number[], period: number): number[] {
+    const ema1 = emaCalculator.calculateEMA(data, period);
+    const ema2 = applyToDefined(ema1, defined => emaCalculator.calculateEMA(defined, period));
+    return data.map((_, i) => 2 * ema1[i] - ema2[i]);
+  }
+
+  /**
+   * Calculate the Triple EMA: 3 × EMA - 3 × EMA(EMA) + EMA(EMA(EMA)).
+   * The first 3 × (period - 1) values are NaN.
+   *
+   * @param data - Array of values, oldest first
+   * @param period - TEMA period
+   * @returns Array of TEMA values, same length as input
+   */
+  calculateTEMA(data: number[], period: number): number[] {
+    const ema1 = emaCalculator.calculateEMA(data, period);
+    const ema2 = applyToDefined(ema1, defined => emaCalculator.calculateEMA(defined, period));
+    const ema3 = applyToDefined(ema2, defined => emaCalculator.calculateEMA(defined, period));
+    return data.map((_, i) => 3 * ema1[i] - 3 * ema2[i] + ema3[i]);
+  }
+
+  /**
+   * Calculate the Hull Moving Average: WMA(2 × WMA(period / 2) - WMA(period), √period),
+   * with both halves rounded down as TradingView does.
+   * The first period + floor(√period) - 2 values are NaN.
+   *
+   * @param data - Array of values, oldest first
+   * @param period - HMA period
+   * @returns Array of HMA values, same length as input
+   */
+  calculateHMA(data: number[], period: number): number[] {
+    if (period <= 0) {
+      throw new Error('HMA period must be greater than 0');
+    }
+
+    const half = this.calculateWMA(data, Math.max(1, Math.floor(period / 2)));
+    const full = this.calculateWMA(data, period);
+    const raw = data.map((_, i) => 2 * half[i] - full[i]);
+    return applyToDefined(raw, defined => this.calculateWMA(defined, Math.floor(Math.sqrt(period))));
+  }
+
+  /**
+   * Calculate a moving average by type
+   *
+   * @param data - Array of values, oldest first
+   * @param type - "ema", "sma", "wma", "rma", "dema", "tema" or "hma"
+   * @param period - Moving average period
+   * @returns Array of values, same length as input
+   */
+  calculateMovingAverage(data: number[], type: MovingAverageType, period: number): number[] {
+    switch (type) {
+      case 'sma': return this.calculateSMA(data, period);
+      case 'wma': return this.calculateWMA(data, period);
+      case 'rma': return this.calculateRMA(data, period);
+      case 'dema': return this.calculateDEMA(data, period);
+      case 'tema': return this.calculateTEMA(data, period);
+      case 'hma': return this.calculateHMA(data, period);
+      default: return emaCalculator.calculateEMA(data, period);
+    }
+  }
+
+  /**
+   * Calculate Wilder's Relative Strength Index (0-100).
+   * The first `period` values are NaN: RSI needs `period` price changes.
+   *
+   * @param data - Array of closing prices
+   * @param period - RSI period (e.g., 14)
+   * @returns Array of RSI values, same length as input
+   */
+  calculateRSI(data: number[], period: number = 14): number[] {
+    if (period <= 0) {
+      throw new Error('RSI period must be greater than 0');
+    }
+
+    const values: number[] = new Array(data.length).fill(NaN);
+    if (data.length <= period) {
+      return values;
+    }
+
+    let avgGain = 0;
+    let avgLoss = 0;
+    for (let i = 1; i <= period; i++) {
+      const change = data[i] - data[i - 1];
+      if (change > 0) avgGain += change;
+      else avgLoss -= change;
+    }
+    avgGain /= period;
+    avgLoss /= period;
+
+    const rsi = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+    values[period] = rsi();
+
+    for (let i = period + 1; i < data.length; i++) {
+      const change = data[i] - data[i - 1];
+      avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+      avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+      values[i] = rsi();
+    }
+
+    return values;
+  }
+
+  /**
+   * Calculate MACD: the MACD line, its signal line and the histogram between them.
+   * The MACD line starts at index slow - 1, the signal and histogram `signal - 1` bars later.
+   *
+   * @param data - Array of closing prices
+   * @param fast - Fast EMA period (default 12)
+   * @param slow - Slow EMA period (default 26)
+   * @param signal - Signal EMA period (default 9)
+   * @returns MACD, signal and histogram arrays, same length as input
+   */
+  calculateMACD(data: number[], fast: number = 12, slow: number = 26, signal: number = 9): MACDResult {
+    if (fast >= slow) {
+      throw new Error('MACD fast period must be shorter than the slow period');
+    }
+
+    const fastEMA = emaCalculator.calculateEMA(data, fast);
+    const slowEMA = emaCalculator.calculateEMA(data, slow);
+    const macd = data.map((_, i) => fastEMA[i] - slowEMA[i]);
+
+    // The signal is an EMA of the defined part of the MACD line
+    const start = slow - 1;
+    const signalValues: number[] = new Array(data.length).fill(NaN);
+    if (data.length > start) {
+      const signalEMA = emaCalculator.calculateEMA(macd.slice(start), signal);
+      signalEMA.forEach((value, i) => {
+        signalValues[start + i] = value;
+      });
+    }
+
+    return {
+      macd,
+      signal: signalValues,
+      histogram: macd.map((value, i) => value - signalValues[i]),
+    };
+  }
+
+  /**
+   * Calculate Bollinger Bands: an SMA with bands `stdDevs` standard deviations above and below.
+   *
+   * @param data - Array of closing prices
+   * @param period - Window length (default 20)
+   * @param stdDevs - Band width in standard deviations (default 2)
+   * @returns Middle, upper and lower band arrays, same length as input
+   */
+  calculateBollingerBands(data: number[], period: number = 20, stdDevs: number = 2): BollingerBandsResult {
+    const middle = this.calculateSMA(data, period);
+    const upper: number[] = new Array(data.length).fill(NaN);
+    const lower: number[] = new Array(data.length).fill(NaN);
+
+    for (let i = period - 1; i < data.length; i++) {
+      let variance = 0;
+      for (let j = i - period + 1; j <= i; j++) {
+        variance += (data[j] - middle[i]) ** 2;
+      }
+      const deviation = Math.sqrt(variance / period);
+      upper[i] = middle[i] + stdDevs * deviation;
+      lower[i] = middle[i] - stdDevs * deviation;
+    }
+
+    return { middle, upper, lower };
+  }
+
+  /**
+   * Calculate the true range of each bar. The first bar has no previous close, so it is NaN.
+   *
+   * @param bars - Candles with high, low and close, oldest first
+   * @returns Array of true ranges, same length as input
+   */
+  calculateTrueRange(bars: PriceBar[]): number[] {
+    return bars.map((bar, i) => {
+      if (i === 0) return NaN;
+      const previousClose = bars[i - 1].close;
+      return Math.max(
+        bar.high - bar.low,
+        Math.abs(bar.high - previousClose),
+        Math.abs(bar.low - previousClose)
+      );
+    });
+  }
+
+  /**
+   * Calculate Wilder's Average True Range.
+   * The first value, at index `period`, is the mean of the first `period` true ranges.
+   *
+   * @param bars - Candles with high, low and close, oldest first
+   * @param period - ATR period (default 14)
+   * @returns Array of ATR values, same length as input
+   */
+  calculateATR(bars: PriceBar[], period: number = 14): number[] {
+    if (period <= 0) {
+      throw new Error('ATR period must be greater than 0');
+    }
+
+    const trueRanges = this.calculateTrueRange(bars);
+    const values: number[] = new Array(bars.length).fill(NaN);
+    if (bars.length <= period) {
+      return values;
+    }
+
+    let atr = 0;
+    for (let i = 1; i <= period; i++) {
+      atr += trueRanges[i];
+    }
+    atr /= period;
+    values[period] = atr;
+
+    for (let i = period + 1; i < bars.length; i++) {
+      atr = (atr * (period - 1) + trueRanges[i]) / period;
+      values[i] = atr;
+    }
+
+    return values;
+  }
+
+  /**
+   * Calculate the session Volume Weighted Average Price of the typical price (high + low + close) / 3.
+   * The running totals restart on the first bar of each session. Bars before any volume trades are NaN.
+   *
+   * @param bars - Candles with volume and timestamp, oldest first
+   * @param utcOffsetMinutes - Offset of the session's local day from UTC (330 for NSE, 0 for forex)
+   * @returns Array of VWAP values, same length as input
+   */
+  calculateVWAP(bars: VolumeBar[], utcOffsetMinutes: number = 0): number[] {
+    const values: number[] = new Array(bars.length).fill(NaN);
+    let session = '';
+    let priceVolume = 0;
+    let volume = 0;
+
+    bars.forEach((bar, i) => {
+      const day = new Date(bar.timestamp.getTime() + utcOffsetMinutes * 60 * 1000).toISOString().slice(0, 10);
+      if (day !== session) {
+        session = day;
+        priceVolume = 0;
+        volume = 0;
+      }
+      priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+      volume += bar.volume;
+      if (volume > 0) values[i] = priceVolume / volume;
+    });
+
+    return values;
+  }
+
+  /**
+   * Calculate SuperTrend: bands `multiplier` ATRs above and below (high + low) / 2 that only move
+   * towards price, with the trend flipping when the close crosses the active band.
+   *
+   * @param bars - Candles with high, low and close, oldest first
+   * @param period - ATR period (default 10)
+   * @param multiplier - Band distance in ATRs (default 3)
+   * @returns SuperTrend line and trend direction, same length as input
+   */
+  calculateSuperTrend(bars: PriceBar[], period: number = 10, multiplier: number = 3): SuperTrendResult {
+    const atr = this.calculateATR(bars, period);
+    const values: number[] = new Array(bars.length).fill(NaN);
+    const direction: number[] = new Array(bars.length).fill(NaN);
+
+    let upper = NaN;
+    let lower = NaN;
+    let trend = -1;
+
+    for (let i = period; i < bars.length; i++) {
+      const bar = bars[i];
+      const mid = (bar.high + bar.low) / 2;
+      const basicUpper = mid + multiplier * atr[i];
+      const basicLower = mid - multiplier * atr[i];
+      const previousClose = bars[i - 1].close;
+
+      // A band only tightens, unless the previous close broke through it
+      upper = Number.isNaN(upper) || basicUpper < upper || previousClose > upper ? basicUpper : upper;
+      lower = Number.isNaN(lower) || basicLower > lower || previousClose < lower ? basicLower : lower;
+
+      if (trend === -1 && bar.close > upper) trend = 1;
+      else if (trend === 1 && bar.close < lower) trend = -1;
+
+      values[i] = trend === 1 ? lower : upper;
+      direction[i] = trend;
+    }
+
+    return { values, direction };
+  }
+
+  /**
+   * Calculate an indicator by name, returning each of its series keyed by name
+   * (e.g. { macd, signal, histogram }). RSI, MACD and Bollinger Bands read the closes.
+   *
+   * @param indicator - Indicator to calculate
+   * @param bars - Candles, oldest first
+   * @param params - Indicator settings
+   * @returns Named series, each the same length as the input
+   */
+  calculate(indicator: IndicatorName, bars: VolumeBar[], params: IndicatorParams = {}): Record<string, number[]> {
+    const closes = bars.map(bar => bar.close);
+
+    switch (indicator) {
+      case 'rsi':
+        return { rsi: this.calculateRSI(closes, params.period) };
+      case 'macd':
+        return { ...this.calculateMACD(closes, params.fast, params.slow, params.signal) };
+      case 'bollinger':
+        return { ...this.calculateBollingerBands(closes, params.period, params.stdDevs) };
+      case 'atr':
+        return { atr: this.calculateATR(bars, params.period) };
+      case 'vwap':
+        return { vwap: this.calculateVWAP(bars, params.utcOffsetMinutes) };
+      case 'supertrend':
+        return { ...this.calculateSuperTrend(bars, params.period, params.multiplier) };
+      default:
+        throw new Error(`Unknown indicator: ${indicator}`);
+    }
+  }
+
+  /**
+   * Validate an indicator's calculation by name. See the validate*Calculation methods.
+   *
+   * @param indicator - Indicator to validate
+   * @param bars - Test candles
+   * @param params - Indicator settings
+   * @returns Validation result with details
+   */
+  validate(indicator: IndicatorName, bars: VolumeBar[], params: IndicatorParams = {}): IndicatorValidation {
+    const closes = bars.map(bar => bar.close);
+
+    switch (indicator) {
+      case 'rsi': return this.validateRSICalculation(closes, params.period);
+      case 'macd': return this.validateMACDCalculation(closes, params.fast, params.slow, params.signal);
+      case 'bollinger': return this.validateBollingerBandsCalculation(closes, params.period, params.stdDevs);
+      case 'atr': return this.validateATRCalculation(bars, params.period);
+      case 'vwap': return this.validateVWAPCalculation(bars, params.utcOffsetMinutes);
+      case 'supertrend': return this.validateSuperTrendCalculation(bars, params.period, params.multiplier);
+      default: return { valid: false, details: `Unknown indicator: ${indicator}` };
+    }
+  }
+
+  /**
+   * Validate a moving average against its definition: the warm-up is NaN for exactly
+   * `movingAverageWarmup(type, period) - 1` values, and each value is recomputed directly
+   * from its window (SMA, WMA), recursion (EMA, RMA) or component EMAs/WMAs (DEMA, TEMA, HMA).
+   * Used for testing and verification.
+   *
+   * @param data - Test data array
+   * @param type - Moving average type
+   * @param period - Moving average period
+   * @returns Validation result with details
+   */
+  validateMovingAverageCalculation(data: number[], type: MovingAverageType, period: number): IndicatorValidation {
+    try {
+      const name = type.toUpperCase();
+      const values = this.calculateMovingAverage(data, type, period);
+
+      if (values.length !== data.length) {
+        return { valid: false, details: `${name} array length mismatch` };
+      }
+
+      const warmup = Math.min(movingAverageWarmup(type, period) - 1, data.length);
+      for (let i = 0; i < warmup; i++) {
+        if (!Number.isNaN(values[i])) {
+          return { valid: false, details: `Expected NaN at index ${i}` };
+        }
+      }
+
+      // Weighted mean of the `length` values ending at index i (weights oldest to newest), NaN if any is missing
+      const windowMean = (series: number[], i: number, length: number, weight: (j: number) => number) => {
+        if (i < length - 1) return NaN;
+        let total = 0;
+        let weights = 0;
+        for (let j = 0; j < length; j++) {
+          total += series[i - length + 1 + j] * weight(j);
+          weights += weight(j);
+        }
+        return total / weights;
+      };
+      const sma = (series: number[], length: number) => series.map((_, i) => windowMean(series, i, length, () => 1));
+      const wma = (series: number[], length: number) => series.map((_, i) => windowMean(series, i, length, j => j + 1));
+      // Recursive smoothing with the given multiplier, seeded with the SMA of the first `length` defined values
+      const smooth = (series: number[], length: number, multiplier: number) => {
+        const start = series.findIndex(v => !Number.isNaN(v));
+        const result: number[] = new Array(series.length).fill(NaN);
+        if (start === -1) return result;
+        const seed = start + length - 1;
+        if (seed >= series.length) return result;
+        result[seed] = windowMean(series, seed, length, () => 1);
+        for (let i = seed + 1; i < series.length; i++) {
+          result[i] = result[i - 1] + multiplier * (series[i] - result[i - 1]);
+        }
+        return result;
+      };
+      const ema = (series: number[]) => smooth(series, period, 2 / (period + 1));
+
+      let expected: number[];
+      switch (type) {
+        case 'sma': expected = sma(data, period); break;
+        case 'wma': expected = wma(data, period); break;
+        case 'rma': expected = smooth(data, period, 1 / period); break;
+        case 'dema': {
+          const ema1 = ema(data);
+          const ema2 = ema(ema1);
+          expected = data.map((_, i) => 2 * ema1[i] - ema2[i]);
+          break;
+        }
+        case 'tema': {
+          const ema1 = ema(data);
+          const ema2 = ema(ema1);
+          const ema3 = ema(ema2);
+          expected = data.map((_, i) => 3 * ema1[i] - 3 * ema2[i] + ema3[i]);
+          break;
+        }
+        case 'hma': {
+          const half = wma(data, Math.max(1, Math.floor(period / 2)));
+          const full = wma(data, period);
+          const raw = data.map((_, i) => 2 * half[i] - full[i]);
+          const start = raw.findIndex(v => !Number.isNaN(v));
+          const sqrtLength = Math.floor(Math.sqrt(period));
+          expected = raw.map((_, i) => (start === -1 || i < start ? NaN : windowMean(raw, i, sqrtLength, j => j + 1)));
+          break;
+        }
+        default: expected = ema(data);
+      }
+
+      const mismatch = findMismatch(values, expected);
+      if (mismatch !== -1) {
+        return { valid: false, details: `${name} formula incorrect at index ${mismatch}` };
+      }
+
+      return { valid: true, details: `${name} calculation verified successfully` };
+    } catch (error) {
+      return { valid: false, details: `Validation error: ${error}` };
+    }
+  }
+
+  /**
+   * Validate that the RSI calculation matches Wilder's definition.
+   * Used for testing and verification.
+   *
+   * @param data - Test data array
+   * @param period - RSI period
+   * @returns Validation result with details
+   */
+  validateRSICalculation(data: number[], period: number = 14): IndicatorValidation {
+    try {
+      const rsiValues = this.calculateRSI(data, period);
+
+      if (rsiValues.length !== data.length) {
+        return { valid: false, details: 'RSI array length mismatch' };
+      }
+
+      // Recompute from the smoothed gain/loss definition: RSI = 100 * avgGain / (avgGain + avgLoss)
+      const expected: number[] = new Array(data.length).fill(NaN);
+      let avgGain = 0;
+      let avgLoss = 0;
+      for (let i = 1; i < data.length; i++) {
+        const gain = Math.max(data[i] - data[i - 1], 0);
+        const loss = Math.max(data[i - 1] - data[i], 0);
+        if (i <= period) {
+          avgGain += gain / period;
+          avgLoss += loss / period;
+        } else {
+          avgGain += (gain - avgGain) / period;
+          avgLoss += (loss - avgLoss) / period;
+        }
+        if (i >= period) {
+          expected[i] = avgGain + avgLoss === 0 ? 100 : (100 * avgGain) / (avgGain + avgLoss);
+        }
+      }
+
+      const mismatch = findMismatch(rsiValues, expected);
+      if (mismatch !== -1) {
+        return { valid: false, details: `RSI formula incorrect at index ${mismatch}` };
+      }
+      if (rsiValues.some(v => v < 0 || v > 100)) {
+        return { valid: false, details: 'RSI outside 0-100' };
+      }
+
+      return { valid: true, details: 'RSI calculation verified successfully' };
+    } catch (error) {
+      return { valid: false, details: `Validation error: ${error}` };
+    }
+  }
+
+  /**
+   * Validate that MACD, signal and histogram are consistent with their EMAs.
+   * Used for testing and verification.
+   *
+   * @param data - Test data array
+   * @returns Validation result with details
+   */
+  validateMACDCalculation(data: number[], fast: number = 12, slow: number = 26, signal: number = 9): IndicatorValidation {
+    try {
+      const result = this.calculateMACD(data, fast, slow, signal);
+      const fastEMA = emaCalculator.calculateEMA(data, fast);
+      const slowEMA = emaCalculator.calculateEMA(data, slow);
+
+      let mismatch = findMismatch(result.macd, data.map((_, i) => fastEMA[i] - slowEMA[i]));
+      if (mismatch !== -1) {
+        return { valid: false, details: `MACD line incorrect at index ${mismatch}` };
+      }
+
+      // Signal: seeded with the SMA of the first `signal` MACD values, then the EMA recursion
+      const multiplier = 2 / (signal + 1);
+      const first = slow - 1 + signal - 1;
+      for (let i = 0; i < data.length; i++) {
+        let expected = NaN;
+        if (i === first) {
+          expected = result.macd.slice(slow - 1, first + 1).reduce((a, b) => a + b, 0) / signal;
+        } else if (i > first) {
+          expected = (result.macd[i] - result.signal[i - 1]) * multiplier + result.signal[i - 1];
+        }
+        if (findMismatch([result.signal[i]], [expected]) !== -1) {
+          return { valid: false, details: `MACD signal incorrect at index ${i}` };
+        }
+      }
+
+      mismatch = findMismatch(result.histogram, result.macd.map((v, i) => v - result.signal[i]));
+      if (mismatch !== -1) {
+        return { valid: false, details: `MACD histogram incorrect at index ${mismatch}` };
+      }
+
+      return { valid: true, details: 'MACD calculation verified successfully' };
+    } catch (error) {
+      return { valid: false, details: `Validation error: ${error}` };
+    }
+  }
+
+  /**
+   * Validate that Bollinger Bands sit `stdDevs` population standard deviations around the SMA.
+   * Used for testing and verification.
+   *
+   * @param data - Test data array
+   * @param period - Window length
+   * @param stdDevs - Band width in standard deviations
+   * @returns Validation result with details
+   */
+  validateBollingerBandsCalculation(data: number[], period: number = 20, stdDevs: number = 2): IndicatorValidation {
+    try {
+      const bands = this.calculateBollingerBands(data, period, stdDevs);
+
+      for (let i = 0; i < data.length; i++) {
+        if (i < period - 1) {
+          if (!Number.isNaN(bands.middle[i]) || !Number.isNaN(bands.upper[i])) {
+            return { valid: false, details: `Expected NaN at index ${i}` };
+          }
+          continue;
+        }
+
+        const window = data.slice(i - period + 1, i + 1);
+        const mean = window.reduce((a, b) => a + b, 0) / period;
+        const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+        const mismatch = findMismatch(
+          [bands.middle[i], bands.upper[i], bands.lower[i]],
+          [mean, mean + stdDevs * deviation, mean - stdDevs * deviation]
+        );
+        if (mismatch !== -1) {
+          return { valid: false, details: `Bollinger ${['middle', 'upper', 'lower'][mismatch]} band incorrect at index ${i}` };
+        }
+      }
+
+      return { valid: true, details: 'Bollinger Bands calculation verified successfully' };
+    } catch (error) {
+      return { valid: false, details: `Validation error: ${error}` };
+    }
+  }
+
+  /**
+   * Validate that the ATR calculation matches Wilder's definition.
+   * Used for testing and verification.
+   *
+   * @param bars - Test candles
+   * @param period - ATR period
+   * @returns Validation result with details
+   */
+  validateATRCalculation(bars: PriceBar[], period: number = 14): IndicatorValidation {
+    try {
+      const atrValues = this.calculateATR(bars, period);
+      const trueRanges = this.calculateTrueRange(bars);
+
+      for (let i = 1; i < bars.length; i++) {
+        const { high, low } = bars[i];
+        const previousClose = bars[i - 1].close;
+        if (trueRanges[i] < high - low || (trueRanges[i] !== high - low &&
+            trueRanges[i] !== Math.abs(high - previousClose) && trueRanges[i] !== Math.abs(low - previousClose))) {
+          return { valid: false, details: `True range incorrect at index ${i}` };
+        }
+      }
+
+      for (let i = 0; i < bars.length; i++) {
+        let expected = NaN;
+        if (i === period) {
+          expected = trueRanges.slice(1, period + 1).reduce((a, b) => a + b, 0) / period;
+        } else if (i > period) {
+          expected = atrValues[i - 1] + (trueRanges[i] - atrValues[i - 1]) / period;
+        }
+        if (findMismatch([atrValues[i]], [expected]) !== -1) {
+          return { valid: false, details: `ATR formula incorrect at index ${i}` };
+        }
+      }
+
+      return { valid: true, details: 'ATR calculation verified successfully' };
+    } catch (error) {
+      return { valid: false, details: `Validation error: ${error}` };
+    }
+  }
+
+  /**
+   * Validate that VWAP equals the session's volume weighted typical price and stays within its range.
+   * Used for testing and verification.
+   *
+   * @param bars - Test candles with volume and timestamp
+   * @param utcOffsetMinutes - Session day offset from UTC
+   * @returns Validation result with details
+   */
+  validateVWAPCalculation(bars: VolumeBar[], utcOffsetMinutes: number = 0): IndicatorValidation {
+    try {
+      const vwapValues = this.calculateVWAP(bars, utcOffsetMinutes);
+      const sessionOf = (bar: VolumeBar) =>
+        new Date(bar.timestamp.getTime() + utcOffsetMinutes * 60 * 1000).toISOString().slice(0, 10);
+
+      for (let i = 0; i < bars.length; i++) {
+        let start = i;
+        while (start > 0 && sessionOf(bars[start - 1]) === sessionOf(bars[i])) start--;
+        const session = bars.slice(start, i + 1);
+        const volume = session.reduce((sum, bar) => sum + bar.volume, 0);
+        const expected = volume > 0
+          ? session.reduce((sum, bar) => sum + ((bar.high + bar.low + bar.close) / 3) * bar.volume, 0) / volume
+          : NaN;
+
+        if (findMismatch([vwapValues[i]], [expected]) !== -1) {
+          return { valid: false, details: `VWAP incorrect at index ${i}` };
+        }
+        if (!Number.isNaN(expected)) {
+          const low = Math.min(...session.map(bar => bar.low));
+          const high = Math.max(...session.map(bar => bar.high));
+          if (vwapValues[i] < low - 0.0001 || vwapValues[i] > high + 0.0001) {
+            return { valid: false, details: `VWAP outside the session range at index ${i}` };
+          }
+        }
+      }
+
+      return { valid: true, details: 'VWAP calculation verified successfully' };
+    } catch (error) {
+      return { valid: false, details: `Validation error: ${error}` };
+    }
+  }
+
+  /**
+   * Validate SuperTrend against its band rules, checked bar by bar from the ATR: each band moves
+   * only towards price until a close breaks it, and the line follows the band on the trend's side.
+   * Used for testing and verification.
+   *
+   * @param bars - Test candles
+   * @param period - ATR period
+   * @param multiplier - Band distance in ATRs
+   * @returns Validation result with details
+   */
+  validateSuperTrendCalculation(bars: PriceBar[], period: number = 10, multiplier: number = 3): IndicatorValidation {
+    try {
+      const { values, direction } = this.calculateSuperTrend(bars, period, multiplier);
+      const atr = this.calculateATR(bars, period);
+
+      for (let i = 0; i < Math.min(period, bars.length); i++) {
+        if (!Number.isNaN(values[i]) || !Number.isNaN(direction[i])) {
+          return { valid: false, details: `Expected NaN at index ${i}` };
+        }
+      }
+
+      let upper = NaN;
+      let lower = NaN;
+      for (let i = period; i < bars.length; i++) {
+        const mid = (bars[i].high + bars[i].low) / 2;
+        const basicUpper = mid + multiplier * atr[i];
+        const basicLower = mid - multiplier * atr[i];
+        const brokeUpper = bars[i - 1].close > upper;
+        const brokeLower = bars[i - 1].close < lower;
+        upper = i === period || brokeUpper ? basicUpper : Math.min(basicUpper, upper);
+        lower = i === period || brokeLower ? basicLower : Math.max(basicLower, lower);
+
+        const previous = i === period ? -1 : direction[i - 1];
+        const expectedDirection = previous === -1
+          ? (bars[i].close > upper ? 1 : -1)
+          : (bars[i].close < lower ? -1 : 1);
+        if (direction[i] !== expectedDirection) {
+          return { valid: false, details: `SuperTrend direction incorrect at index ${i}` };
+        }
+        if (findMismatch([values[i]], [direction[i] === 1 ? lower : upper]) !== -1) {
+          return { valid: false, details: `SuperTrend line incorrect at index ${i}` };
+        }
+      }
+
+      return { valid: true, details: 'SuperTrend calculation verified successfully' };
+    } catch (error) {
+      return { valid: false, details: `Validation error: ${error}` };
+    }
+  }
+}
+
+export const indicatorCalculator = new IndicatorCalculator();
@@ -106,9 +106,8 @@ export class MarketDataGenerator {
 
     const signals = await signalDetector.detectSignals(marketData);
 
-    for (const signal of signals) {
-      const createdSignal = await storage.createSignal(signal);
-      console.log(`Signal generated: ${signal.type} for asset ${assetId} on ${timeframe}`);
+    for (const createdSignal of await signalDetector.saveSignals(signals)) {
+      console.log(`Signal generated: ${createdSignal.type} for asset ${assetId} on ${timeframe}`);
       
       if (this.broadcastCallback) {
         this.broadcastCallback(createdSignal);
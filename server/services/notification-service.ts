@@ -1,5 +1,5 @@
 import nodemailer from 'nodemailer';
-import type { NotificationConfig, Signal, Asset, Strategy } from "@shared/schema";
+import { getSignalIndicators, getSignalStrength, type NotificationConfig, type Signal, type Asset, type Strategy, type SignalDirection } from "@shared/schema";
 
 export interface NotificationPayload {
   signal: Signal;
@@ -21,17 +21,40 @@ export interface INotificationChannel {
   validateConfig(config: Record<string, any>): { valid: boolean; errors: string[] };
 }
 
+const DIRECTION_STYLES: Record<SignalDirection, { emoji: string; label: string; color: string; gradient: string }> = {
+  long: { emoji: '🟢', label: 'LONG', color: '#10b981', gradient: 'linear-gradient(135deg, #10b981, #059669)' },
+  short: { emoji: '🔴', label: 'SHORT', color: '#ef4444', gradient: 'linear-gradient(135deg, #ef4444, #dc2626)' },
+  neutral: { emoji: '⚪', label: 'NEUTRAL', color: '#64748b', gradient: 'linear-gradient(135deg, #64748b, #475569)' },
+};
+
+/**
+ * Emoji, label and colours for a signal's direction
+ */
+function getDirectionStyle(signal: Signal) {
+  return DIRECTION_STYLES[signal.direction as SignalDirection] ?? DIRECTION_STYLES.neutral;
+}
+
+/**
+ * Strength line for messages, e.g. "Strength: 72/100", or empty for signals without one
+ */
+function formatStrength(signal: Signal): string {
+  const strength = getSignalStrength(signal);
+  return strength ? `Strength: ${strength.score}/100` : '';
+}
+
 /**
  * Format signal data for notifications
  */
 function formatSignalMessage(payload: NotificationPayload): { subject: string; text: string; html: string } {
   const { signal, asset, strategy } = payload;
   const signalTypeDisplay = signal.type.replace(/_/g, ' ').toUpperCase();
-  const isBullish = signal.type.includes('bullish') || signal.type.includes('reversal') || signal.type.includes('above');
-  const emoji = isBullish ? '🟢' : '🔴';
-  const direction = isBullish ? 'BULLISH' : 'BEARISH';
+  const style = getDirectionStyle(signal);
+  const emoji = style.emoji;
+  const direction = style.label;
+  const strength = formatStrength(signal);
 
   const subject = `${emoji} ${direction} Signal: ${asset.symbol} - ${strategy.name}`;
+  const indicators = Object.entries(getSignalIndicators(signal));
 
   const text = `
 Trading Signal Alert
@@ -41,11 +64,11 @@ Asset: ${asset.symbol} (${asset.name})
 Exchange: ${asset.exchange || 'N/A'}
 Strategy: ${strategy.name}
 Signal Type: ${signalTypeDisplay}
-Timeframe: ${signal.timeframe}
+Direction: ${direction}
+Timeframe: ${signal.timeframe}${strength ? `\n${strength}` : ''}
 
 Current Price: ${signal.price.toFixed(4)}
-EMA 50: ${signal.ema50.toFixed(4)}
-EMA 200: ${signal.ema200.toFixed(4)}
+${indicators.map(([label, value]) => `${label}: ${value.toFixed(4)}`).join('\n')}
 
 Time: ${new Date(signal.createdAt).toLocaleString()}
 
@@ -62,7 +85,7 @@ SignalPro - Professional Trading Signals
   <style>
     body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif; background: #f4f4f5; margin: 0; padding: 20px; }
     .container { max-width: 600px; margin: 0 auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
-    .header { background: ${isBullish ? 'linear-gradient(135deg, #10b981, #059669)' : 'linear-gradient(135deg, #ef4444, #dc2626)'}; color: white; padding: 24px; }
+    .header { background: ${style.gradient}; color: white; padding: 24px; }
     .header h1 { margin: 0; font-size: 24px; }
     .header .badge { display: inline-block; background: rgba(255,255,255,0.2); padding: 4px 12px; border-radius: 20px; font-size: 12px; margin-top: 8px; }
     .content { padding: 24px; }
@@ -73,7 +96,7 @@ SignalPro - Professional Trading Signals
     .data-item { text-align: center; padding: 16px; background: #f8fafc; border-radius: 8px; }
     .data-item .label { font-size: 12px; color: #64748b; margin-bottom: 4px; }
     .data-item .value { font-size: 18px; font-weight: 600; color: #1e293b; font-family: 'SF Mono', 'Monaco', monospace; }
-    .strategy-info { border-left: 4px solid ${isBullish ? '#10b981' : '#ef4444'}; padding-left: 16px; margin-bottom: 20px; }
+    .strategy-info { border-left: 4px solid ${style.color}; padding-left: 16px; margin-bottom: 20px; }
     .strategy-info .label { font-size: 12px; color: #64748b; }
     .strategy-info .name { font-size: 16px; font-weight: 600; color: #1e293b; }
     .footer { background: #f8fafc; padding: 16px 24px; text-align: center; color: #64748b; font-size: 12px; }
@@ -95,14 +118,10 @@ SignalPro - Professional Trading Signals
           <div class="label">Current Price</div>
           <div class="value">${signal.price.toFixed(4)}</div>
         </div>
-        <div class="data-item">
-          <div class="label">EMA 50</div>
-          <div class="value">${signal.ema50.toFixed(4)}</div>
-        </div>
-        <div class="data-item">
-          <div class="label">EMA 200</div>
-          <div class="value">${signal.ema200.toFixed(4)}</div>
-        </div>
+${indicators.map(([label, value]) => `        <div class="data-item">
+          <div class="label">${label}</div>
+          <div class="value">${value.toFixed(4)}</div>
+        </div>`).join('\n')}
       </div>
       <div class="strategy-info">
         <div class="label">Strategy</div>
@@ -110,6 +129,7 @@ SignalPro - Professional Trading Signals
       </div>
       <p style="color: #64748b; font-size: 14px; margin: 0;">
         Signal Type: <strong>${signalTypeDisplay}</strong><br>
+        ${strength ? `${strength}<br>` : ''}
         Generated at: ${new Date(signal.createdAt).toLocaleString()}
       </p>
     </div>
@@ -289,10 +309,13 @@ export class SMSChannel implements INotificationChannel {
 
     try {
       const { signal, asset, strategy } = payload;
-      const isBullish = signal.type.includes('bullish') || signal.type.includes('reversal');
-      const emoji = isBullish ? '🟢' : '🔴';
-      
-      const message = `${emoji} SignalPro Alert\n${asset.symbol}: ${strategy.name}\nPrice: ${signal.price.toFixed(4)}\nEMA50: ${signal.ema50.toFixed(4)}\nEMA200: ${signal.ema200.toFixed(4)}`;
+      const { emoji, label } = getDirectionStyle(signal);
+      const strength = formatStrength(signal);
+
+      const indicators = Object.entries(getSignalIndicators(signal))
+        .map(([label, value]) => `\n${label}: ${value.toFixed(4)}`)
+        .join('');
+      const message = `${emoji} SignalPro ${label} Alert\n${asset.symbol}: ${strategy.name}\nPrice: ${signal.price.toFixed(4)}${indicators}${strength ? `\n${strength}` : ''}`;
 
       const phoneNumbers = Array.isArray(config.phoneNumbers) ? config.phoneNumbers : [config.phoneNumbers];
       const auth = Buffer.from(`${config.twilioAccountSid}:${config.twilioAuthToken}`).toString('base64');
@@ -422,17 +445,20 @@ export class DiscordChannel implements INotificationChannel {
 
     try {
       const { signal, asset, strategy } = payload;
-      const isBullish = signal.type.includes('bullish') || signal.type.includes('reversal') || signal.type.includes('above');
-      const color = isBullish ? 0x10b981 : 0xef4444;
+      const style = getDirectionStyle(signal);
+      const color = parseInt(style.color.slice(1), 16);
+      const strength = getSignalStrength(signal);
 
       const embed = {
-        title: `${isBullish ? '🟢' : '🔴'} ${asset.symbol} - ${strategy.name}`,
+        title: `${style.emoji} ${style.label} ${asset.symbol} - ${strategy.name}`,
         description: `**${signal.type.replace(/_/g, ' ').toUpperCase()}**`,
         color,
         fields: [
           { name: '💰 Price', value: signal.price.toFixed(4), inline: true },
-          { name: '📊 EMA 50', value: signal.ema50.toFixed(4), inline: true },
-          { name: '📈 EMA 200', value: signal.ema200.toFixed(4), inline: true },
+          ...Object.entries(getSignalIndicators(signal)).map(([label, value]) => (
+            { name: `📊 ${label}`, value: value.toFixed(4), inline: true }
+          )),
+          ...(strength ? [{ name: '💪 Strength', value: `${strength.score}/100`, inline: true }] : []),
           { name: '⏱️ Timeframe', value: signal.timeframe, inline: true },
           { name: '🏦 Exchange', value: asset.exchange || 'N/A', inline: true },
           { name: '📋 Type', value: asset.type, inline: true },
@@ -554,18 +580,22 @@ export class TelegramChannel implements INotificationChannel {
 
     try {
       const { signal, asset, strategy } = payload;
-      const isBullish = signal.type.includes('bullish') || signal.type.includes('reversal') || signal.type.includes('above');
-      const emoji = isBullish ? '🟢' : '🔴';
+      const { emoji, label } = getDirectionStyle(signal);
+      const strength = getSignalStrength(signal);
+      // Underscores in labels like fast_ma[1] would start Markdown italics
+      const indicators = Object.entries(getSignalIndicators(signal))
+        .map(([label, value]) => `📈 *${label.replace(/_/g, '\\_')}:* \`${value.toFixed(4)}\``)
+        .join('\n');
 
       const message = `
 ${emoji} *${asset.symbol}* - ${strategy.name}
 
 📊 *Signal:* ${signal.type.replace(/_/g, ' ').toUpperCase()}
+🧭 *Direction:* ${label}${strength ? `\n💪 *Strength:* ${strength.score}/100` : ''}
 ⏱ *Timeframe:* ${signal.timeframe}
 
 💰 *Price:* \`${signal.price.toFixed(4)}\`
-📈 *EMA 50:* \`${signal.ema50.toFixed(4)}\`
-📉 *EMA 200:* \`${signal.ema200.toFixed(4)}\`
+${indicators}
 
 🏦 *Exchange:* ${asset.exchange || 'N/A'}
 🕐 *Time:* ${new Date(signal.createdAt).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })} IST
@@ -704,10 +734,13 @@ export class WebhookChannel implements INotificationChannel {
           signal: {
             id: signal.id,
             type: signal.type,
+            direction: signal.direction,
+            strength: getSignalStrength(signal),
             timeframe: signal.timeframe,
             price: signal.price,
             ema50: signal.ema50,
             ema200: signal.ema200,
+            indicators: getSignalIndicators(signal),
             createdAt: signal.createdAt,
           },
           asset: {
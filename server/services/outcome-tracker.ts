@@ -0,0 +1,277 @@
+import { storage } from "../storage";
+import {
+  getSignalOutcome,
+  type Signal,
+  type SignalDirection,
+  type SignalOutcome,
+  type SignalOutcomeResult,
+  type SignalOutcomeRules,
+  type Strategy,
+  type StrategyOutcomeSummary,
+  TIMEFRAMES,
+  TIMEFRAME_MS,
+} from "@shared/schema";
+import type { StoredCandle } from "./candle-store";
+import { candleAggregator } from "./candle-aggregator";
+
+/**
+ * Outcome tracking for generated signals.
+ *
+ * Every signal starts with an outcome in "tracking" status. Each time a candle of the signal's
+ * asset and timeframe closes afterwards, the tracker records the forward return at the strategy's
+ * horizons and the best and worst excursions, and labels the result against the strategy's
+ * target and stop. After the last horizon the outcome is complete and the signal is dropped.
+ *
+ * Closed candles are persisted (see candle-store), so on startup the tracker catches up on the
+ * bars that closed while the server was down.
+ */
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Outcome a new signal starts tracking with
+ */
+export function createSignalOutcome(entryPrice: number, rules: SignalOutcomeRules): SignalOutcome {
+  return {
+    status: "tracking",
+    rules,
+    entryPrice,
+    bars: 0,
+    lastBarAt: null,
+    returns: {},
+    mfe: 0,
+    mae: 0,
+    result: null,
+    resultBar: null,
+  };
+}
+
+/**
+ * Advance an outcome by one closed bar. Returns the updated outcome; a complete one is returned unchanged.
+ * When the target and stop are both reached within the same bar the order is unknown, so it counts as a loss.
+ */
+export function advanceOutcome(outcome: SignalOutcome, direction: SignalDirection, candle: StoredCandle): SignalOutcome {
+  if (outcome.status === "complete") {
+    return outcome;
+  }
+
+  const sign = direction === "short" ? -1 : 1;
+  const percent = (price: number) => (sign * (price - outcome.entryPrice) / outcome.entryPrice) * 100;
+  const favourable = percent(sign === 1 ? candle.high : candle.low);
+  const adverse = percent(sign === 1 ? candle.low : candle.high);
+
+  const { horizons, targetPercent, stopPercent } = outcome.rules;
+  const bars = outcome.bars + 1;
+  const returns = horizons.includes(bars)
+    ? { ...outcome.returns, [bars]: round(percent(candle.close)) }
+    : outcome.returns;
+
+  let result = outcome.result;
+  let resultBar = outcome.resultBar;
+  if (result === null && direction !== "neutral") {
+    const stopped = stopPercent !== null && adverse <= -stopPercent;
+    const targeted = targetPercent !== null && favourable >= targetPercent;
+    if (stopped || targeted) {
+      result = stopped ? "loss" : "win";
+      resultBar = bars;
+    }
+  }
+
+  const complete = bars >= Math.max(...horizons);
+  if (complete && result === null && direction !== "neutral") {
+    const finalReturn = percent(candle.close);
+    const hasRules = targetPercent !== null || stopPercent !== null;
+    result = hasRules || finalReturn === 0 ? "expired" : finalReturn > 0 ? "win" : "loss";
+    resultBar = bars;
+  }
+
+  return {
+    ...outcome,
+    status: complete ? "complete" : "tracking",
+    bars,
+    lastBarAt: new Date(candle.timestamp).toISOString(),
+    returns,
+    mfe: round(Math.max(outcome.mfe, favourable)),
+    mae: round(Math.min(outcome.mae, adverse)),
+    result,
+    resultBar,
+  };
+}
+
+/**
+ * Whether a bar starting at `barStart` closed after the signal fired. A signal fires on the close
+ * of its own bar, so the first bar after it is the one still open at that moment.
+ */
+function isForwardBar(signal: Pick<Signal, "createdAt" | "timeframe">, outcome: SignalOutcome, barStart: number): boolean {
+  if (outcome.lastBarAt !== null) {
+    return barStart > new Date(outcome.lastBarAt).getTime();
+  }
+  const intervalMs = TIMEFRAME_MS[signal.timeframe];
+  return intervalMs !== undefined && barStart + intervalMs > new Date(signal.createdAt).getTime();
+}
+
+function average(values: number[]): number | null {
+  return values.length === 0 ? null : round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+/**
+ * Aggregate the outcomes of a strategy's signals
+ */
+export function summarizeOutcomes(strategyId: string, signals: Signal[]): StrategyOutcomeSummary {
+  const outcomes = signals
+    .filter((signal) => signal.strategyId === strategyId)
+    .map((signal) => getSignalOutcome(signal))
+    .filter((outcome): outcome is SignalOutcome => outcome !== null);
+
+  const count = (result: SignalOutcomeResult) => outcomes.filter((outcome) => outcome.result === result).length;
+  const wins = count("win");
+  const losses = count("loss");
+
+  const byHorizon = new Map<string, number[]>();
+  for (const outcome of outcomes) {
+    for (const [horizon, value] of Object.entries(outcome.returns)) {
+      byHorizon.set(horizon, [...(byHorizon.get(horizon) ?? []), value]);
+    }
+  }
+  const averageReturns: Record<string, number> = {};
+  Array.from(byHorizon.keys())
+    .sort((a, b) => Number(a) - Number(b))
+    .forEach((horizon) => {
+      averageReturns[horizon] = average(byHorizon.get(horizon)!)!;
+    });
+
+  const measured = outcomes.filter((outcome) => outcome.bars > 0);
+
+  return {
+    strategyId,
+    signals: outcomes.length,
+    tracking: outcomes.filter((outcome) => outcome.status === "tracking").length,
+    wins,
+    losses,
+    expired: count("expired"),
+    winRate: wins + losses > 0 ? round(wins / (wins + losses)) : null,
+    averageReturns,
+    averageMfe: average(measured.map((outcome) => outcome.mfe)),
+    averageMae: average(measured.map((outcome) => outcome.mae)),
+  };
+}
+
+/**
+ * Aggregate outcomes for every strategy
+ */
+export function summarizeAllOutcomes(strategies: Strategy[], signals: Signal[]): StrategyOutcomeSummary[] {
+  return strategies.map((strategy) => summarizeOutcomes(strategy.id, signals));
+}
+
+interface TrackedSignal {
+  signal: Signal;
+  outcome: SignalOutcome;
+}
+
+export class OutcomeTracker {
+  // "assetId:timeframe" -> signal ID -> signal still being tracked
+  private tracked: Map<string, Map<string, TrackedSignal>> = new Map();
+  private initializing: Promise<void> | null = null;
+
+  /**
+   * Load the signals still being tracked, catch up on the stored candles that closed since
+   * their last counted bar, then follow the live candle closes of every timeframe.
+   * Safe to call more than once; later calls wait for the first.
+   */
+  initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.catchUp()
+        .catch((error) => {
+          console.error("[Outcome Tracker] Error catching up on signal outcomes:", error);
+        })
+        .then(() => {
+          for (const timeframe of TIMEFRAMES) {
+            candleAggregator.onCandleClose(timeframe, ({ assetId, candle }) => this.onCandleClose(assetId, timeframe, candle));
+          }
+        });
+    }
+    return this.initializing;
+  }
+
+  /**
+   * Start following a saved signal
+   */
+  track(signal: Signal): void {
+    const outcome = getSignalOutcome(signal);
+    if (!outcome || outcome.status !== "tracking") {
+      return;
+    }
+
+    const key = `${signal.assetId}:${signal.timeframe}`;
+    const signals = this.tracked.get(key) ?? new Map<string, TrackedSignal>();
+    signals.set(signal.id, { signal, outcome });
+    this.tracked.set(key, signals);
+  }
+
+  /**
+   * Feed a closed candle to the signals tracked on its asset and timeframe, and save their outcomes
+   */
+  async onCandleClose(assetId: string, timeframe: string, candle: StoredCandle): Promise<void> {
+    const signals = this.tracked.get(`${assetId}:${timeframe}`);
+    if (!signals) {
+      return;
+    }
+
+    const updates: TrackedSignal[] = [];
+    Array.from(signals.values()).forEach((entry) => {
+      if (!isForwardBar(entry.signal, entry.outcome, candle.timestamp)) {
+        return;
+      }
+      entry.outcome = advanceOutcome(entry.outcome, entry.signal.direction as SignalDirection, candle);
+      if (entry.outcome.status === "complete") {
+        signals.delete(entry.signal.id);
+      }
+      updates.push(entry);
+    });
+
+    for (const { signal, outcome } of updates) {
+      await this.save(signal, outcome);
+    }
+  }
+
+  private async save(signal: Signal, outcome: SignalOutcome): Promise<void> {
+    const updated = await storage.updateSignal(signal.id, { outcome });
+    if (!updated) {
+      // Signal was deleted
+      this.tracked.get(`${signal.assetId}:${signal.timeframe}`)?.delete(signal.id);
+      return;
+    }
+    if (outcome.status === "complete") {
+      console.log(`[Outcome Tracker] ${signal.type} ${signal.id}: ${outcome.result ?? "unlabelled"} after ${outcome.bars} bars (MFE ${outcome.mfe}%, MAE ${outcome.mae}%)`);
+    }
+  }
+
+  private async catchUp(): Promise<void> {
+    const signals = await storage.getTrackingSignals();
+    for (const signal of signals) {
+      this.track(signal);
+    }
+
+    for (const key of Array.from(this.tracked.keys())) {
+      const [assetId, timeframe] = key.split(":");
+      const candles = await storage.getCandleData(assetId, timeframe);
+
+      for (const row of candles) {
+        await this.onCandleClose(assetId, timeframe, {
+          open: row.open,
+          high: row.high,
+          low: row.low,
+          close: row.close,
+          timestamp: row.timestamp.getTime(),
+        });
+      }
+    }
+
+    const total = Array.from(this.tracked.values()).reduce((sum, entries) => sum + entries.size, 0);
+    console.log(`[Outcome Tracker] Tracking ${total} signals after catching up`);
+  }
+}
+
+export const outcomeTracker = new OutcomeTracker();
@@ -0,0 +1,432 @@
+import { DEFAULT_MOVING_AVERAGES, type MovingAverageSettings, type Strategy } from "@shared/schema";
+import { formulaEvaluator, type ASTNode } from "./formula-evaluator";
+import { isCandlestickPattern, PATTERN_DEFINITIONS } from "./candlestick-patterns";
+
+/**
+ * Preset strategies written as formulas, matching their checks in signal-detector.ts
+ */
+export const PRESET_FORMULAS: Record<string, string> = {
+  "15m_above_50_bullish": "price >= fast_ma && fast_ma > slow_ma",
+  "5m_above_200_reversal": "price >= slow_ma && slow_ma > fast_ma",
+  "5m_pullback_to_200": "(low <= slow_ma && price >= slow_ma || abs(price - slow_ma) < 0.01) && price > fast_ma && fast_ma > slow_ma",
+  "5m_below_200_bearish": "price <= slow_ma && fast_ma > slow_ma",
+  "5m_touch_200_downtrend": "(low <= slow_ma && price >= slow_ma || abs(price - slow_ma) < 0.01) && slow_ma > fast_ma && fast_ma > price",
+  "15m_below_200_breakdown": "fast_ma > slow_ma && slow_ma > price",
+  "15m_cross_above_50_bullish": "crosses_above(price, fast_ma) && fast_ma > slow_ma",
+  "5m_cross_above_200_reversal": "crosses_above(price, slow_ma) && slow_ma > fast_ma",
+  "5m_cross_pullback_to_200": "(crosses_below(low, slow_ma) || low[1] > slow_ma[1] && low == slow_ma) && price >= slow_ma && price > fast_ma && fast_ma > slow_ma",
+  "5m_cross_below_200_bearish": "crosses_below(price, slow_ma) && fast_ma > slow_ma",
+  "5m_cross_touch_200_downtrend": "(crosses_above(high, slow_ma) || high[1] < slow_ma[1] && high == slow_ma) && slow_ma > fast_ma && fast_ma > price",
+  "15m_cross_below_200_breakdown": "crosses_below(price, slow_ma) && fast_ma > slow_ma",
+};
+
+// Pine operator precedence, higher binds tighter
+const PINE_PRECEDENCE: Record<string, number> = {
+  or: 1,
+  and: 2,
+  "==": 3, "!=": 3,
+  "<": 4, ">": 4, "<=": 4, ">=": 4,
+  "+": 5, "-": 5,
+  "*": 6, "/": 6,
+};
+
+const PINE_OPERATORS: Record<string, string> = {
+  "&&": "and",
+  "||": "or",
+};
+
+const PINE_CROSS_FUNCTIONS: Record<string, string> = {
+  crosses_above: "ta.crossover",
+  crosses_below: "ta.crossunder",
+  crosses: "ta.cross",
+};
+
+// Pine functions that can be imported, and the formula function each becomes
+const IMPORTED_FUNCTIONS: Record<string, string> = {
+  "ta.crossover": "crosses_above",
+  "ta.crossunder": "crosses_below",
+  "ta.cross": "crosses",
+  "ta.ema": "ema",
+  "ta.sma": "sma",
+  "ta.rsi": "rsi",
+  "ta.atr": "atr",
+  "math.abs": "abs",
+  "math.min": "min",
+  "math.max": "max",
+  "math.round": "round",
+  "math.floor": "floor",
+  "math.ceil": "ceil",
+  "math.sqrt": "sqrt",
+  "math.pow": "pow",
+};
+
+const IMPORTED_VARIABLES = new Set(["close", "open", "high", "low", "volume"]);
+
+// Script lines that don't affect the condition and are skipped on import
+const IGNORED_STATEMENTS = /^(indicator|strategy|plot\w*|bgcolor|barcolor|fill|hline|alert)\s*\(/;
+
+/**
+ * Thrown when a strategy has no formula to export, or a Pine script uses something outside the importable subset
+ */
+export class PineConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PineConversionError";
+  }
+}
+
+/**
+ * Pine timeframe string for a SignalPro timeframe, e.g. "15m" -> "15", "4h" -> "240", "1D" -> "1D"
+ */
+function toPineTimeframe(timeframe: string): string {
+  const match = /^(\d+)([mhd])$/i.exec(timeframe);
+  if (!match) return timeframe;
+  const amount = parseInt(match[1], 10);
+  switch (match[2].toLowerCase()) {
+    case "m": return String(amount);
+    case "h": return String(amount * 60);
+    default: return `${amount}D`;
+  }
+}
+
+/**
+ * Pine expression for a moving average of the close. Pine has no built-in DEMA or TEMA,
+ * so those are spelled out from nested EMAs.
+ */
+function toPineMovingAverage(type: MovingAverageSettings["maType"], period: number): string {
+  const ema = (source: string) => `ta.ema(${source}, ${period})`;
+  switch (type) {
+    case "dema": return `(2 * ${ema("close")} - ${ema(ema("close"))})`;
+    case "tema": return `(3 * ${ema("close")} - 3 * ${ema(ema("close"))} + ${ema(ema(ema("close")))})`;
+    default: return `ta.${type}(close, ${period})`;
+  }
+}
+
+/**
+ * Pine series expression for a formula variable on the chart's own timeframe
+ */
+function toPineSeries(name: string, movingAverages: MovingAverageSettings): string {
+  switch (name) {
+    case "price": return "close";
+    case "ema50": return "ta.ema(close, 50)";
+    case "ema200": return "ta.ema(close, 200)";
+    case "fast_ma": return toPineMovingAverage(movingAverages.maType, movingAverages.fastPeriod);
+    case "slow_ma": return toPineMovingAverage(movingAverages.maType, movingAverages.slowPeriod);
+    default: return name;
+  }
+}
+
+// Moving average variables, declared once at the top of the script
+const DECLARED_SERIES = new Set(["ema50", "ema200", "fast_ma", "slow_ma"]);
+
+/**
+ * Read a series from another timeframe's latest closed candle. `[1]` with lookahead on
+ * is the non-repainting form: it only changes once the higher timeframe candle has closed.
+ */
+function securityCall(timeframe: string, series: string, offset: number): string {
+  return `request.security(syminfo.tickerid, "${toPineTimeframe(timeframe)}", ${series}[${offset + 1}], lookahead = barmerge.lookahead_on)`;
+}
+
+const SOURCE_INDICATORS = new Set(["ema", "sma", "rsi", "bb_upper", "bb_lower", "macd", "macd_signal", "macd_hist"]);
+
+/**
+ * Pine expression for an indicator of a source series, parenthesized when it is compound
+ */
+function toPineIndicator(name: string, source: string, period: string): string {
+  const macd = `ta.ema(${source}, 12) - ta.ema(${source}, 26)`;
+  switch (name) {
+    case "bb_upper": return `(ta.sma(${source}, ${period}) + 2 * ta.stdev(${source}, ${period}))`;
+    case "bb_lower": return `(ta.sma(${source}, ${period}) - 2 * ta.stdev(${source}, ${period}))`;
+    case "macd": return `(${macd})`;
+    case "macd_signal": return `ta.ema(${macd}, 9)`;
+    case "macd_hist": return `(${macd} - ta.ema(${macd}, 9))`;
+    default: return `ta.${name}(${source}, ${period})`;
+  }
+}
+
+/**
+ * Pine condition for a candlestick pattern, matching its check in candlestick-patterns.ts
+ */
+function toPinePattern(name: keyof typeof PATTERN_DEFINITIONS, threshold: number): string {
+  const at = (series: string, offset: number) => (offset === 0 ? series : `${series}[${offset}]`);
+  const [open, high, low, close] = ["open", "high", "low", "close"].map(series => (offset: number) => at(series, offset));
+  const body = (i: number) => `math.abs(${close(i)} - ${open(i)})`;
+  const range = (i: number) => `(${high(i)} - ${low(i)})`;
+  const upperShadow = (i: number) => `(${high(i)} - math.max(${open(i)}, ${close(i)}))`;
+  const lowerShadow = (i: number) => `(math.min(${open(i)}, ${close(i)}) - ${low(i)})`;
+  const midpoint = (i: number) => `(${open(i)} + ${close(i)}) / 2`;
+
+  let conditions: string[];
+  switch (name) {
+    case "bullish_engulfing":
+      conditions = [`${close(1)} < ${open(1)}`, `${close(0)} > ${open(0)}`, `${open(0)} <= ${close(1)}`, `${close(0)} >= ${open(1)}`, `${body(0)} >= ${threshold} * ${body(1)}`];
+      break;
+    case "bearish_engulfing":
+      conditions = [`${close(1)} > ${open(1)}`, `${close(0)} < ${open(0)}`, `${open(0)} >= ${close(1)}`, `${close(0)} <= ${open(1)}`, `${body(0)} >= ${threshold} * ${body(1)}`];
+      break;
+    case "hammer":
+      conditions = [`${range(0)} > 0`, `${lowerShadow(0)} >= ${threshold} * ${body(0)}`, `${upperShadow(0)} <= ${body(0)}`];
+      break;
+    case "shooting_star":
+      conditions = [`${range(0)} > 0`, `${upperShadow(0)} >= ${threshold} * ${body(0)}`, `${lowerShadow(0)} <= ${body(0)}`];
+      break;
+    case "doji":
+      conditions = [`${range(0)} > 0`, `${body(0)} <= ${threshold} * ${range(0)}`];
+      break;
+    case "inside_bar":
+      conditions = [`${range(1)} > 0`, `${high(0)} <= ${high(1)}`, `${low(0)} >= ${low(1)}`, `${range(0)} <= ${threshold} * ${range(1)}`];
+      break;
+    case "morning_star":
+      conditions = [`${close(2)} < ${open(2)}`, `${body(1)} <= ${threshold} * ${body(2)}`, `math.max(${open(1)}, ${close(1)}) <= ${midpoint(2)}`, `${close(0)} > ${open(0)}`, `${close(0)} > ${midpoint(2)}`];
+      break;
+    case "evening_star":
+      conditions = [`${close(2)} > ${open(2)}`, `${body(1)} <= ${threshold} * ${body(2)}`, `math.min(${open(1)}, ${close(1)}) >= ${midpoint(2)}`, `${close(0)} < ${open(0)}`, `${close(0)} < ${midpoint(2)}`];
+      break;
+  }
+  return `(${conditions.join(" and ")})`;
+}
+
+function toPineExpression(node: ASTNode, declarations: Map<string, string>, movingAverages: MovingAverageSettings): string {
+  switch (node.type) {
+    case "number":
+      return String(node.value);
+
+    case "variable": {
+      if (node.timeframe) {
+        return securityCall(node.timeframe, toPineSeries(node.name, movingAverages), node.offset);
+      }
+      let series = toPineSeries(node.name, movingAverages);
+      if (DECLARED_SERIES.has(node.name)) {
+        declarations.set(node.name, `${node.name} = ${series}`);
+        series = node.name;
+      }
+      return node.offset === 0 ? series : `${series}[${node.offset}]`;
+    }
+
+    case "binary": {
+      const operator = PINE_OPERATORS[node.operator] ?? node.operator;
+      const precedence = PINE_PRECEDENCE[operator];
+      const wrap = (child: ASTNode, isRight: boolean) => {
+        const text = toPineExpression(child, declarations, movingAverages);
+        if (child.type !== "binary") return text;
+        const childPrecedence = PINE_PRECEDENCE[PINE_OPERATORS[child.operator] ?? child.operator];
+        return childPrecedence < precedence || (isRight && childPrecedence === precedence) ? `(${text})` : text;
+      };
+      return `${wrap(node.left, false)} ${operator} ${wrap(node.right, true)}`;
+    }
+
+    case "unary": {
+      // `not` binds tighter than comparisons in Pine, so compound operands need parentheses
+      const operand = toPineExpression(node.operand, declarations, movingAverages);
+      return node.operand.type === "binary" ? `not (${operand})` : `not ${operand}`;
+    }
+
+    case "function": {
+      if (PINE_CROSS_FUNCTIONS[node.name]) {
+        const [a, b] = node.args.map(arg => toPineExpression(arg, declarations, movingAverages));
+        return `${PINE_CROSS_FUNCTIONS[node.name]}(${a}, ${b})`;
+      }
+
+      if (node.name === "atr") {
+        return `ta.atr(${toPineExpression(node.args[0], declarations, movingAverages)})`;
+      }
+
+      if (node.name === "supertrend") {
+        // ta.supertrend returns the line and direction as a tuple, which has to be declared first
+        const period = toPineExpression(node.args[0], declarations, movingAverages);
+        declarations.set(`supertrend${period}`, `[supertrend${period}, supertrendDirection${period}] = ta.supertrend(3, ${period})`);
+        return `supertrend${period}`;
+      }
+
+      if (isCandlestickPattern(node.name)) {
+        const threshold = node.args.length > 0 ? (node.args[0] as { value: number }).value : PATTERN_DEFINITIONS[node.name].threshold;
+        return toPinePattern(node.name, threshold);
+      }
+
+      if (SOURCE_INDICATORS.has(node.name)) {
+        const source = node.args[0] as Extract<ASTNode, { type: "variable" }>;
+        const period = node.args.length > 1 ? toPineExpression(node.args[1], declarations, movingAverages) : "";
+        if (source.timeframe) {
+          return securityCall(source.timeframe, toPineIndicator(node.name, toPineSeries(source.name, movingAverages), period), source.offset);
+        }
+        return toPineIndicator(node.name, toPineExpression(source, declarations, movingAverages), period);
+      }
+
+      const args = node.args.map(arg => toPineExpression(arg, declarations, movingAverages));
+      return `math.${node.name}(${args.join(", ")})`;
+    }
+  }
+}
+
+interface PineToken {
+  type: "number" | "identifier" | "operator";
+  value: string;
+}
+
+function tokenizePine(expression: string): PineToken[] {
+  const tokens: PineToken[] = [];
+  const pattern = /^(?:\s+|(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*)|(==|!=|<=|>=|[<>+\-*/()[\],]))/;
+  let pos = 0;
+
+  while (pos < expression.length) {
+    const match = pattern.exec(expression.slice(pos));
+    if (!match) {
+      throw new PineConversionError(`Unsupported Pine syntax at "${expression.slice(pos, pos + 10)}"`);
+    }
+    if (match[1]) tokens.push({ type: "number", value: match[1] });
+    else if (match[2]) tokens.push({ type: "identifier", value: match[2] });
+    else if (match[3]) tokens.push({ type: "operator", value: match[3] });
+    pos += match[0].length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Translate one Pine expression token by token. `definitions` holds the translated
+ * right-hand sides of earlier assignments, which are inlined in parentheses.
+ */
+function translatePineExpression(expression: string, definitions: Map<string, string>): string {
+  if (/\brequest\.security\b/.test(expression)) {
+    throw new PineConversionError("request.security is not supported; use @15m references in the formula instead");
+  }
+
+  const tokens = tokenizePine(expression);
+  let formula = "";
+
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+    let text = token.value;
+
+    if (token.type === "identifier") {
+      if (text === "and") text = "&&";
+      else if (text === "or") text = "||";
+      else if (text === "not") text = "!";
+      else if (IMPORTED_FUNCTIONS[text]) {
+        if (next?.value !== "(") throw new PineConversionError(`${text} must be called with arguments`);
+        text = IMPORTED_FUNCTIONS[text];
+      } else if (definitions.has(text)) {
+        if (next?.value === "[") throw new PineConversionError(`History references on "${text}" are not supported; use them on its inputs instead`);
+        const definition = definitions.get(text)!;
+        text = /^[\w\[\]]+$/.test(definition) ? definition : `(${definition})`;
+      } else if (!IMPORTED_VARIABLES.has(text)) {
+        throw new PineConversionError(`Unsupported Pine identifier: ${text}`);
+      }
+    }
+
+    const previous = formula[formula.length - 1];
+    const noSpaceBefore = [")", "]", ",", "["].includes(text) ||
+      (text === "(" && token.type === "operator" && i > 0 && tokens[i - 1].type === "identifier" && IMPORTED_FUNCTIONS[tokens[i - 1].value] !== undefined);
+    const noSpaceAfterPrevious = previous === "(" || previous === "[" || previous === "!" || previous === undefined;
+    formula += noSpaceBefore || noSpaceAfterPrevious ? text : ` ${text}`;
+  });
+
+  // ta.ema(close, 50) and ta.ema(close, 200) are the EMAs every candle already carries
+  return formula.replace(/\bema\(close, (50|200)\)/g, "ema$1");
+}
+
+/**
+ * Split a call's argument list at top-level commas: "a, f(b, c)" -> ["a", "f(b, c)"]
+ */
+function splitArguments(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of args) {
+    if (char === "(" || char === "[") depth++;
+    if (char === ")" || char === "]") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Converts formulas to Pine Script v5 and a subset of Pine boolean expressions back to formulas
+ */
+export class PineConverter {
+  /**
+   * Pine Script v5 indicator raising an alertcondition whenever the formula holds
+   */
+  toPine(formula: string, name: string, timeframe: string, movingAverages: MovingAverageSettings = DEFAULT_MOVING_AVERAGES): string {
+    const declarations = new Map<string, string>();
+    const condition = toPineExpression(formulaEvaluator.parse(formula), declarations, movingAverages);
+    const title = name.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+    const lines = [
+      "//@version=5",
+      `indicator("${title}", overlay = true)`,
+      "",
+      `// Exported from SignalPro. Add it to a ${timeframe} chart: the formula is checked on each closed ${timeframe} candle.`,
+      `// Formula: ${formula.replace(/\s+/g, " ")}`,
+    ];
+    lines.push(
+      ...Array.from(declarations.values()),
+      `signal = ${condition}`,
+      "",
+      'plotshape(signal, title = "Signal", style = shape.triangleup, location = location.belowbar, color = color.green, size = size.small)',
+      `alertcondition(signal, title = "${title}", message = "${title} on {{ticker}} at {{close}}")`,
+      ""
+    );
+    return lines.join("\n");
+  }
+
+  /**
+   * Pine script for a stored strategy: its formula if custom, or the preset's equivalent formula
+   */
+  strategyToPine(strategy: Strategy): string {
+    const formula = strategy.isCustom && strategy.formula ? strategy.formula : PRESET_FORMULAS[strategy.type];
+    if (!formula) {
+      throw new PineConversionError(`Strategy type ${strategy.type} has no formula to export`);
+    }
+    return this.toPine(formula, strategy.name, strategy.timeframe, {
+      maType: strategy.maType as MovingAverageSettings["maType"],
+      fastPeriod: strategy.fastPeriod,
+      slowPeriod: strategy.slowPeriod,
+    });
+  }
+
+  /**
+   * Formula for a Pine boolean expression, or for a script's alertcondition. Supported: close/open/
+   * high/low/volume with [n], and/or/not, comparisons, arithmetic, ta.ema/sma/rsi/atr/crossover/
+   * crossunder/cross, math.* functions and single-line assignments used by the condition.
+   */
+  fromPine(script: string): string {
+    const definitions = new Map<string, string>();
+    let condition: string | undefined;
+    let lastAssignment: string | undefined;
+
+    for (const rawLine of script.split("\n")) {
+      const line = rawLine.replace(/\/\/.*$/, "").trim();
+      if (!line || IGNORED_STATEMENTS.test(line)) continue;
+
+      const alert = /^alertcondition\s*\((.*)\)$/.exec(line);
+      if (alert) {
+        condition = translatePineExpression(splitArguments(alert[1])[0], definitions);
+        continue;
+      }
+
+      const assignment = /^(?:var\s+)?(?:bool\s+|float\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*:?=\s*(.+)$/.exec(line);
+      if (assignment && !assignment[2].startsWith("=")) {
+        lastAssignment = translatePineExpression(assignment[2], definitions);
+        definitions.set(assignment[1], lastAssignment);
+        continue;
+      }
+
+      condition = translatePineExpression(line, definitions);
+    }
+
+    const formula = condition ?? lastAssignment;
+    if (!formula) {
+      throw new PineConversionError("No condition found: add an alertcondition or a boolean expression");
+    }
+    return formula;
+  }
+}
+
+export const pineConverter = new PineConverter();
@@ -1,29 +1,10 @@
 import { storage } from "../storage";
-import { signalDetector, type MarketData } from "./signal-detector";
+import { signalDetector } from "./signal-detector";
 import { brokerWebSocket } from "./broker-websocket";
-import { emaCalculator } from "./ema-calculator";
+import { candleAggregator, type CandleCloseEvent } from "./candle-aggregator";
+import { outcomeTracker } from "./outcome-tracker";
 import type { SignalBroadcastCallback } from "./market-data-generator";
 
-/**
- * Candle data structure for aggregating ticks
- */
-interface Candle {
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  timestamp: number; // Start of candle period
-}
-
-/**
- * Candle history for EMA calculation per asset per timeframe
- */
-interface CandleHistory {
-  candles: Candle[];
-  currentCandle: Candle | null;
-  lastCandleTime: number;
-}
-
 /**
  * Check if Indian stock market is currently open
  * Market hours: 9:15 AM - 3:30 PM IST (Monday to Friday)
@@ -76,16 +57,8 @@ export class RealtimeSignalGenerator {
   private broadcastCallback: SignalBroadcastCallback | null = null;
   private assetTokenMap: Map<string, { symbol: string; assetId: string; exchange: string }> = new Map();
   private tokenToAssetMap: Map<number, string> = new Map(); // instrumentToken -> assetId
+  private dayVolumes: Map<string, number> = new Map(); // assetId -> volume traded in the day at the last tick
   private isInitialized = false;
-  
-  // Candle history for proper EMA calculation: key = "assetId-timeframe" (e.g., "asset1-5m")
-  private candleHistories: Map<string, CandleHistory> = new Map();
-  
-  // Timeframe intervals in milliseconds
-  private readonly TIMEFRAMES = {
-    "5m": 5 * 60 * 1000,   // 5 minutes
-    "15m": 15 * 60 * 1000, // 15 minutes
-  };
 
   setBroadcastCallback(callback: SignalBroadcastCallback) {
     this.broadcastCallback = callback;
@@ -104,6 +77,12 @@ export class RealtimeSignalGenerator {
 
     console.log("[Realtime Signals] Initializing...");
 
+    await this.warmStart();
+    await outcomeTracker.initialize();
+
+    // Check strategies on every candle close of a timeframe they run on
+    candleAggregator.onStrategyCandleClose((event) => this.processCandleClose(event));
+
     // Listen for WebSocket ticks
     brokerWebSocket.on("tick", async (tickData: any) => {
       await this.processTickData(tickData);
@@ -364,99 +343,23 @@ export class RealtimeSignalGenerator {
   }
 
   /**
-   * Get the start timestamp for a candle period
-   */
-  private getCandlePeriodStart(timestamp: number, intervalMs: number): number {
-    return Math.floor(timestamp / intervalMs) * intervalMs;
-  }
-
-  /**
-   * Initialize or get candle history for an asset/timeframe combination
-   */
-  private getCandleHistory(assetId: string, timeframe: string): CandleHistory {
-    const key = `${assetId}-${timeframe}`;
-    if (!this.candleHistories.has(key)) {
-      this.candleHistories.set(key, {
-        candles: [],
-        currentCandle: null,
-        lastCandleTime: 0,
-      });
-    }
-    return this.candleHistories.get(key)!;
-  }
-
-  /**
-   * Update candle with new tick data
-   * Returns true if a candle just closed (time to check signals)
+   * Reload persisted candles so EMAs are ready as soon as the feed reconnects
    */
-  private updateCandle(
-    assetId: string,
-    timeframe: string,
-    price: number,
-    high: number,
-    low: number,
-    timestamp: number
-  ): { candleClosed: boolean; closedCandle: Candle | null } {
-    const intervalMs = this.TIMEFRAMES[timeframe as keyof typeof this.TIMEFRAMES];
-    const history = this.getCandleHistory(assetId, timeframe);
-    const periodStart = this.getCandlePeriodStart(timestamp, intervalMs);
-
-    let candleClosed = false;
-    let closedCandle: Candle | null = null;
-
-    // Check if we're in a new candle period
-    if (history.currentCandle && periodStart > history.lastCandleTime) {
-      // Close the current candle and add to history
-      closedCandle = { ...history.currentCandle };
-      history.candles.push(closedCandle);
-      
-      // Keep only last 250 candles for EMA calculation
-      if (history.candles.length > 250) {
-        history.candles.shift();
-      }
-      
-      candleClosed = true;
-      history.currentCandle = null;
-    }
-
-    // Create or update current candle
-    if (!history.currentCandle) {
-      history.currentCandle = {
-        open: price,
-        high: high,
-        low: low,
-        close: price,
-        timestamp: periodStart,
-      };
-      history.lastCandleTime = periodStart;
-    } else {
-      // Update current candle with tick data
-      history.currentCandle.high = Math.max(history.currentCandle.high, high);
-      history.currentCandle.low = Math.min(history.currentCandle.low, low);
-      history.currentCandle.close = price; // Latest price is the close
-    }
-
-    return { candleClosed, closedCandle };
-  }
+  private async warmStart() {
+    try {
+      const assets = await storage.getAssets();
+      const enabledAssets = assets.filter(a => a.enabled && (a.type === "indian_futures" || a.type === "indian_stock"));
+      const loaded = await candleAggregator.warmStart(enabledAssets.map(a => a.id));
 
-  /**
-   * Calculate EMA from candle history
-   * Returns { ema50, ema200 } or nulls if insufficient data
-   */
-  private calculateEMAFromCandles(assetId: string, timeframe: string): { ema50: number | null; ema200: number | null } {
-    const history = this.getCandleHistory(assetId, timeframe);
-    
-    if (history.candles.length < 50) {
-      return { ema50: null, ema200: null };
+      console.log(`[Realtime Signals] Warm-started ${loaded} stored candles for ${enabledAssets.length} assets`);
+    } catch (error) {
+      console.error("[Realtime Signals] Error loading stored candles:", error);
     }
-
-    const closePrices = history.candles.map(c => c.close);
-    return emaCalculator.calculateEMA50And200(closePrices);
   }
 
   /**
-   * Process incoming tick data and generate signals
-   * Now properly aggregates ticks into candles and calculates EMA on candle close prices
+   * Process incoming tick data
+   * Aggregates ticks into candles; strategies are checked as candles close
    */
   private async processTickData(tickData: any) {
     try {
@@ -476,65 +379,68 @@ export class RealtimeSignalGenerator {
       const high = tickData.high || price;
       const low = tickData.low || price;
 
-      // Process for each timeframe
-      for (const timeframe of ["5m", "15m"]) {
-        const { candleClosed, closedCandle } = this.updateCandle(
-          assetInfo.assetId,
-          timeframe,
-          price,
-          high,
-          low,
-          timestamp
-        );
-
-        // Only check for signals when a candle closes (proper EMA calculation)
-        if (candleClosed && closedCandle) {
-          const { ema50, ema200 } = this.calculateEMAFromCandles(assetInfo.assetId, timeframe);
-
-          if (ema50 === null || ema200 === null) {
-            console.log(`[Realtime Signals] ${assetInfo.symbol} ${timeframe}: Insufficient data for EMA (need 200 candles, have ${this.getCandleHistory(assetInfo.assetId, timeframe).candles.length})`);
-            continue;
-          }
+      const volume = this.volumeSinceLastTick(assetInfo.assetId, tickData.volume);
 
-          console.log(`[Realtime Signals] ${assetInfo.symbol} ${timeframe} candle closed: ₹${closedCandle.close.toFixed(2)} (EMA50: ${ema50.toFixed(2)}, EMA200: ${ema200.toFixed(2)})`);
-
-          const marketData: MarketData = {
-            assetId: assetInfo.assetId,
-            timeframe,
-            price: closedCandle.close,
-            high: closedCandle.high,
-            low: closedCandle.low,
-            open: closedCandle.open,
-            ema50,
-            ema200,
-          };
-
-          const signals = await signalDetector.detectSignals(marketData);
-
-          for (const signal of signals) {
-            const createdSignal = await storage.createSignal(signal);
-            console.log(`[Realtime Signals] 🚨 Signal: ${signal.type} for ${assetInfo.symbol} at ₹${closedCandle.close.toFixed(2)}`);
-
-            if (this.broadcastCallback) {
-              this.broadcastCallback(createdSignal);
-            }
-
-            // Send notifications
-            const asset = await storage.getAsset(assetInfo.assetId);
-            const strategy = await storage.getStrategy(signal.strategyId);
-            if (asset && strategy) {
-              const configs = await storage.getNotificationConfigs();
-              const { notificationService } = await import("./notification-service");
-              notificationService.sendToAllEnabled({ signal: createdSignal, asset, strategy }, configs);
-            }
-          }
-        }
-      }
+      // Only check for signals when a candle closes (proper EMA calculation), see processCandleClose
+      candleAggregator.update(assetInfo.assetId, price, timestamp, high, low, volume);
     } catch (error) {
       console.error("[Realtime Signals] Error processing tick:", error);
     }
   }
 
+  /**
+   * Volume traded since the asset's previous tick, from the day's running total the broker sends.
+   * The first tick only sets the baseline, and a total lower than the last one starts a new day.
+   */
+  private volumeSinceLastTick(assetId: string, dayVolume: number | undefined): number {
+    if (!dayVolume) {
+      return 0;
+    }
+    const previous = this.dayVolumes.get(assetId);
+    this.dayVolumes.set(assetId, dayVolume);
+    if (previous === undefined) {
+      return 0;
+    }
+    return dayVolume >= previous ? dayVolume - previous : dayVolume;
+  }
+
+  /**
+   * Check strategies against a closed candle of one of the broker feed's assets
+   */
+  private async processCandleClose(event: CandleCloseEvent) {
+    const { assetId, timeframe, candle: closedCandle } = event;
+    const assetInfo = Array.from(this.assetTokenMap.values()).find(a => a.assetId === assetId);
+    if (!assetInfo) {
+      return;
+    }
+
+    // Strategies that need EMAs still warming up are skipped by the detector, the others are checked
+    const { ema50, ema200 } = candleAggregator.getEMAs(assetId, timeframe);
+    const emas = ema50 !== null && ema200 !== null
+      ? `EMA50: ${ema50.toFixed(2)}, EMA200: ${ema200.toFixed(2)}`
+      : `EMAs warming up, ${candleAggregator.getCandles(assetId, timeframe).length} candles`;
+    console.log(`[Realtime Signals] ${assetInfo.symbol} ${timeframe} candle closed: ₹${closedCandle.close.toFixed(2)} (${emas})`);
+
+    const signals = await signalDetector.detectSignals(candleAggregator.getMarketData(event));
+
+    for (const createdSignal of await signalDetector.saveSignals(signals)) {
+      console.log(`[Realtime Signals] 🚨 Signal: ${createdSignal.type} for ${assetInfo.symbol} at ₹${closedCandle.close.toFixed(2)}`);
+
+      if (this.broadcastCallback) {
+        this.broadcastCallback(createdSignal);
+      }
+
+      // Send notifications
+      const asset = await storage.getAsset(assetId);
+      const strategy = await storage.getStrategy(createdSignal.strategyId);
+      if (asset && strategy) {
+        const configs = await storage.getNotificationConfigs();
+        const { notificationService } = await import("./notification-service");
+        notificationService.sendToAllEnabled({ signal: createdSignal, asset, strategy }, configs);
+      }
+    }
+  }
+
   /**
    * Connect to Zerodha WebSocket
    */
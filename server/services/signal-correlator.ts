@@ -0,0 +1,112 @@
+import { getSignalStrength, signalDedupKey, type InsertSignal, type Signal, type SignalDirection, type SignalStrength, type Strategy } from "@shared/schema";
+
+/**
+ * Correlation engine for merged strategies.
+ *
+ * A merged strategy (see storage.mergeStrategies) has no condition of its own: it fires
+ * from the signals of its linked strategies on the same asset.
+ * - OR fires on every signal of any linked strategy
+ * - AND fires once every linked strategy has signalled within `mergeTimeWindow` seconds
+ *   of the latest one, then starts collecting again
+ *
+ * Linked strategies may use different timeframes, and may themselves be merged strategies:
+ * a merged signal is correlated like any other, so nested merges fire bottom-up.
+ */
+
+/**
+ * Stored in a merged signal's metadata, recording the signals it was made from.
+ * The strength is that of the signal that completed the merge.
+ */
+export interface MergedSignalMetadata {
+  strength: SignalStrength | null;
+  merge: {
+    logic: "AND" | "OR";
+    childSignalIds: string[];
+    childStrategyIds: string[];
+  };
+}
+
+/**
+ * Linked strategy IDs of a merged strategy, or an empty list for any other strategy
+ */
+export function getLinkedStrategyIds(strategy: Strategy): string[] {
+  if (!strategy.mergeLogic || !Array.isArray(strategy.linkedStrategies)) {
+    return [];
+  }
+  return strategy.linkedStrategies as string[];
+}
+
+function toMergedSignal(parent: Strategy, trigger: Signal, children: Signal[]): InsertSignal {
+  const metadata: MergedSignalMetadata = {
+    strength: getSignalStrength(trigger),
+    merge: {
+      logic: parent.mergeLogic as "AND" | "OR",
+      childSignalIds: children.map((child) => child.id),
+      childStrategyIds: children.map((child) => child.strategyId),
+    },
+  };
+
+  const signal: InsertSignal = {
+    strategyId: parent.id,
+    assetId: trigger.assetId,
+    timeframe: parent.timeframe,
+    type: parent.type,
+    direction: (parent.direction ?? trigger.direction) as SignalDirection,
+    price: trigger.price,
+    ema50: trigger.ema50,
+    ema200: trigger.ema200,
+    indicators: trigger.indicators as InsertSignal["indicators"],
+    metadata,
+    dismissed: false,
+  };
+  return { ...signal, dedupKey: signalDedupKey(signal) };
+}
+
+export class SignalCorrelator {
+  // "mergedStrategyId:assetId" -> linked strategy ID -> its latest signal still waiting for the others (AND only)
+  private pending: Map<string, Map<string, Signal>> = new Map();
+
+  /**
+   * Feed a saved signal through every enabled merged strategy that links its strategy.
+   * Returns the merged signals that fire because of it, ready to be saved (and correlated in turn).
+   */
+  correlate(signal: Signal, strategies: Strategy[]): InsertSignal[] {
+    const merged: InsertSignal[] = [];
+    const firedAt = new Date(signal.createdAt).getTime();
+
+    for (const parent of strategies) {
+      const linked = getLinkedStrategyIds(parent);
+      if (!parent.enabled || !linked.includes(signal.strategyId)) {
+        continue;
+      }
+
+      if (parent.mergeLogic === "OR") {
+        merged.push(toMergedSignal(parent, signal, [signal]));
+        continue;
+      }
+
+      const key = `${parent.id}:${signal.assetId}`;
+      const windowMs = (parent.mergeTimeWindow ?? 60) * 1000;
+      const waiting = this.pending.get(key) ?? new Map<string, Signal>();
+      waiting.set(signal.strategyId, signal);
+
+      // Signals older than the window can no longer be matched
+      Array.from(waiting.entries()).forEach(([strategyId, child]) => {
+        if (firedAt - new Date(child.createdAt).getTime() > windowMs) {
+          waiting.delete(strategyId);
+        }
+      });
+
+      if (linked.every((id) => waiting.has(id))) {
+        this.pending.delete(key);
+        merged.push(toMergedSignal(parent, signal, linked.map((id) => waiting.get(id)!)));
+      } else {
+        this.pending.set(key, waiting);
+      }
+    }
+
+    return merged;
+  }
+}
+
+export const signalCorrelator = new SignalCorrelator();
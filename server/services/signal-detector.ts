@@ -1,30 +1,131 @@
-import type { Strategy, Asset, InsertSignal } from "@shared/schema";
+import { movingAverageLabel, signalDedupKey, isAssetInScope, getStrategyAssetScope, getStrategyOutcomeRules, DEFAULT_OUTCOME_RULES, getStrategySequence, sequenceStepLabel, type SequenceStepMatch, type StrategySequence, type Strategy, type Asset, type InsertSignal, type Signal, type IndicatorSnapshot, type MovingAverageType, type SignalDirection } from "@shared/schema";
 import { storage } from "../storage";
-import { formulaEvaluator } from "./formula-evaluator";
+import { formulaEvaluator, crossesAbove, crossesBelow, type FormulaBar, type FormulaContext, type CompiledFormula } from "./formula-evaluator";
+import { indicatorCalculator } from "./indicator-calculator";
+import { signalCorrelator, getLinkedStrategyIds } from "./signal-correlator";
+import { calculateSignalStrength } from "./signal-strength";
+import { createSignalOutcome, outcomeTracker } from "./outcome-tracker";
+import { strategyRegistry } from "./strategy-registry";
 
-export interface MarketData {
-  assetId: string;
-  timeframe: string;
+export interface MarketDataBar {
   price: number;
   high: number;
   low: number;
   open: number;
   ema50: number;
   ema200: number;
+  volume?: number; // traded during the candle, for feeds that report volume
+}
+
+export interface MarketDataFrame extends MarketDataBar {
+  history?: MarketDataBar[]; // previous closed candles, most recent first
+}
+
+export interface MarketData extends MarketDataFrame {
+  assetId: string;
+  timeframe: string;
+  timestamp?: number; // start of the closed candle, in ms
+  timeframes?: Record<string, MarketDataFrame>; // latest closed candle of each timeframe for the same asset
+}
+
+/**
+ * A bar with the checked strategy's fast and slow moving averages (NaN until there are enough bars)
+ */
+export interface MovingAverageBar extends MarketDataBar {
+  fastMA: number;
+  slowMA: number;
+}
+
+export interface MovingAverageFrame extends MovingAverageBar {
+  history?: MovingAverageBar[];
+}
+
+/**
+ * Market data as one strategy sees it, with the moving averages it is configured with
+ */
+export interface StrategyMarketData extends MarketData, MovingAverageFrame {
+  history?: MovingAverageBar[];
+  timeframes?: Record<string, MovingAverageFrame>;
 }
 
 export interface ISignalStrategy {
-  check(data: MarketData): boolean;
+  check(data: StrategyMarketData): boolean;
   getSignalType(): string;
+  // Trade direction of the preset; strategies without one are neutral unless configured
+  getDirection?(): SignalDirection;
+  // Indicator values the strategy read beyond its fast/slow moving averages, for the signal snapshot
+  getIndicators?(data: StrategyMarketData): IndicatorSnapshot;
+  // Extra fields for the metadata of the signal raised on this bar
+  getMetadata?(data: StrategyMarketData): Record<string, unknown>;
+  // Whether the check reads the fast/slow moving averages, so must wait for them to warm up; presets always do
+  readsMovingAverages?(): boolean;
 }
 
+/**
+ * A strategy's moving average over a frame's bars, oldest first. EMA 50 and 200 are the
+ * ones every candle already carries, computed over the full candle history.
+ */
+export function movingAverageSeries(bars: MarketDataBar[], type: MovingAverageType, period: number): number[] {
+  if (type === "ema" && period === 50) return bars.map((bar) => bar.ema50);
+  if (type === "ema" && period === 200) return bars.map((bar) => bar.ema200);
+  return indicatorCalculator.calculateMovingAverage(bars.map((bar) => bar.price), type, period);
+}
+
+function withMovingAverages(
+  frame: MarketDataFrame,
+  settings: { maType: MovingAverageType; fastPeriod: number; slowPeriod: number }
+): MovingAverageFrame {
+  const history = frame.history ?? [];
+  const bars = [...history].reverse().concat(frame);
+  const fast = movingAverageSeries(bars, settings.maType, settings.fastPeriod);
+  const slow = movingAverageSeries(bars, settings.maType, settings.slowPeriod);
+  const last = bars.length - 1;
+
+  return {
+    ...frame,
+    fastMA: fast[last],
+    slowMA: slow[last],
+    history: history.map((bar, i) => ({ ...bar, fastMA: fast[last - 1 - i], slowMA: slow[last - 1 - i] })),
+  };
+}
+
+/**
+ * Add a strategy's moving averages to the market data, on every timeframe
+ */
+function toStrategyMarketData(data: MarketData, strategy: Strategy): StrategyMarketData {
+  const settings = {
+    maType: strategy.maType as MovingAverageType,
+    fastPeriod: strategy.fastPeriod,
+    slowPeriod: strategy.slowPeriod,
+  };
+
+  let timeframes: Record<string, MovingAverageFrame> | undefined;
+  if (data.timeframes) {
+    timeframes = {};
+    for (const [timeframe, frame] of Object.entries(data.timeframes)) {
+      timeframes[timeframe] = withMovingAverages(frame, settings);
+    }
+  }
+
+  const frame = withMovingAverages(data, settings);
+  return { ...data, ...frame, history: frame.history, timeframes };
+}
+
+/**
+ * Preset strategies compare the price with the strategy's fast and slow moving averages,
+ * which are EMA 50 and EMA 200 unless the strategy is configured otherwise.
+ */
 export class Strategy15MAbove50Bullish implements ISignalStrategy {
   getSignalType(): string {
     return "15m_above_50_bullish";
   }
 
-  check(data: MarketData): boolean {
-    return data.price >= data.ema50 && data.ema50 > data.ema200;
+  getDirection(): SignalDirection {
+    return "long";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    return data.price >= data.fastMA && data.fastMA > data.slowMA;
   }
 }
 
@@ -33,8 +134,12 @@ export class Strategy5MAbove200Reversal implements ISignalStrategy {
     return "5m_above_200_reversal";
   }
 
-  check(data: MarketData): boolean {
-    return data.price >= data.ema200 && data.ema200 > data.ema50;
+  getDirection(): SignalDirection {
+    return "long";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    return data.price >= data.slowMA && data.slowMA > data.fastMA;
   }
 }
 
@@ -43,14 +148,18 @@ export class Strategy5MPullbackTo200 implements ISignalStrategy {
     return "5m_pullback_to_200";
   }
 
-  check(data: MarketData): boolean {
-    const touchesEma200 = data.low <= data.ema200 && data.price >= data.ema200;
-    const priceAbove50 = data.price > data.ema50;
-    const ema50Above200 = data.ema50 > data.ema200;
+  getDirection(): SignalDirection {
+    return "long";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const touchesSlow = data.low <= data.slowMA && data.price >= data.slowMA;
+    const priceAboveFast = data.price > data.fastMA;
+    const fastAboveSlow = data.fastMA > data.slowMA;
     
-    return (touchesEma200 || Math.abs(data.price - data.ema200) < 0.01) && 
-           priceAbove50 && 
-           ema50Above200;
+    return (touchesSlow || Math.abs(data.price - data.slowMA) < 0.01) && 
+           priceAboveFast && 
+           fastAboveSlow;
   }
 }
 
@@ -59,8 +168,12 @@ export class Strategy5MBelow200Bearish implements ISignalStrategy {
     return "5m_below_200_bearish";
   }
 
-  check(data: MarketData): boolean {
-    return data.price <= data.ema200 && data.ema50 > data.ema200;
+  getDirection(): SignalDirection {
+    return "short";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    return data.price <= data.slowMA && data.fastMA > data.slowMA;
   }
 }
 
@@ -69,14 +182,18 @@ export class Strategy5MTouch200Downtrend implements ISignalStrategy {
     return "5m_touch_200_downtrend";
   }
 
-  check(data: MarketData): boolean {
-    const touchesEma200 = data.low <= data.ema200 && data.price >= data.ema200;
-    const ema200Above50 = data.ema200 > data.ema50;
-    const ema50AbovePrice = data.ema50 > data.price;
+  getDirection(): SignalDirection {
+    return "short";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const touchesSlow = data.low <= data.slowMA && data.price >= data.slowMA;
+    const slowAboveFast = data.slowMA > data.fastMA;
+    const fastAbovePrice = data.fastMA > data.price;
     
-    return (touchesEma200 || Math.abs(data.price - data.ema200) < 0.01) && 
-           ema200Above50 && 
-           ema50AbovePrice;
+    return (touchesSlow || Math.abs(data.price - data.slowMA) < 0.01) && 
+           slowAboveFast && 
+           fastAbovePrice;
   }
 }
 
@@ -85,45 +202,367 @@ export class Strategy15MBelow200Breakdown implements ISignalStrategy {
     return "15m_below_200_breakdown";
   }
 
-  check(data: MarketData): boolean {
-    return data.ema50 > data.ema200 && data.ema200 > data.price;
+  getDirection(): SignalDirection {
+    return "short";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    return data.fastMA > data.slowMA && data.slowMA > data.price;
+  }
+}
+
+/**
+ * Cross-based variants of the presets above. They fire only on the candle where
+ * the cross happens (compared with the previous closed candle), not on every
+ * candle while the level condition holds.
+ */
+export class Strategy15MCrossAbove50Bullish implements ISignalStrategy {
+  getSignalType(): string {
+    return "15m_cross_above_50_bullish";
+  }
+
+  getDirection(): SignalDirection {
+    return "long";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const prev = data.history?.[0];
+    if (!prev) return false;
+
+    return crossesAbove(prev.price, prev.fastMA, data.price, data.fastMA) && data.fastMA > data.slowMA;
+  }
+}
+
+export class Strategy5MCrossAbove200Reversal implements ISignalStrategy {
+  getSignalType(): string {
+    return "5m_cross_above_200_reversal";
+  }
+
+  getDirection(): SignalDirection {
+    return "long";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const prev = data.history?.[0];
+    if (!prev) return false;
+
+    return crossesAbove(prev.price, prev.slowMA, data.price, data.slowMA) && data.slowMA > data.fastMA;
+  }
+}
+
+export class Strategy5MCrossPullbackTo200 implements ISignalStrategy {
+  getSignalType(): string {
+    return "5m_cross_pullback_to_200";
+  }
+
+  getDirection(): SignalDirection {
+    return "long";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const prev = data.history?.[0];
+    if (!prev) return false;
+
+    // First candle whose low reaches the slow MA while the close holds above it
+    const lowTouchesSlow = crossesBelow(prev.low, prev.slowMA, data.low, data.slowMA) ||
+      (prev.low > prev.slowMA && data.low === data.slowMA);
+
+    return lowTouchesSlow &&
+           data.price >= data.slowMA &&
+           data.price > data.fastMA &&
+           data.fastMA > data.slowMA;
+  }
+}
+
+export class Strategy5MCrossBelow200Bearish implements ISignalStrategy {
+  getSignalType(): string {
+    return "5m_cross_below_200_bearish";
+  }
+
+  getDirection(): SignalDirection {
+    return "short";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const prev = data.history?.[0];
+    if (!prev) return false;
+
+    return crossesBelow(prev.price, prev.slowMA, data.price, data.slowMA) && data.fastMA > data.slowMA;
+  }
+}
+
+export class Strategy5MCrossTouch200Downtrend implements ISignalStrategy {
+  getSignalType(): string {
+    return "5m_cross_touch_200_downtrend";
+  }
+
+  getDirection(): SignalDirection {
+    return "short";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const prev = data.history?.[0];
+    if (!prev) return false;
+
+    // First candle whose high reaches the slow MA from below in a downtrend
+    const highTouchesSlow = crossesAbove(prev.high, prev.slowMA, data.high, data.slowMA) ||
+      (prev.high < prev.slowMA && data.high === data.slowMA);
+
+    return highTouchesSlow &&
+           data.slowMA > data.fastMA &&
+           data.fastMA > data.price;
+  }
+}
+
+export class Strategy15MCrossBelow200Breakdown implements ISignalStrategy {
+  getSignalType(): string {
+    return "15m_cross_below_200_breakdown";
+  }
+
+  getDirection(): SignalDirection {
+    return "short";
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const prev = data.history?.[0];
+    if (!prev) return false;
+
+    return crossesBelow(prev.price, prev.slowMA, data.price, data.slowMA) && data.fastMA > data.slowMA;
   }
 }
 
+/**
+ * Convert a candle bar to formula variables, exposing the close price as `close`
+ * and the strategy's moving averages as `fast_ma` and `slow_ma`
+ */
+function toFormulaBar(bar: MovingAverageBar): FormulaBar {
+  return {
+    price: bar.price,
+    ema50: bar.ema50,
+    ema200: bar.ema200,
+    high: bar.high,
+    low: bar.low,
+    open: bar.open,
+    close: bar.price,
+    volume: bar.volume,
+    fast_ma: bar.fastMA,
+    slow_ma: bar.slowMA,
+  };
+}
+
+function toFormulaContext(frame: MovingAverageFrame): FormulaContext {
+  return { ...toFormulaBar(frame), history: frame.history?.map(toFormulaBar) };
+}
+
 export class CustomFormulaStrategy implements ISignalStrategy {
-  constructor(private formula: string, private type: string) {
-    // Validate formula on construction
-    const validation = formulaEvaluator.validate(formula);
-    if (!validation.valid) {
-      throw new Error(`Invalid formula: ${validation.errors.join(', ')}`);
-    }
+  private compiled: CompiledFormula;
+
+  // `cacheKey` identifies this version of the formula, so it is validated and compiled only once
+  constructor(formula: string, private type: string, cacheKey?: string) {
+    this.compiled = formulaEvaluator.compile(formula, cacheKey);
   }
 
   getSignalType(): string {
     return this.type;
   }
 
-  check(data: MarketData): boolean {
+  readsMovingAverages(): boolean {
+    return this.compiled.variables.includes("fast_ma") || this.compiled.variables.includes("slow_ma");
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const context = this.buildContext(data);
+    if (!context) {
+      return false;
+    }
+
     try {
       // Use safe formula evaluator instead of new Function()
-      return formulaEvaluator.evaluate(this.formula, {
-        price: data.price,
-        ema50: data.ema50,
-        ema200: data.ema200,
-        high: data.high,
-        low: data.low,
-        open: data.open,
-      });
+      return this.compiled.evaluate(context);
     } catch (error) {
       console.error("Error evaluating custom formula:", error);
       return false;
     }
   }
+
+  getIndicators(data: StrategyMarketData): IndicatorSnapshot {
+    const context = this.buildContext(data);
+    return context ? formulaEvaluator.snapshot(this.compiled.formula, context) : {};
+  }
+
+  // Candlestick patterns the formula matched on this bar
+  getMetadata(data: StrategyMarketData): Record<string, unknown> {
+    const context = this.buildContext(data);
+    const patterns = context ? formulaEvaluator.matchedPatterns(this.compiled.formula, context) : [];
+    return patterns.length > 0 ? { patterns } : {};
+  }
+
+  /**
+   * Formula context for the data, or null if it doesn't have the closed candles the formula reads yet
+   */
+  private buildContext(data: StrategyMarketData): FormulaContext | null {
+    // Not enough closed candles yet for the bars this formula references
+    if ((data.history?.length ?? 0) < this.compiled.lookback) {
+      return null;
+    }
+
+    // Other timeframes this formula reads must have closed enough candles too
+    const timeframes: Record<string, FormulaContext> = {};
+    for (const [timeframe, lookback] of Object.entries(this.compiled.timeframeLookbacks)) {
+      const frame = data.timeframes?.[timeframe];
+      if (!frame) {
+        console.log(`[Signal Detector] ${this.type}: ${timeframe} timeframe not ready for ${data.assetId} (no closed candles yet)`);
+        return null;
+      }
+      const available = (frame.history?.length ?? 0) + 1;
+      if (available <= lookback) {
+        console.log(`[Signal Detector] ${this.type}: ${timeframe} timeframe not ready for ${data.assetId} (have ${available} closed candles, need ${lookback + 1})`);
+        return null;
+      }
+      timeframes[timeframe] = toFormulaContext(frame);
+    }
+
+    return { ...toFormulaContext(data), timeframes };
+  }
+}
+
+interface SequenceStepCondition {
+  label: string;
+  condition: ISignalStrategy;
+  maxBars: number;
+  invalidation: ISignalStrategy | null;
+}
+
+/**
+ * Progress of a sequence strategy on one asset and timeframe. `version` is the strategy version it
+ * was made with, so progress is dropped when the steps are edited.
+ */
+export interface SequenceState {
+  version: string;
+  step: number; // index of the step being waited for
+  barsSinceMatch: number;
+  matched: SequenceStepMatch[];
+  completed: SequenceStepMatch[] | null; // matches of the sequence completed on the latest bar
+}
+
+/**
+ * Strategy made of ordered steps, firing on the bar its last step matches. Each step after the first
+ * must match within its `maxBars` bars of the previous one, and is abandoned if its invalidation
+ * condition holds first; an abandoned sequence starts over from the first step on the same bar.
+ *
+ * Progress is kept per asset and timeframe in `states`, which outlives this instance so that
+ * rebuilding strategy implementations doesn't lose it.
+ */
+export class SequenceStrategy implements ISignalStrategy {
+  constructor(
+    private strategyId: string,
+    private type: string,
+    private version: string,
+    private steps: SequenceStepCondition[],
+    private states: Map<string, SequenceState>
+  ) {}
+
+  getSignalType(): string {
+    return this.type;
+  }
+
+  // A sequence trades in the direction of its final step
+  getDirection(): SignalDirection {
+    return this.steps[this.steps.length - 1].condition.getDirection?.() ?? "neutral";
+  }
+
+  readsMovingAverages(): boolean {
+    return this.steps.some(
+      (step) => (step.condition.readsMovingAverages?.() ?? true) || (step.invalidation?.readsMovingAverages?.() ?? false)
+    );
+  }
+
+  check(data: StrategyMarketData): boolean {
+    const state = this.getState(data);
+    state.completed = null;
+
+    if (state.step > 0) {
+      const waiting = this.steps[state.step];
+      state.barsSinceMatch++;
+      if (state.barsSinceMatch > waiting.maxBars || waiting.invalidation?.check(data)) {
+        this.reset(state);
+      }
+    }
+
+    if (!this.steps[state.step].condition.check(data)) {
+      return false;
+    }
+
+    state.matched.push({
+      step: state.step + 1,
+      label: this.steps[state.step].label,
+      matchedAt: new Date(data.timestamp ?? Date.now()).toISOString(),
+    });
+    state.step++;
+    state.barsSinceMatch = 0;
+
+    if (state.step < this.steps.length) {
+      return false;
+    }
+
+    const completed = state.matched;
+    this.reset(state);
+    state.completed = completed;
+    return true;
+  }
+
+  getMetadata(data: StrategyMarketData): Record<string, unknown> {
+    const completed = this.getState(data).completed;
+    return completed ? { sequence: { steps: completed } } : {};
+  }
+
+  private getState(data: StrategyMarketData): SequenceState {
+    const key = `${this.strategyId}:${data.assetId}:${data.timeframe}`;
+    let state = this.states.get(key);
+    if (!state || state.version !== this.version) {
+      state = { version: this.version, step: 0, barsSinceMatch: 0, matched: [], completed: null };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  private reset(state: SequenceState): void {
+    state.step = 0;
+    state.barsSinceMatch = 0;
+    state.matched = [];
+  }
+}
+
+// Deepest chain of merged strategies whose signals are correlated, guarding against cyclic links
+const MAX_MERGE_DEPTH = 10;
+
+/**
+ * Implementation built for a stored strategy. Merged strategies have none, and a strategy whose
+ * formula doesn't compile or whose preset type is unknown has none and an error.
+ */
+export interface StrategyImplementationStatus {
+  strategyId: string;
+  kind: "preset" | "formula" | "sequence" | "merged";
+  error: string | null;
+}
+
+interface BuiltImplementation extends StrategyImplementationStatus {
+  implementation: ISignalStrategy | null;
 }
 
 export class SignalDetector {
   private strategies: Map<string, ISignalStrategy> = new Map();
 
+  // Implementation of every registered strategy by ID, rebuilt whenever the strategy registry reloads
+  private implementations: Map<string, BuiltImplementation> = new Map();
+
+  // Progress of sequence strategies per "strategyId:assetId:timeframe", see SequenceStrategy
+  private sequenceStates: Map<string, SequenceState> = new Map();
+
+  // Last condition result per "strategyId:assetId:timeframe"; signals fire only when it turns true.
+  // Kept in memory only: a missing result is worked out from the previous bar, see checkPreviousBar
+  private conditionStates: Map<string, boolean> = new Map();
+
   constructor() {
     this.strategies.set("15m_above_50_bullish", new Strategy15MAbove50Bullish());
     this.strategies.set("5m_above_200_reversal", new Strategy5MAbove200Reversal());
@@ -131,15 +570,173 @@ export class SignalDetector {
     this.strategies.set("5m_below_200_bearish", new Strategy5MBelow200Bearish());
     this.strategies.set("5m_touch_200_downtrend", new Strategy5MTouch200Downtrend());
     this.strategies.set("15m_below_200_breakdown", new Strategy15MBelow200Breakdown());
+    this.strategies.set("15m_cross_above_50_bullish", new Strategy15MCrossAbove50Bullish());
+    this.strategies.set("5m_cross_above_200_reversal", new Strategy5MCrossAbove200Reversal());
+    this.strategies.set("5m_cross_pullback_to_200", new Strategy5MCrossPullbackTo200());
+    this.strategies.set("5m_cross_below_200_bearish", new Strategy5MCrossBelow200Bearish());
+    this.strategies.set("5m_cross_touch_200_downtrend", new Strategy5MCrossTouch200Downtrend());
+    this.strategies.set("15m_cross_below_200_breakdown", new Strategy15MCrossBelow200Breakdown());
+
+    strategyRegistry.on("change", (strategies: Strategy[]) => this.buildImplementations(strategies));
   }
 
   addCustomStrategy(type: string, formula: string) {
     this.strategies.set(type, new CustomFormulaStrategy(formula, type));
   }
 
+  /**
+   * Whether a preset strategy type has an implementation, e.g. for a sequence step
+   */
+  hasPreset(type: string): boolean {
+    return this.strategies.has(type);
+  }
+
+  /**
+   * Build the implementation of every strategy up front, so evaluating a candle only runs them
+   */
+  private buildImplementations(strategies: Strategy[]): void {
+    const implementations = new Map<string, BuiltImplementation>();
+    for (const strategy of strategies) {
+      implementations.set(strategy.id, this.buildImplementation(strategy));
+    }
+    this.implementations = implementations;
+
+    const failed = Array.from(implementations.values()).filter((built) => built.error !== null);
+    for (const built of failed) {
+      console.error(`[Signal Detector] Strategy ${built.strategyId} can't be evaluated: ${built.error}`);
+    }
+  }
+
+  private buildImplementation(strategy: Strategy): BuiltImplementation {
+    if (getLinkedStrategyIds(strategy).length > 0) {
+      return { strategyId: strategy.id, kind: "merged", implementation: null, error: null };
+    }
+
+    const sequence = getStrategySequence(strategy);
+    if (sequence) {
+      try {
+        return { strategyId: strategy.id, kind: "sequence", implementation: this.buildSequence(strategy, sequence), error: null };
+      } catch (error) {
+        return { strategyId: strategy.id, kind: "sequence", implementation: null, error: (error as Error).message };
+      }
+    }
+
+    if (strategy.isCustom && strategy.formula) {
+      try {
+        // The version in the cache key makes an edited formula compile afresh
+        const version = new Date(strategy.updatedAt).getTime();
+        const implementation = new CustomFormulaStrategy(strategy.formula, strategy.type, `${strategy.id}:${version}`);
+        return { strategyId: strategy.id, kind: "formula", implementation, error: null };
+      } catch (error) {
+        return { strategyId: strategy.id, kind: "formula", implementation: null, error: (error as Error).message };
+      }
+    }
+
+    const implementation = this.strategies.get(strategy.type) ?? null;
+    return {
+      strategyId: strategy.id,
+      kind: "preset",
+      implementation,
+      error: implementation ? null : `No implementation found for strategy type: ${strategy.type}`,
+    };
+  }
+
+  private buildSequence(strategy: Strategy, sequence: StrategySequence): SequenceStrategy {
+    const version = String(new Date(strategy.updatedAt).getTime());
+    const steps = sequence.steps.map((step, index): SequenceStepCondition => {
+      const cacheKey = `${strategy.id}:${version}:step${index + 1}`;
+      let condition: ISignalStrategy | undefined;
+      if (step.preset) {
+        condition = this.strategies.get(step.preset);
+        if (!condition) {
+          throw new Error(`Step ${index + 1}: no implementation found for preset ${step.preset}`);
+        }
+      } else {
+        condition = new CustomFormulaStrategy(step.formula!, strategy.type, cacheKey);
+      }
+      return {
+        label: sequenceStepLabel(step),
+        condition,
+        maxBars: step.maxBars,
+        invalidation: step.invalidation
+          ? new CustomFormulaStrategy(step.invalidation, strategy.type, `${cacheKey}:invalidation`)
+          : null,
+      };
+    });
+    return new SequenceStrategy(strategy.id, strategy.type, version, steps, this.sequenceStates);
+  }
+
+  /**
+   * How each registered strategy is evaluated, for the strategy registry admin view
+   */
+  getImplementationStatuses(): StrategyImplementationStatus[] {
+    return Array.from(this.implementations.values()).map(({ strategyId, kind, error }) => ({ strategyId, kind, error }));
+  }
+
+  /**
+   * Whether the strategy runs on the asset. Scoped strategies skip assets that no longer exist.
+   */
+  private isInScope(strategy: Strategy, asset: Asset | undefined): boolean {
+    const scope = getStrategyAssetScope(strategy);
+    return scope === null || (asset !== undefined && isAssetInScope(asset, scope));
+  }
+
+  /**
+   * Record a strategy's latest condition result and report whether it just turned true.
+   * `checkPrevious` gives the previous result when none is recorded yet.
+   */
+  private isRisingEdge(strategyId: string, data: MarketData, triggered: boolean, checkPrevious: () => boolean): boolean {
+    const key = `${strategyId}:${data.assetId}:${data.timeframe}`;
+    const previous = this.conditionStates.get(key) ?? checkPrevious();
+    this.conditionStates.set(key, triggered);
+    return triggered && !previous;
+  }
+
+  /**
+   * Check a strategy on the bar before the latest, which after a restart was loaded from the stored
+   * candles: a condition that was already true then doesn't signal again, nor does one that was true
+   * when the strategy was added. Other timeframes are read at their latest candle. Sequences count as
+   * false, as checking them advances their progress.
+   */
+  private checkPreviousBar(built: BuiltImplementation, data: StrategyMarketData, readsMovingAverages: boolean): boolean {
+    const [previous, ...history] = data.history ?? [];
+    if (!previous || !built.implementation || built.kind === "sequence") {
+      return false;
+    }
+    if (readsMovingAverages && (isNaN(previous.fastMA) || isNaN(previous.slowMA))) {
+      return false;
+    }
+    return built.implementation.check({ ...data, ...previous, history });
+  }
+
+  /**
+   * Whether the strategy raised the same signal within its cooldown. If so the repeat is
+   * counted on that signal instead of being sent again.
+   */
+  private async suppressRepeat(dbStrategy: Strategy, dedupKey: string): Promise<boolean> {
+    if (dbStrategy.cooldownMinutes <= 0) {
+      return false;
+    }
+
+    const latest = await storage.getLatestSignalByDedupKey(dedupKey);
+    if (!latest || Date.now() - new Date(latest.createdAt).getTime() >= dbStrategy.cooldownMinutes * 60 * 1000) {
+      return false;
+    }
+
+    await storage.updateSignal(latest.id, { repeatCount: latest.repeatCount + 1 });
+    return true;
+  }
+
+  /**
+   * Check every enabled strategy of the data's timeframe. A strategy signals when its condition
+   * goes from false to true, not on every bar it stays true, and repeats within its cooldown are suppressed.
+   */
   async detectSignals(data: MarketData): Promise<InsertSignal[]> {
     const signals: InsertSignal[] = [];
-    const dbStrategies = await storage.getStrategies();
+    const dbStrategies = await strategyRegistry.getStrategies();
+    const asset = await storage.getAsset(data.assetId);
+
+    const strategyDataBySettings = new Map<string, StrategyMarketData>();
 
     console.log(`[Signal Detector] Checking ${dbStrategies.length} strategies for ${data.assetId} (${data.timeframe})`);
 
@@ -148,37 +745,77 @@ export class SignalDetector {
         console.log(`[Signal Detector] Skipping disabled strategy: ${dbStrategy.name}`);
         continue;
       }
+      if (getLinkedStrategyIds(dbStrategy).length > 0) {
+        continue; // merged strategies fire from their linked strategies' signals, see saveSignals
+      }
       if (dbStrategy.timeframe !== data.timeframe) {
         console.log(`[Signal Detector] Skipping strategy ${dbStrategy.name} - timeframe mismatch (${dbStrategy.timeframe} vs ${data.timeframe})`);
         continue;
       }
-
-      let strategyImpl = this.strategies.get(dbStrategy.type);
-
-      if (dbStrategy.isCustom && dbStrategy.formula) {
-        strategyImpl = new CustomFormulaStrategy(dbStrategy.formula, dbStrategy.type);
+      if (!this.isInScope(dbStrategy, asset)) {
+        console.log(`[Signal Detector] Skipping strategy ${dbStrategy.name} - ${asset?.symbol ?? data.assetId} is outside its asset scope`);
+        continue;
       }
 
-      if (!strategyImpl) {
-        console.log(`[Signal Detector] No implementation found for strategy type: ${dbStrategy.type}`);
+      const built = this.implementations.get(dbStrategy.id);
+      const strategyImpl = built?.implementation;
+      if (!built || !strategyImpl) {
+        console.log(`[Signal Detector] Skipping strategy ${dbStrategy.name} - ${built?.error ?? "not built"}`);
         continue;
       }
 
       try {
-        const shouldSignal = strategyImpl.check(data);
-        console.log(`[Signal Detector] Strategy ${dbStrategy.name} (${dbStrategy.type}): ${shouldSignal ? 'TRIGGERED' : 'not triggered'}`);
+        // Strategies sharing moving average settings share the computed values
+        const settingsKey = `${dbStrategy.maType}:${dbStrategy.fastPeriod}:${dbStrategy.slowPeriod}`;
+        let strategyData = strategyDataBySettings.get(settingsKey);
+        if (!strategyData) {
+          strategyData = toStrategyMarketData(data, dbStrategy);
+          strategyDataBySettings.set(settingsKey, strategyData);
+        }
+
+        const fastLabel = movingAverageLabel(dbStrategy.maType, dbStrategy.fastPeriod);
+        const slowLabel = movingAverageLabel(dbStrategy.maType, dbStrategy.slowPeriod);
+        // Formulas that don't read the moving averages can run before they have warmed up
+        const readsMovingAverages = strategyImpl.readsMovingAverages?.() ?? true;
+        if (readsMovingAverages && (isNaN(strategyData.fastMA) || isNaN(strategyData.slowMA))) {
+          console.log(`[Signal Detector] Skipping strategy ${dbStrategy.name} - not enough candles yet for ${fastLabel}/${slowLabel}`);
+          continue;
+        }
+
+        const triggered = strategyImpl.check(strategyData);
+        const shouldSignal = this.isRisingEdge(dbStrategy.id, data, triggered, () =>
+          this.checkPreviousBar(built, strategyData!, readsMovingAverages)
+        );
+        console.log(`[Signal Detector] Strategy ${dbStrategy.name} (${dbStrategy.type}): ${shouldSignal ? 'TRIGGERED' : triggered ? 'still triggered' : 'not triggered'}`);
 
         if (shouldSignal) {
+          const type = strategyImpl.getSignalType();
+          const direction = (dbStrategy.direction as SignalDirection | null) ?? strategyImpl.getDirection?.() ?? "neutral";
+          const dedupKey = signalDedupKey({ strategyId: dbStrategy.id, assetId: data.assetId, timeframe: data.timeframe, type });
+          if (await this.suppressRepeat(dbStrategy, dedupKey)) {
+            console.log(`[Signal Detector] Strategy ${dbStrategy.name}: repeat within ${dbStrategy.cooldownMinutes}m cooldown suppressed`);
+            continue;
+          }
+
+          const indicators: IndicatorSnapshot = {
+            ...(isNaN(strategyData.fastMA) ? {} : { [fastLabel]: strategyData.fastMA }),
+            ...(isNaN(strategyData.slowMA) ? {} : { [slowLabel]: strategyData.slowMA }),
+            ...strategyImpl.getIndicators?.(strategyData),
+          };
+
           signals.push({
             strategyId: dbStrategy.id,
             assetId: data.assetId,
             timeframe: data.timeframe,
-            type: strategyImpl.getSignalType(),
+            type,
+            direction,
             price: data.price,
             ema50: data.ema50,
             ema200: data.ema200,
-            metadata: null,
+            indicators,
+            metadata: { strength: calculateSignalStrength(strategyData, direction), ...strategyImpl.getMetadata?.(strategyData) },
             dismissed: false,
+            dedupKey,
           });
         }
       } catch (error) {
@@ -189,6 +826,57 @@ export class SignalDetector {
     console.log(`[Signal Detector] Generated ${signals.length} signals`);
     return signals;
   }
+
+  /**
+   * Save detected signals, along with the merged-strategy signals they complete, and start tracking their outcomes.
+   * Returns every saved signal, merged ones after the signals that made them up.
+   */
+  async saveSignals(signals: InsertSignal[]): Promise<Signal[]> {
+    const saved: Signal[] = [];
+    if (signals.length === 0) {
+      return saved;
+    }
+
+    const dbStrategies = await strategyRegistry.getStrategies();
+    const assets = new Map<string, Asset | undefined>();
+    const queue: Array<{ signal: InsertSignal; depth: number }> = signals.map((signal) => ({ signal, depth: 0 }));
+
+    while (queue.length > 0) {
+      const { signal, depth } = queue.shift()!;
+      const strategy = dbStrategies.find((s) => s.id === signal.strategyId);
+      const rules = strategy ? getStrategyOutcomeRules(strategy) : DEFAULT_OUTCOME_RULES;
+      const created = await storage.createSignal({
+        ...signal,
+        outcome: createSignalOutcome(signal.price, rules),
+        strategyVersion: strategy?.version,
+      });
+      outcomeTracker.track(created);
+      saved.push(created);
+
+      if (depth >= MAX_MERGE_DEPTH) {
+        console.log(`[Signal Detector] Not correlating ${created.type}: merged strategies nested more than ${MAX_MERGE_DEPTH} deep`);
+        continue;
+      }
+
+      for (const merged of signalCorrelator.correlate(created, dbStrategies)) {
+        const parent = dbStrategies.find((s) => s.id === merged.strategyId)!;
+        if (!assets.has(merged.assetId)) {
+          assets.set(merged.assetId, await storage.getAsset(merged.assetId));
+        }
+        if (!this.isInScope(parent, assets.get(merged.assetId))) {
+          continue;
+        }
+        if (await this.suppressRepeat(parent, merged.dedupKey!)) {
+          console.log(`[Signal Detector] Merged strategy ${parent.name}: repeat within ${parent.cooldownMinutes}m cooldown suppressed`);
+          continue;
+        }
+        console.log(`[Signal Detector] Merged strategy ${parent.name} (${parent.mergeLogic}): TRIGGERED`);
+        queue.push({ signal: merged, depth: depth + 1 });
+      }
+    }
+
+    return saved;
+  }
 }
 
 export const signalDetector = new SignalDetector();
@@ -0,0 +1,42 @@
+import type { SignalDirection, SignalStrength } from "@shared/schema";
+import type { StrategyMarketData } from "./signal-detector";
+
+// Bars averaged for the typical bar range that distances are measured in
+const RANGE_BARS = 14;
+// Bars the fast moving average's slope is measured over
+const SLOPE_BARS = 5;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Score how strongly the market agrees with a signal's direction, from how far the price is
+ * beyond the strategy's moving averages and how steeply the fast one is moving.
+ * Both are measured in average bar ranges, so scores compare across assets and timeframes.
+ * A neutral signal scores the size of the move in either direction.
+ */
+export function calculateSignalStrength(data: StrategyMarketData, direction: SignalDirection): SignalStrength {
+  const bars = [data, ...(data.history ?? [])];
+
+  const recent = bars.slice(0, RANGE_BARS);
+  const averageRange = recent.reduce((sum, bar) => sum + (bar.high - bar.low), 0) / recent.length;
+  const unit = averageRange > 0 ? averageRange : Math.abs(data.price) * 0.001 || 1;
+
+  // Formula strategies that don't read the moving averages can fire before they have warmed up
+  const warmedUp = !isNaN(data.fastMA) && !isNaN(data.slowMA);
+  const rawDistance = warmedUp ? ((data.price - data.fastMA) + (data.price - data.slowMA)) / 2 / unit : 0;
+
+  const past = bars[Math.min(SLOPE_BARS, bars.length - 1)];
+  const rawSlope = warmedUp && past !== data && !isNaN(past.fastMA) ? (data.fastMA - past.fastMA) / unit : 0;
+
+  const align = (value: number) =>
+    direction === "long" ? value : direction === "short" ? -value : Math.abs(value);
+  const distance = align(rawDistance);
+  const slope = align(rawSlope);
+
+  // Three bar ranges beyond the averages, or a one-range move of the fast MA, is a strong reading
+  const score = 100 * (Math.tanh(Math.max(0, distance) / 3) + Math.tanh(Math.max(0, slope))) / 2;
+
+  return { score: Math.round(score), distance: round(distance), slope: round(slope) };
+}
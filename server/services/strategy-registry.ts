@@ -0,0 +1,138 @@
+import { EventEmitter } from "events";
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import type { Strategy } from "@shared/schema";
+
+/**
+ * In-process cache of the stored strategies, so signal detection doesn't query the database on
+ * every candle close.
+ *
+ * Strategies are loaded on first use and reloaded when the strategy routes change them. A periodic
+ * check compares a checksum of the stored strategies with the loaded ones, to pick up changes made
+ * elsewhere (another process, a manual database edit). Every reload emits "change" with the new
+ * strategies, so dependents such as the signal detector can rebuild what they derive from them.
+ */
+
+// How often the stored strategies are compared with the loaded ones
+export const REGISTRY_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Checksum of the strategy fields that affect evaluation. The signal count changes on every
+ * signal, so it is left out.
+ */
+export function strategiesChecksum(strategies: Strategy[]): string {
+  const rows = strategies
+    .map(({ signalCount, ...strategy }) => strategy)
+    .sort((a, b) => a.id.localeCompare(b.id));
+  return createHash("sha256").update(JSON.stringify(rows)).digest("hex");
+}
+
+export interface StrategyRegistryStatus {
+  checksum: string | null;
+  loadedAt: string | null;
+  lastCheckedAt: string | null;
+  lastReloadReason: string | null;
+  reloads: number;
+  strategies: Strategy[];
+}
+
+export class StrategyRegistry extends EventEmitter {
+  private strategies: Strategy[] = [];
+  private checksum: string | null = null;
+  private loadedAt: Date | null = null;
+  private lastCheckedAt: Date | null = null;
+  private lastReloadReason: string | null = null;
+  private reloads = 0;
+  private pending: Promise<void> = Promise.resolve();
+  private initialLoad: Promise<void> | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Loaded strategies, loading them on first use
+   */
+  async getStrategies(): Promise<Strategy[]> {
+    if (this.checksum === null) {
+      if (!this.initialLoad) {
+        this.initialLoad = this.reload("initial load").finally(() => {
+          this.initialLoad = null;
+        });
+      }
+      await this.initialLoad;
+    }
+    return this.strategies;
+  }
+
+  /**
+   * Load the stored strategies and notify listeners, e.g. after a strategy route changed them.
+   * Reloads run one at a time, in the order they were requested.
+   */
+  reload(reason: string): Promise<void> {
+    return this.enqueue(async () => {
+      this.apply(await storage.getStrategies(), reason);
+    });
+  }
+
+  /**
+   * Reload only if the stored strategies differ from the loaded ones
+   */
+  check(): Promise<void> {
+    return this.enqueue(async () => {
+      const stored = await storage.getStrategies();
+      this.lastCheckedAt = new Date();
+      if (this.checksum !== null && strategiesChecksum(stored) !== this.checksum) {
+        this.apply(stored, "checksum changed");
+      }
+    });
+  }
+
+  /**
+   * Start the periodic checksum check
+   */
+  start(intervalMs: number = REGISTRY_CHECK_INTERVAL_MS): void {
+    if (this.checkInterval) return;
+
+    this.checkInterval = setInterval(() => {
+      this.check().catch((error) => {
+        console.error("[Strategy Registry] Error checking strategies:", error);
+      });
+    }, intervalMs);
+    this.checkInterval.unref();
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  getStatus(): StrategyRegistryStatus {
+    return {
+      checksum: this.checksum,
+      loadedAt: this.loadedAt?.toISOString() ?? null,
+      lastCheckedAt: this.lastCheckedAt?.toISOString() ?? null,
+      lastReloadReason: this.lastReloadReason,
+      reloads: this.reloads,
+      strategies: this.strategies,
+    };
+  }
+
+  private apply(strategies: Strategy[], reason: string): void {
+    this.strategies = strategies;
+    this.checksum = strategiesChecksum(strategies);
+    this.loadedAt = new Date();
+    this.lastReloadReason = reason;
+    this.reloads++;
+    console.log(`[Strategy Registry] Loaded ${strategies.length} strategies (${reason})`);
+    this.emit("change", strategies);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.pending.then(task);
+    // A failed load shouldn't block the ones queued after it
+    this.pending = run.catch(() => {});
+    return run;
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
@@ -0,0 +1,187 @@
+import { storage } from "../storage";
+import type {
+  Strategy,
+  StrategySnapshot,
+  StrategyVersion,
+  StrategyVersionAction,
+  StrategyVersionChange,
+  StrategyVersionComparison,
+} from "@shared/schema";
+
+/**
+ * Version history of strategies.
+ *
+ * Every change made through the strategy routes bumps the strategy's `version` and records an
+ * immutable version row: the strategy as saved, what changed from the previous version, and who
+ * made the change. Signals store the version that raised them, so a signal can always be traced
+ * to the exact rule that produced it. A rollback restores an old version's fields as a new version;
+ * history is never rewritten.
+ *
+ * Strategies created before versions were kept have no history until their first change, which
+ * records their state at that point as a "baseline" version first.
+ */
+
+export interface StrategyVersionAuthor {
+  id: string;
+  name: string;
+}
+
+/**
+ * The fields of a strategy a version records
+ */
+export function strategySnapshot(strategy: Strategy): StrategySnapshot {
+  const { id, signalCount, version, createdAt, updatedAt, ...snapshot } = strategy;
+  return snapshot;
+}
+
+/**
+ * JSON with object keys sorted, so jsonb values compare equal however the database ordered their keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fields that differ between two snapshots, in the order of the newer one
+ */
+export function diffStrategySnapshots(from: StrategySnapshot, to: StrategySnapshot): StrategyVersionChange[] {
+  const fields = Array.from(new Set([...Object.keys(to), ...Object.keys(from)])) as Array<keyof StrategySnapshot>;
+  return fields
+    .filter((field) => stableStringify(from[field]) !== stableStringify(to[field]))
+    .map((field) => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+export class StrategyVersioning {
+  // Changes to one strategy run one at a time, so two of them can't claim the same version number
+  private pending: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Record the first version of a strategy that was just created
+   */
+  async recordCreated(strategy: Strategy, author: StrategyVersionAuthor | null): Promise<StrategyVersion> {
+    return this.enqueue(strategy.id, () => this.record(strategy, "create", [], author));
+  }
+
+  /**
+   * Apply changes to a strategy and record them as a new version. Fields that aren't part of a
+   * snapshot (id, signal count, version, timestamps) are ignored. A change that leaves every field
+   * as it was is not a new version, and returns the strategy unchanged.
+   */
+  update(
+    id: string,
+    data: Partial<Strategy>,
+    author: StrategyVersionAuthor | null,
+    action: StrategyVersionAction = "update",
+    sourceVersion: number | null = null
+  ): Promise<Strategy | undefined> {
+    return this.enqueue(id, async () => {
+      const existing = await storage.getStrategy(id);
+      if (!existing) {
+        return undefined;
+      }
+
+      const current = strategySnapshot(existing);
+      const changes: Partial<StrategySnapshot> = {};
+      for (const field of Object.keys(current) as Array<keyof StrategySnapshot>) {
+        if (field in data) {
+          (changes as Record<string, unknown>)[field] = data[field];
+        }
+      }
+      if (diffStrategySnapshots(current, { ...current, ...changes }).length === 0) {
+        return existing;
+      }
+
+      await this.ensureBaseline(existing);
+      const updated = await storage.updateStrategy(id, { ...changes, version: existing.version + 1 });
+      if (!updated) {
+        return undefined;
+      }
+      const diff = diffStrategySnapshots(current, strategySnapshot(updated));
+      await this.record(updated, action, diff, author, sourceVersion);
+      return updated;
+    });
+  }
+
+  /**
+   * Restore the fields of an earlier version as a new version. Returns undefined if the strategy
+   * or version doesn't exist.
+   */
+  async rollback(id: string, version: number, author: StrategyVersionAuthor | null): Promise<Strategy | undefined> {
+    const target = await storage.getStrategyVersion(id, version);
+    if (!target) {
+      return undefined;
+    }
+    return this.update(id, target.snapshot as StrategySnapshot, author, "rollback", version);
+  }
+
+  /**
+   * Differences between two recorded versions, or undefined if either doesn't exist
+   */
+  async compare(id: string, from: number, to: number): Promise<StrategyVersionComparison | undefined> {
+    const [fromVersion, toVersion] = await Promise.all([
+      storage.getStrategyVersion(id, from),
+      storage.getStrategyVersion(id, to),
+    ]);
+    if (!fromVersion || !toVersion) {
+      return undefined;
+    }
+    return {
+      strategyId: id,
+      from,
+      to,
+      changes: diffStrategySnapshots(fromVersion.snapshot as StrategySnapshot, toVersion.snapshot as StrategySnapshot),
+    };
+  }
+
+  /**
+   * Record a strategy that has no history yet as it is, before its first recorded change
+   */
+  private async ensureBaseline(strategy: Strategy): Promise<void> {
+    if (!(await storage.getStrategyVersion(strategy.id, strategy.version))) {
+      await this.record(strategy, "baseline", [], null);
+    }
+  }
+
+  private record(
+    strategy: Strategy,
+    action: StrategyVersionAction,
+    changes: StrategyVersionChange[],
+    author: StrategyVersionAuthor | null,
+    sourceVersion: number | null = null
+  ): Promise<StrategyVersion> {
+    return storage.createStrategyVersion({
+      strategyId: strategy.id,
+      version: strategy.version,
+      action,
+      snapshot: strategySnapshot(strategy),
+      changes,
+      authorId: author?.id ?? null,
+      authorName: author?.name ?? null,
+      sourceVersion,
+    });
+  }
+
+  private enqueue<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.pending.get(id) ?? Promise.resolve()).then(task);
+    // A failed change shouldn't block the ones queued after it
+    const settled = run.catch(() => {});
+    this.pending.set(id, settled);
+    settled.then(() => {
+      if (this.pending.get(id) === settled) {
+        this.pending.delete(id);
+      }
+    });
+    return run;
+  }
+}
+
+export const strategyVersioning = new StrategyVersioning();
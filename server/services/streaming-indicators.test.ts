@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { StreamingEMA, StreamingIndicatorEngine } from "./streaming-indicators";
+import { emaCalculator } from "./ema-calculator";
+import { indicatorCalculator } from "./indicator-calculator";
+
+// A noisy trending series long enough to warm up EMA200
+const PRICES = Array.from({ length: 600 }, (_, i) => 100 + i * 0.05 + 3 * Math.sin(i / 7) + ((i * 7919) % 13) / 10);
+
+test("StreamingEMA is bit-identical to the batch EMA over the same series", () => {
+  for (const period of [1, 9, 21, 50, 200]) {
+    const batch = emaCalculator.calculateEMA(PRICES, period);
+    const viaLibrary = indicatorCalculator.calculateMovingAverage(PRICES, "ema", period);
+    const streaming = new StreamingEMA(period);
+
+    PRICES.forEach((price, i) => {
+      const value = streaming.update(price);
+      if (Number.isNaN(batch[i])) {
+        assert.ok(Number.isNaN(value), `ema${period}[${i}] should still be seeding`);
+      } else {
+        assert.equal(value, batch[i], `ema${period}[${i}]`);
+        assert.equal(value, viaLibrary[i], `ema${period}[${i}] (indicator library)`);
+      }
+    });
+    assert.equal(streaming.length, PRICES.length);
+  }
+});
+
+test("the engine keeps separate state per asset and timeframe", () => {
+  const engine = new StreamingIndicatorEngine();
+  const batch = emaCalculator.calculateEMA50And200(PRICES);
+
+  PRICES.forEach((price, i) => {
+    const { ema50, ema200 } = engine.updateEMA50And200("asset-1", "5m", price);
+    engine.updateEMA50And200("asset-1", "15m", price * 2);
+    assert.equal(ema50 ?? NaN, emaCalculator.calculateEMA(PRICES.slice(0, i + 1), 50)[i]);
+    if (i < 199) assert.equal(ema200, null);
+  });
+
+  assert.equal(engine.getEMA("asset-1", "5m", 50), batch.ema50);
+  assert.equal(engine.getEMA("asset-1", "5m", 200), batch.ema200);
+  assert.equal(engine.getEMA("asset-1", "15m", 50), emaCalculator.calculateEMA(PRICES.map((p) => p * 2), 50).at(-1));
+  assert.equal(engine.getEMA("asset-2", "5m", 50), null);
+  assert.equal(engine.getLength("asset-1", "5m"), PRICES.length);
+});
+
+test("reset drops one series, or every timeframe of an asset", () => {
+  const engine = new StreamingIndicatorEngine();
+  for (const price of PRICES) {
+    engine.updateEMA50And200("asset-1", "5m", price);
+    engine.updateEMA50And200("asset-1", "15m", price);
+  }
+
+  engine.reset("asset-1", "5m");
+  assert.equal(engine.getEMA("asset-1", "5m", 50), null);
+  assert.notEqual(engine.getEMA("asset-1", "15m", 50), null);
+
+  engine.reset("asset-1");
+  assert.equal(engine.getLength("asset-1", "15m"), 0);
+});
+
+test("a restored checkpoint continues bit for bit like an uninterrupted run", () => {
+  const uninterrupted = new StreamingIndicatorEngine();
+  const beforeRestart = new StreamingIndicatorEngine();
+  const split = 120; // EMA50 warmed up, EMA200 still seeding
+
+  PRICES.forEach((price, i) => {
+    uninterrupted.updateEMA50And200("angel:INFY", "tick", price);
+    if (i < split) beforeRestart.updateEMA50And200("angel:INFY", "tick", price);
+  });
+
+  // Saved as JSON and loaded by a new process
+  const checkpoint = JSON.parse(JSON.stringify(beforeRestart.checkpoint("tick")));
+  const afterRestart = new StreamingIndicatorEngine();
+  afterRestart.restore(checkpoint);
+  assert.equal(afterRestart.getLength("angel:INFY", "tick"), split);
+
+  PRICES.slice(split).forEach((price) => {
+    afterRestart.updateEMA50And200("angel:INFY", "tick", price);
+  });
+  assert.equal(afterRestart.getEMA("angel:INFY", "tick", 50), uninterrupted.getEMA("angel:INFY", "tick", 50));
+  assert.equal(afterRestart.getEMA("angel:INFY", "tick", 200), uninterrupted.getEMA("angel:INFY", "tick", 200));
+  assert.deepEqual(afterRestart.checkpoint().series, uninterrupted.checkpoint().series);
+});
+
+test("a checkpoint can hold one timeframe, and restoring it leaves the other series alone", () => {
+  const engine = new StreamingIndicatorEngine();
+  for (const price of PRICES.slice(0, 60)) {
+    engine.updateEMA50And200("asset-1", "tick", price);
+    engine.updateEMA50And200("asset-1", "5m", price);
+  }
+  const checkpoint = engine.checkpoint("tick");
+  assert.deepEqual(Object.keys(checkpoint.series), ["asset-1:tick"]);
+
+  const restored = new StreamingIndicatorEngine();
+  restored.updateEMA50And200("asset-1", "5m", 100);
+  restored.restore(checkpoint);
+  assert.equal(restored.getEMA("asset-1", "tick", 50), engine.getEMA("asset-1", "tick", 50));
+  assert.equal(restored.getLength("asset-1", "5m"), 1);
+});
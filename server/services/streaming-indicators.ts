@@ -0,0 +1,207 @@
+/**
+ * Streaming indicator engine.
+ *
+ * Keeps running state per asset, timeframe and indicator so each new value
+ * (a tick or a closed candle) is folded in with constant work, instead of
+ * recomputing the indicator over the whole price history every time.
+ *
+ * Values match `emaCalculator.calculateEMA` run over every value the series
+ * has received: the same SMA seed over the first `period` values, then the
+ * same recurrence, evaluated in the same order so results are bit-identical.
+ * Note that this is the EMA of the full series, not of a trailing window.
+ *
+ * Candle series are rebuilt on startup by replaying their stored candles (see candle-store).
+ * Tick series have no stored values to replay, so their state is checkpointed instead
+ * (see jobs/indicator-checkpoint).
+ */
+
+/**
+ * Serializable state of one streaming EMA
+ */
+export interface StreamingEMAState {
+  period: number;
+  count: number; // values received so far
+  sum: number;   // running sum while seeding the initial SMA
+  value: number | null; // current EMA, null until `period` values were received
+}
+
+/**
+ * Snapshot of series in the engine, safe to JSON.stringify and restore later.
+ * Keys are "assetId:timeframe", then indicator name (e.g. "ema50").
+ */
+export interface IndicatorCheckpoint {
+  createdAt: string;
+  series: Record<string, Record<string, StreamingEMAState>>;
+}
+
+export class StreamingEMA {
+  private readonly multiplier: number;
+  private count = 0;
+  private sum = 0;
+  private value = NaN;
+
+  constructor(readonly period: number) {
+    if (period <= 0) {
+      throw new Error('EMA period must be greater than 0');
+    }
+    this.multiplier = 2 / (period + 1);
+  }
+
+  /**
+   * Add the next value and return the updated EMA (NaN while still seeding)
+   */
+  update(price: number): number {
+    this.count++;
+
+    if (this.count < this.period) {
+      this.sum += price;
+    } else if (this.count === this.period) {
+      this.sum += price;
+      this.value = this.sum / this.period;
+    } else {
+      // EMA = (Current Price - Previous EMA) × Multiplier + Previous EMA
+      this.value = (price - this.value) * this.multiplier + this.value;
+    }
+
+    return this.value;
+  }
+
+  get current(): number {
+    return this.value;
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  toState(): StreamingEMAState {
+    return {
+      period: this.period,
+      count: this.count,
+      sum: this.sum,
+      value: isNaN(this.value) ? null : this.value,
+    };
+  }
+
+  static fromState(state: StreamingEMAState): StreamingEMA {
+    const ema = new StreamingEMA(state.period);
+    ema.count = state.count;
+    ema.sum = state.sum;
+    ema.value = state.value ?? NaN;
+    return ema;
+  }
+}
+
+export class StreamingIndicatorEngine {
+  // key = "assetId:timeframe" -> indicator name (e.g. "ema50") -> running state
+  private series: Map<string, Map<string, StreamingEMA>> = new Map();
+
+  private getSeries(assetId: string, timeframe: string): Map<string, StreamingEMA> {
+    const key = `${assetId}:${timeframe}`;
+    let indicators = this.series.get(key);
+    if (!indicators) {
+      indicators = new Map();
+      this.series.set(key, indicators);
+    }
+    return indicators;
+  }
+
+  private getEMAState(assetId: string, timeframe: string, period: number): StreamingEMA {
+    const indicators = this.getSeries(assetId, timeframe);
+    let ema = indicators.get(`ema${period}`);
+    if (!ema) {
+      ema = new StreamingEMA(period);
+      indicators.set(`ema${period}`, ema);
+    }
+    return ema;
+  }
+
+  /**
+   * Feed the next value of a series into its EMAs and return the latest value of each, by period.
+   * A period first requested after the series started only sees values from then on,
+   * so callers should pass the same periods on every update.
+   */
+  updateEMA(assetId: string, timeframe: string, value: number, periods: number[]): Map<number, number | null> {
+    const result = new Map<number, number | null>();
+    for (const period of periods) {
+      const ema = this.getEMAState(assetId, timeframe, period).update(value);
+      result.set(period, isNaN(ema) ? null : ema);
+    }
+    return result;
+  }
+
+  /**
+   * Streaming counterpart of `emaCalculator.calculateEMA50And200`
+   */
+  updateEMA50And200(assetId: string, timeframe: string, value: number): { ema50: number | null; ema200: number | null } {
+    const emas = this.updateEMA(assetId, timeframe, value, [50, 200]);
+    return { ema50: emas.get(50) ?? null, ema200: emas.get(200) ?? null };
+  }
+
+  /**
+   * Latest EMA of a series, or null if it hasn't received `period` values yet
+   */
+  getEMA(assetId: string, timeframe: string, period: number): number | null {
+    const ema = this.series.get(`${assetId}:${timeframe}`)?.get(`ema${period}`);
+    return ema && !isNaN(ema.current) ? ema.current : null;
+  }
+
+  /**
+   * Number of values a series has received
+   */
+  getLength(assetId: string, timeframe: string): number {
+    let length = 0;
+    this.series.get(`${assetId}:${timeframe}`)?.forEach((ema) => {
+      length = Math.max(length, ema.length);
+    });
+    return length;
+  }
+
+  /**
+   * Drop the state of one series, or of every timeframe of an asset
+   */
+  reset(assetId: string, timeframe?: string) {
+    if (timeframe) {
+      this.series.delete(`${assetId}:${timeframe}`);
+      return;
+    }
+    const prefix = `${assetId}:`;
+    for (const key of Array.from(this.series.keys())) {
+      if (key.startsWith(prefix)) {
+        this.series.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Snapshot the series of one timeframe (e.g. "tick"), or every series
+   */
+  checkpoint(timeframe?: string): IndicatorCheckpoint {
+    const series: IndicatorCheckpoint["series"] = {};
+    this.series.forEach((indicators, key) => {
+      if (timeframe && !key.endsWith(`:${timeframe}`)) {
+        return;
+      }
+      series[key] = {};
+      indicators.forEach((ema, name) => {
+        series[key][name] = ema.toState();
+      });
+    });
+    return { createdAt: new Date().toISOString(), series };
+  }
+
+  /**
+   * Replace the state of the series in a checkpoint taken earlier; other series are left as they are
+   */
+  restore(checkpoint: IndicatorCheckpoint) {
+    for (const [key, indicators] of Object.entries(checkpoint.series)) {
+      const restored = new Map<string, StreamingEMA>();
+      for (const [name, state] of Object.entries(indicators)) {
+        restored.set(name, StreamingEMA.fromState(state));
+      }
+      this.series.set(key, restored);
+    }
+  }
+}
+
+export const streamingIndicators = new StreamingIndicatorEngine();
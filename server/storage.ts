@@ -3,6 +3,10 @@ import {
   type InsertAsset,
   type Strategy,
   type InsertStrategy,
+  type StrategyVersion,
+  type InsertStrategyVersion,
+  type FormulaMacro,
+  type InsertFormulaMacro,
   type Signal,
   type InsertSignal,
   type BrokerConfig,
@@ -11,12 +15,14 @@ import {
   type InsertNotificationConfig,
   type CandleData,
   type InsertCandleData,
+  type IndicatorCheckpointRecord,
   type User,
   type InsertUser,
   type Log,
   type InsertLog,
   type DashboardConfig,
   type InsertDashboardConfig,
+  getSignalOutcome,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { hashPassword, verifyPassword } from "./auth";
@@ -36,8 +42,22 @@ export interface IStorage {
   deleteStrategy(id: string): Promise<boolean>;
   mergeStrategies?(strategy1Id: string, strategy2Id: string, logic: "AND" | "OR", timeWindow?: number): Promise<Strategy | undefined>;
 
+  // Versions are immutable, so they can only be added
+  getStrategyVersions(strategyId: string): Promise<StrategyVersion[]>;
+  getStrategyVersion(strategyId: string, version: number): Promise<StrategyVersion | undefined>;
+  createStrategyVersion(version: InsertStrategyVersion): Promise<StrategyVersion>;
+
+  getFormulaMacros(): Promise<FormulaMacro[]>;
+  getFormulaMacro(id: string): Promise<FormulaMacro | undefined>;
+  createFormulaMacro(macro: InsertFormulaMacro): Promise<FormulaMacro>;
+  updateFormulaMacro(id: string, data: Partial<FormulaMacro>): Promise<FormulaMacro | undefined>;
+  deleteFormulaMacro(id: string): Promise<boolean>;
+
   getSignals(): Promise<Signal[]>;
+  getTrackingSignals(): Promise<Signal[]>; // signals whose outcome is still being tracked
+  getSignalsWithOutcomes(strategyId?: string): Promise<Signal[]>; // of one strategy, or of all
   getSignal(id: string): Promise<Signal | undefined>;
+  getLatestSignalByDedupKey(dedupKey: string): Promise<Signal | undefined>;
   createSignal(signal: InsertSignal): Promise<Signal>;
   updateSignal(id: string, data: Partial<Signal>): Promise<Signal | undefined>;
   deleteSignal(id: string): Promise<boolean>;
@@ -57,6 +77,9 @@ export interface IStorage {
   getCandleData(assetId: string, timeframe: string): Promise<CandleData[]>;
   createCandleData(candle: InsertCandleData): Promise<CandleData>;
 
+  getIndicatorCheckpoint(name: string): Promise<IndicatorCheckpointRecord | undefined>;
+  saveIndicatorCheckpoint(checkpoint: IndicatorCheckpointRecord): Promise<IndicatorCheckpointRecord>; // replaces one of the same name
+
   getUser(id: string): Promise<User | undefined>;
   getUsers(): Promise<User[]>;
   getUserByEmail(email: string): Promise<User | undefined>;
@@ -71,19 +94,25 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private assets: Map<string, Asset>;
   private strategies: Map<string, Strategy>;
+  private strategyVersions: Map<string, StrategyVersion>;
+  private formulaMacros: Map<string, FormulaMacro>;
   private signals: Map<string, Signal>;
   private brokerConfigs: Map<string, BrokerConfig>;
   private notificationConfigs: Map<string, NotificationConfig>;
   private candleData: Map<string, CandleData>;
+  private indicatorCheckpoints: Map<string, IndicatorCheckpointRecord>;
   private users: Map<string, User>;
 
   constructor() {
     this.assets = new Map();
     this.strategies = new Map();
+    this.strategyVersions = new Map();
+    this.formulaMacros = new Map();
     this.signals = new Map();
     this.brokerConfigs = new Map();
     this.notificationConfigs = new Map();
     this.candleData = new Map();
+    this.indicatorCheckpoints = new Map();
     this.users = new Map();
 
     this.initializeDefaultData();
@@ -255,6 +284,7 @@ export class MemStorage implements IStorage {
         name: asset.name,
         type: asset.type,
         exchange: asset.exchange || "NSE",
+        tags: [],
         enabled: asset.enabled,
         createdAt: new Date(),
       };
@@ -278,6 +308,7 @@ export class MemStorage implements IStorage {
       ...insertAsset,
       id,
       exchange: insertAsset.exchange ?? null,
+      tags: insertAsset.tags ?? [],
       enabled: insertAsset.enabled ?? true,
       createdAt: new Date(),
     };
@@ -321,6 +352,15 @@ export class MemStorage implements IStorage {
       mergeLogic: null,
       mergeTimeWindow: null,
       linkedStrategies: null,
+      maType: insertStrategy.maType ?? "ema",
+      fastPeriod: insertStrategy.fastPeriod ?? 50,
+      slowPeriod: insertStrategy.slowPeriod ?? 200,
+      cooldownMinutes: insertStrategy.cooldownMinutes ?? 0,
+      assetScope: insertStrategy.assetScope ?? null,
+      direction: insertStrategy.direction ?? null,
+      outcomeRules: insertStrategy.outcomeRules ?? null,
+      sequence: insertStrategy.sequence ?? null,
+      version: 1,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -371,6 +411,15 @@ export class MemStorage implements IStorage {
       mergeLogic: logic,
       mergeTimeWindow: timeWindow ?? 60,
       linkedStrategies: [strategy1Id, strategy2Id] as unknown,
+      maType: s1.maType,
+      fastPeriod: s1.fastPeriod,
+      slowPeriod: s1.slowPeriod,
+      cooldownMinutes: s1.cooldownMinutes,
+      assetScope: null,
+      direction: s1.direction === s2.direction ? s1.direction : null,
+      outcomeRules: s1.outcomeRules,
+      sequence: null,
+      version: 1,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -379,28 +428,79 @@ export class MemStorage implements IStorage {
     return mergedStrategy;
   }
 
+  async getStrategyVersions(strategyId: string): Promise<StrategyVersion[]> {
+    return Array.from(this.strategyVersions.values())
+      .filter((version) => version.strategyId === strategyId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getStrategyVersion(strategyId: string, version: number): Promise<StrategyVersion | undefined> {
+    return Array.from(this.strategyVersions.values()).find(
+      (v) => v.strategyId === strategyId && v.version === version
+    );
+  }
+
+  async createStrategyVersion(insertVersion: InsertStrategyVersion): Promise<StrategyVersion> {
+    if (await this.getStrategyVersion(insertVersion.strategyId, insertVersion.version)) {
+      throw new Error(`Strategy ${insertVersion.strategyId} already has a version ${insertVersion.version}`);
+    }
+
+    const id = randomUUID();
+    const version: StrategyVersion = {
+      ...insertVersion,
+      id,
+      changes: insertVersion.changes ?? [],
+      authorId: insertVersion.authorId ?? null,
+      authorName: insertVersion.authorName ?? null,
+      sourceVersion: insertVersion.sourceVersion ?? null,
+      createdAt: new Date(),
+    };
+    this.strategyVersions.set(id, version);
+    return version;
+  }
+
   async getSignals(): Promise<Signal[]> {
     return Array.from(this.signals.values()).sort(
       (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
     );
   }
 
+  async getTrackingSignals(): Promise<Signal[]> {
+    return (await this.getSignals()).filter((s) => getSignalOutcome(s)?.status === "tracking");
+  }
+
+  async getSignalsWithOutcomes(strategyId?: string): Promise<Signal[]> {
+    return (await this.getSignals()).filter(
+      (s) => getSignalOutcome(s) !== null && (strategyId === undefined || s.strategyId === strategyId)
+    );
+  }
+
   async getSignal(id: string): Promise<Signal | undefined> {
     return this.signals.get(id);
   }
 
+  async getLatestSignalByDedupKey(dedupKey: string): Promise<Signal | undefined> {
+    return (await this.getSignals()).find((s) => s.dedupKey === dedupKey);
+  }
+
   async createSignal(insertSignal: InsertSignal): Promise<Signal> {
     const id = randomUUID();
+    const strategy = this.strategies.get(insertSignal.strategyId);
     const signal: Signal = {
       ...insertSignal,
       id,
+      indicators: insertSignal.indicators ?? null as unknown,
       metadata: insertSignal.metadata ?? null as unknown,
       dismissed: insertSignal.dismissed ?? false,
+      direction: insertSignal.direction ?? "neutral",
+      dedupKey: insertSignal.dedupKey ?? null,
+      repeatCount: insertSignal.repeatCount ?? 0,
+      outcome: insertSignal.outcome ?? null as unknown,
+      strategyVersion: insertSignal.strategyVersion ?? strategy?.version ?? null,
       createdAt: new Date(),
     };
     this.signals.set(id, signal);
 
-    const strategy = this.strategies.get(insertSignal.strategyId);
     if (strategy) {
       strategy.signalCount += 1;
       this.strategies.set(strategy.id, strategy);
@@ -505,6 +605,41 @@ export class MemStorage implements IStorage {
     return this.notificationConfigs.delete(id);
   }
 
+  async getFormulaMacros(): Promise<FormulaMacro[]> {
+    return Array.from(this.formulaMacros.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getFormulaMacro(id: string): Promise<FormulaMacro | undefined> {
+    return this.formulaMacros.get(id);
+  }
+
+  async createFormulaMacro(insertMacro: InsertFormulaMacro): Promise<FormulaMacro> {
+    const id = randomUUID();
+    const macro: FormulaMacro = {
+      ...insertMacro,
+      id,
+      description: insertMacro.description ?? null,
+      params: insertMacro.params ?? [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.formulaMacros.set(id, macro);
+    return macro;
+  }
+
+  async updateFormulaMacro(id: string, data: Partial<FormulaMacro>): Promise<FormulaMacro | undefined> {
+    const macro = this.formulaMacros.get(id);
+    if (!macro) return undefined;
+
+    const updated: FormulaMacro = { ...macro, ...data, updatedAt: new Date() };
+    this.formulaMacros.set(id, updated);
+    return updated;
+  }
+
+  async deleteFormulaMacro(id: string): Promise<boolean> {
+    return this.formulaMacros.delete(id);
+  }
+
   async getCandleData(assetId: string, timeframe: string): Promise<CandleData[]> {
     return Array.from(this.candleData.values())
       .filter((c) => c.assetId === assetId && c.timeframe === timeframe)
@@ -523,6 +658,15 @@ export class MemStorage implements IStorage {
     return candle;
   }
 
+  async getIndicatorCheckpoint(name: string): Promise<IndicatorCheckpointRecord | undefined> {
+    return this.indicatorCheckpoints.get(name);
+  }
+
+  async saveIndicatorCheckpoint(checkpoint: IndicatorCheckpointRecord): Promise<IndicatorCheckpointRecord> {
+    this.indicatorCheckpoints.set(checkpoint.name, checkpoint);
+    return checkpoint;
+  }
+
   async getUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
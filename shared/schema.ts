@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, boolean, integer, real, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, integer, real, timestamp, jsonb, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,6 +10,7 @@ export const assets = pgTable("assets", {
   type: text("type").notNull(),
   exchange: text("exchange"),
   instrumentToken: integer("instrument_token"), // Zerodha/broker instrument token for live data
+  tags: text("tags").array().notNull().default(sql`ARRAY[]::text[]`), // free-form labels strategies can be scoped to, e.g. "nifty50"
   enabled: boolean("enabled").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -22,6 +23,9 @@ export const insertAssetSchema = createInsertSchema(assets).omit({
 export type InsertAsset = z.infer<typeof insertAssetSchema>;
 export type Asset = typeof assets.$inferSelect;
 
+export const ASSET_TYPES = ["indian_stock", "indian_futures", "forex"] as const;
+export type AssetType = typeof ASSET_TYPES[number];
+
 export const strategies = pgTable("strategies", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -36,11 +40,178 @@ export const strategies = pgTable("strategies", {
   mergeLogic: text("merge_logic"), // "AND" or "OR"
   mergeTimeWindow: integer("merge_time_window"), // time window in seconds for merging
   linkedStrategies: jsonb("linked_strategies"), // array of strategy IDs that are merged
+  maType: text("ma_type").notNull().default("ema"), // moving average behind fast_ma/slow_ma, one of MOVING_AVERAGE_TYPES
+  fastPeriod: integer("fast_period").notNull().default(50),
+  slowPeriod: integer("slow_period").notNull().default(200),
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(0), // repeats of a signal within this window are counted, not sent
+  assetScope: jsonb("asset_scope"), // StrategyAssetScope; null means every asset
+  direction: text("direction"), // "long", "short" or "neutral"; null uses the preset's own direction (neutral for custom strategies)
+  outcomeRules: jsonb("outcome_rules"), // SignalOutcomeRules; null uses DEFAULT_OUTCOME_RULES
+  sequence: jsonb("sequence"), // StrategySequence; set for sequence strategies, which fire when their steps match in order
+  version: integer("version").notNull().default(1), // bumped on every change, see strategyVersions
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const insertStrategySchema = createInsertSchema(strategies).omit({
+// rma is Wilder's smoothing; dema/tema are double/triple EMA; hma is the Hull moving average
+export const MOVING_AVERAGE_TYPES = ["ema", "sma", "wma", "rma", "dema", "tema", "hma"] as const;
+export type MovingAverageType = typeof MOVING_AVERAGE_TYPES[number];
+
+// Candle histories hold 250 closed bars, so that is the longest period a moving average can use
+export const MAX_MOVING_AVERAGE_PERIOD = 250;
+
+/**
+ * Number of bars a moving average needs before its first value
+ */
+export function movingAverageWarmup(type: MovingAverageType, period: number): number {
+  switch (type) {
+    case "dema": return 2 * period - 1;
+    case "tema": return 3 * period - 2;
+    case "hma": return period + Math.floor(Math.sqrt(period)) - 1;
+    default: return period;
+  }
+}
+
+// Fast/slow moving average settings of a strategy, also accepted on their own when updating one
+export const movingAverageSettingsSchema = z.object({
+  maType: z.enum(MOVING_AVERAGE_TYPES),
+  fastPeriod: z.number().int().min(1).max(MAX_MOVING_AVERAGE_PERIOD),
+  slowPeriod: z.number().int().min(2).max(MAX_MOVING_AVERAGE_PERIOD),
+}).refine((settings) => settings.fastPeriod < settings.slowPeriod, {
+  message: "Fast period must be shorter than slow period",
+  path: ["fastPeriod"],
+}).refine((settings) => movingAverageWarmup(settings.maType, settings.slowPeriod) <= MAX_MOVING_AVERAGE_PERIOD, {
+  message: `Slow moving average needs more than the ${MAX_MOVING_AVERAGE_PERIOD} bars of history that are kept`,
+  path: ["slowPeriod"],
+});
+
+export type MovingAverageSettings = z.infer<typeof movingAverageSettingsSchema>;
+
+export const SIGNAL_DIRECTIONS = ["long", "short", "neutral"] as const;
+export type SignalDirection = typeof SIGNAL_DIRECTIONS[number];
+
+// Longest cooldown a strategy can set between signals for the same asset and timeframe (one day)
+export const MAX_SIGNAL_COOLDOWN_MINUTES = 1440;
+
+// Longest horizon, in bars of the signal's timeframe, that a signal's outcome is followed for
+export const MAX_OUTCOME_HORIZON = 250;
+
+export const cooldownMinutesSchema = z.number().int().min(0).max(MAX_SIGNAL_COOLDOWN_MINUTES);
+
+// Assets a strategy runs on. Listed assets are always included; any other asset must match
+// every non-empty filter (one of the types, one of the exchanges, and one of the tags).
+// An empty scope covers every asset.
+export const strategyAssetScopeSchema = z.object({
+  assetIds: z.array(z.string()).default([]),
+  assetTypes: z.array(z.enum(ASSET_TYPES)).default([]),
+  exchanges: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([]),
+});
+
+export type StrategyAssetScope = z.infer<typeof strategyAssetScopeSchema>;
+
+/**
+ * Whether a strategy with the given scope runs on the asset
+ */
+export function isAssetInScope(asset: Pick<Asset, "id" | "type" | "exchange" | "tags">, scope: StrategyAssetScope | null | undefined): boolean {
+  if (!scope) return true;
+  if (scope.assetIds.includes(asset.id)) return true;
+
+  const hasFilters = scope.assetTypes.length > 0 || scope.exchanges.length > 0 || scope.tags.length > 0;
+  if (!hasFilters) return scope.assetIds.length === 0;
+
+  return (
+    (scope.assetTypes.length === 0 || scope.assetTypes.includes(asset.type as AssetType)) &&
+    (scope.exchanges.length === 0 || (asset.exchange !== null && scope.exchanges.includes(asset.exchange))) &&
+    (scope.tags.length === 0 || (asset.tags ?? []).some((tag) => scope.tags.includes(tag)))
+  );
+}
+
+/**
+ * The asset scope stored on a strategy, or null when it runs on every asset
+ */
+export function getStrategyAssetScope(strategy: Pick<Strategy, "assetScope">): StrategyAssetScope | null {
+  return strategy.assetScope ? strategyAssetScopeSchema.parse(strategy.assetScope) : null;
+}
+
+// How a strategy's signals are followed up: forward returns are recorded after each of `horizons` bars,
+// and the outcome is a win if the price reaches `targetPercent` in the signal's direction before it moves
+// `stopPercent` against it. Without a target or stop, the return at the last horizon decides.
+export const signalOutcomeRulesSchema = z.object({
+  horizons: z.array(z.number().int().min(1).max(MAX_OUTCOME_HORIZON)).min(1).max(10).default([3, 6, 12]),
+  targetPercent: z.number().positive().max(100).nullable().default(null),
+  stopPercent: z.number().positive().max(100).nullable().default(null),
+});
+
+export type SignalOutcomeRules = z.infer<typeof signalOutcomeRulesSchema>;
+
+export const DEFAULT_OUTCOME_RULES: SignalOutcomeRules = { horizons: [3, 6, 12], targetPercent: null, stopPercent: null };
+
+/**
+ * Outcome rules stored on a strategy, or the defaults when it has none
+ */
+export function getStrategyOutcomeRules(strategy: Pick<Strategy, "outcomeRules">): SignalOutcomeRules {
+  return strategy.outcomeRules ? signalOutcomeRulesSchema.parse(strategy.outcomeRules) : DEFAULT_OUTCOME_RULES;
+}
+
+// Longest a sequence may wait for its next step, in bars of the strategy's timeframe
+export const MAX_SEQUENCE_STEP_BARS = 100;
+export const MAX_SEQUENCE_STEPS = 10;
+
+// One step of a sequence strategy: a formula, or the condition of a preset strategy type, that must hold
+// on a bar within `maxBars` bars of the previous step (ignored for the first step). While the sequence
+// waits for this step, a bar on which the `invalidation` formula holds abandons it.
+export const sequenceStepSchema = z.object({
+  formula: z.string().trim().min(1).nullable().default(null),
+  preset: z.string().min(1).nullable().default(null),
+  maxBars: z.number().int().min(1).max(MAX_SEQUENCE_STEP_BARS).default(3),
+  invalidation: z.string().trim().min(1).nullable().default(null),
+}).refine((step) => (step.formula === null) !== (step.preset === null), {
+  message: "Each step needs either a formula or a preset",
+  path: ["formula"],
+});
+
+export const strategySequenceSchema = z.object({
+  steps: z.array(sequenceStepSchema).min(2).max(MAX_SEQUENCE_STEPS),
+});
+
+export type SequenceStep = z.infer<typeof sequenceStepSchema>;
+export type StrategySequence = z.infer<typeof strategySequenceSchema>;
+
+/**
+ * Steps of a sequence strategy, or null for any other strategy
+ */
+export function getStrategySequence(strategy: Pick<Strategy, "sequence">): StrategySequence | null {
+  return strategy.sequence ? strategySequenceSchema.parse(strategy.sequence) : null;
+}
+
+/**
+ * Display name of a sequence step: its preset type or formula
+ */
+export function sequenceStepLabel(step: Pick<SequenceStep, "formula" | "preset">): string {
+  return step.preset ?? step.formula ?? "";
+}
+
+// Moving averages of strategies that don't configure their own
+export const DEFAULT_MOVING_AVERAGES: MovingAverageSettings = { maType: "ema", fastPeriod: 50, slowPeriod: 200 };
+
+/**
+ * Display name of a moving average, e.g. "EMA 9"
+ */
+export function movingAverageLabel(type: string, period: number): string {
+  return `${type.toUpperCase()} ${period}`;
+}
+
+export const insertStrategySchema = createInsertSchema(strategies, {
+  maType: z.enum(MOVING_AVERAGE_TYPES).optional(),
+  fastPeriod: z.number().int().min(1).max(MAX_MOVING_AVERAGE_PERIOD).optional(),
+  slowPeriod: z.number().int().min(2).max(MAX_MOVING_AVERAGE_PERIOD).optional(),
+  cooldownMinutes: cooldownMinutesSchema.optional(),
+  assetScope: strategyAssetScopeSchema.nullable().optional(),
+  direction: z.enum(SIGNAL_DIRECTIONS).nullable().optional(),
+  outcomeRules: signalOutcomeRulesSchema.nullable().optional(),
+  sequence: strategySequenceSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -48,26 +219,111 @@ export const insertStrategySchema = createInsertSchema(strategies).omit({
   mergeLogic: true,
   mergeTimeWindow: true,
   linkedStrategies: true,
+  version: true,
+}).refine((strategy) => (strategy.fastPeriod ?? 50) < (strategy.slowPeriod ?? 200), {
+  message: "Fast period must be shorter than slow period",
+  path: ["fastPeriod"],
+}).refine((strategy) => movingAverageWarmup(strategy.maType ?? "ema", strategy.slowPeriod ?? 200) <= MAX_MOVING_AVERAGE_PERIOD, {
+  message: `Slow moving average needs more than the ${MAX_MOVING_AVERAGE_PERIOD} bars of history that are kept`,
+  path: ["slowPeriod"],
 });
 
 export type InsertStrategy = z.infer<typeof insertStrategySchema>;
 export type Strategy = typeof strategies.$inferSelect;
 
+// Immutable history of strategy changes: each row holds the strategy as it was saved at one version
+export const strategyVersions = pgTable("strategy_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  strategyId: varchar("strategy_id").notNull().references(() => strategies.id, { onDelete: 'cascade' }),
+  version: integer("version").notNull(),
+  action: text("action").notNull(), // StrategyVersionAction
+  snapshot: jsonb("snapshot").notNull(), // StrategySnapshot
+  changes: jsonb("changes").notNull().default([]), // StrategyVersionChange[] from the previous version
+  authorId: varchar("author_id").references(() => users.id, { onDelete: 'set null' }),
+  authorName: text("author_name"), // kept when the author's account is deleted
+  sourceVersion: integer("source_version"), // version a rollback restored
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.strategyId, table.version)]);
+
+// "baseline" records a strategy created before versions were kept, as it was before its first recorded change
+export const STRATEGY_VERSION_ACTIONS = ["create", "update", "rollback", "baseline"] as const;
+export type StrategyVersionAction = typeof STRATEGY_VERSION_ACTIONS[number];
+
+// Strategy fields a version records: everything but its identity and bookkeeping
+export type StrategySnapshot = Omit<Strategy, "id" | "signalCount" | "version" | "createdAt" | "updatedAt">;
+
+export interface StrategyVersionChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export const insertStrategyVersionSchema = createInsertSchema(strategyVersions, {
+  action: z.enum(STRATEGY_VERSION_ACTIONS),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertStrategyVersion = z.infer<typeof insertStrategyVersionSchema>;
+export type StrategyVersion = typeof strategyVersions.$inferSelect;
+
+/**
+ * Differences between two versions of a strategy, as returned by the compare endpoint
+ */
+export interface StrategyVersionComparison {
+  strategyId: string;
+  from: number;
+  to: number;
+  changes: StrategyVersionChange[];
+}
+
+// Named formula fragments that strategy formulas can call, e.g. near_ema200(0.01)
+export const formulaMacros = pgTable("formula_macros", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  params: jsonb("params").notNull().default([]), // array of parameter names, in call order
+  expression: text("expression").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertFormulaMacroSchema = createInsertSchema(formulaMacros).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertFormulaMacro = z.infer<typeof insertFormulaMacroSchema>;
+export type FormulaMacro = typeof formulaMacros.$inferSelect;
+
 export const signals = pgTable("signals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   strategyId: varchar("strategy_id").notNull().references(() => strategies.id, { onDelete: 'cascade' }),
   assetId: varchar("asset_id").notNull().references(() => assets.id, { onDelete: 'cascade' }),
   timeframe: text("timeframe").notNull(),
   type: text("type").notNull(),
+  direction: text("direction").notNull().default("neutral"), // SignalDirection
   price: real("price").notNull(),
   ema50: real("ema50").notNull(),
   ema200: real("ema200").notNull(),
+  indicators: jsonb("indicators"), // indicator values the strategy read, by label, e.g. { "EMA 9": 101.2, "rsi(close, 14)": 61.5 }
   metadata: jsonb("metadata"),
   dismissed: boolean("dismissed").notNull().default(false),
+  dedupKey: text("dedup_key"), // "strategyId:assetId:timeframe:type", see signalDedupKey
+  repeatCount: integer("repeat_count").notNull().default(0), // repeats suppressed during the strategy's cooldown
+  outcome: jsonb("outcome"), // SignalOutcome, filled in by the outcome tracker as bars close after the signal
+  strategyVersion: integer("strategy_version"), // version of the strategy that raised it; null for signals from before versions were kept
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  // The cooldown check looks up the latest signal by dedup key for every candidate signal
+  index("signals_dedup_key_created_at_idx").on(table.dedupKey, table.createdAt),
+]);
 
-export const insertSignalSchema = createInsertSchema(signals).omit({
+export const insertSignalSchema = createInsertSchema(signals, {
+  direction: z.enum(SIGNAL_DIRECTIONS).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -75,6 +331,132 @@ export const insertSignalSchema = createInsertSchema(signals).omit({
 export type InsertSignal = z.infer<typeof insertSignalSchema>;
 export type Signal = typeof signals.$inferSelect;
 
+/**
+ * How strongly the market agreed with a signal's direction when it fired, stored in signals.metadata.strength.
+ * `distance` is the price's distance from the fast and slow MAs and `slope` the fast MA's change over the
+ * last bars, both in units of the average bar range and signed so positive agrees with the direction.
+ * `score` squashes them into 0-100.
+ */
+export interface SignalStrength {
+  score: number;
+  distance: number;
+  slope: number;
+}
+
+/**
+ * Strength stored with a signal, or null for signals recorded before strength was computed
+ */
+export function getSignalStrength(signal: Pick<Signal, "metadata">): SignalStrength | null {
+  const metadata = signal.metadata as { strength?: SignalStrength } | null;
+  return metadata?.strength ?? null;
+}
+
+export type SignalOutcomeResult = "win" | "loss" | "expired";
+
+/**
+ * What happened after a signal, stored in signals.outcome. Returns and excursions are percentages of
+ * `entryPrice`, signed so positive is in the signal's direction (neutral signals are measured as long).
+ * `returns` maps each horizon reached so far to the close-to-entry return after that many bars;
+ * `mfe` is the best and `mae` the worst high/low seen, so mfe >= 0 >= mae.
+ * `result` is set once the target or stop is hit, or when tracking completes after the last horizon;
+ * it stays null for neutral signals, which have no direction to win or lose in.
+ */
+export interface SignalOutcome {
+  status: "tracking" | "complete";
+  rules: SignalOutcomeRules;
+  entryPrice: number;
+  bars: number;
+  lastBarAt: string | null; // start of the last bar counted
+  returns: Record<string, number>;
+  mfe: number;
+  mae: number;
+  result: SignalOutcomeResult | null;
+  resultBar: number | null; // bar the result was decided on
+}
+
+/**
+ * Outcome results of one strategy's signals, for deciding which strategies to retire.
+ * Returns and excursions are averages over the signals that reached them, in percent.
+ * Covers the signals still stored: complete outcomes are kept for a limited window (see database-cleanup).
+ */
+export interface StrategyOutcomeSummary {
+  strategyId: string;
+  signals: number; // signals with an outcome
+  tracking: number;
+  wins: number;
+  losses: number;
+  expired: number;
+  winRate: number | null; // wins / (wins + losses)
+  averageReturns: Record<string, number>; // by horizon
+  averageMfe: number | null;
+  averageMae: number | null;
+}
+
+/**
+ * Outcome tracked for a signal, or null for signals recorded before outcomes were tracked
+ */
+export function getSignalOutcome(signal: Pick<Signal, "outcome">): SignalOutcome | null {
+  return (signal.outcome as SignalOutcome | null) ?? null;
+}
+
+/**
+ * When each step of a sequence strategy matched, stored in signals.metadata.sequence
+ */
+export interface SequenceStepMatch {
+  step: number; // 1-based
+  label: string;
+  matchedAt: string; // start of the bar the step matched on
+}
+
+/**
+ * Step matches of a sequence strategy's signal, or null for other signals
+ */
+export function getSignalSequence(signal: Pick<Signal, "metadata">): SequenceStepMatch[] | null {
+  const metadata = signal.metadata as { sequence?: { steps: SequenceStepMatch[] } } | null;
+  return metadata?.sequence?.steps ?? null;
+}
+
+export const CANDLESTICK_PATTERNS = [
+  "bullish_engulfing",
+  "bearish_engulfing",
+  "hammer",
+  "shooting_star",
+  "doji",
+  "inside_bar",
+  "morning_star",
+  "evening_star",
+] as const;
+export type CandlestickPattern = typeof CANDLESTICK_PATTERNS[number];
+
+/**
+ * Candlestick patterns a formula strategy's signal matched on its bar, stored in signals.metadata.patterns,
+ * or null for signals whose formula checks no pattern
+ */
+export function getSignalPatterns(signal: Pick<Signal, "metadata">): CandlestickPattern[] | null {
+  const metadata = signal.metadata as { patterns?: CandlestickPattern[] } | null;
+  return metadata?.patterns ?? null;
+}
+
+/**
+ * Key shared by every signal a strategy raises of one type for one asset and timeframe,
+ * used to suppress repeats during the strategy's cooldown
+ */
+export function signalDedupKey(signal: Pick<InsertSignal, "strategyId" | "assetId" | "timeframe" | "type">): string {
+  return `${signal.strategyId}:${signal.assetId}:${signal.timeframe}:${signal.type}`;
+}
+
+export type IndicatorSnapshot = Record<string, number>;
+
+/**
+ * Indicator values to show for a signal. Signals stored before snapshots were kept only have EMA 50/200.
+ */
+export function getSignalIndicators(signal: Pick<Signal, "indicators" | "ema50" | "ema200">): IndicatorSnapshot {
+  if (signal.indicators && typeof signal.indicators === "object") {
+    return signal.indicators as IndicatorSnapshot;
+  }
+  return { "EMA 50": signal.ema50, "EMA 200": signal.ema200 };
+}
+
 export const brokerConfigs = pgTable("broker_configs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
@@ -143,13 +525,28 @@ export const insertCandleDataSchema = createInsertSchema(candleData).omit({
 export type InsertCandleData = z.infer<typeof insertCandleDataSchema>;
 export type CandleData = typeof candleData.$inferSelect;
 
+// Saved streaming indicator state of series without stored candles to replay, e.g. the live feeds' tick EMAs
+export const indicatorCheckpoints = pgTable("indicator_checkpoints", {
+  name: text("name").primaryKey(), // which series, e.g. "tick"
+  series: jsonb("series").notNull(), // IndicatorCheckpoint["series"], see streaming-indicators
+  createdAt: timestamp("created_at").notNull(),
+});
+
+export type IndicatorCheckpointRecord = typeof indicatorCheckpoints.$inferSelect;
+
 export type SignalType = 
   | "15m_above_50_bullish"
   | "5m_above_200_reversal"
   | "5m_pullback_to_200"
   | "5m_below_200_bearish"
   | "5m_touch_200_downtrend"
-  | "15m_below_200_breakdown";
+  | "15m_below_200_breakdown"
+  | "15m_cross_above_50_bullish"
+  | "5m_cross_above_200_reversal"
+  | "5m_cross_pullback_to_200"
+  | "5m_cross_below_200_bearish"
+  | "5m_cross_touch_200_downtrend"
+  | "15m_cross_below_200_breakdown";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -210,8 +607,40 @@ export const insertDashboardConfigSchema = createInsertSchema(dashboardConfigs).
 export type InsertDashboardConfig = z.infer<typeof insertDashboardConfigSchema>;
 export type DashboardConfig = typeof dashboardConfigs.$inferSelect;
 
-export type AssetType = "indian_stock" | "indian_futures" | "forex";
-export type Timeframe = "5m" | "15m";
+// Candle timeframes the live feeds aggregate ticks into, shortest first
+export const TIMEFRAMES = ["1m", "3m", "5m", "10m", "15m", "30m", "1h", "4h", "1D"] as const;
+export type Timeframe = typeof TIMEFRAMES[number];
+
+// Candle length of each timeframe. Candles start at multiples of their length since the epoch,
+// so 1h, 4h and 1D candles are aligned to UTC.
+export const TIMEFRAME_MS: Record<string, number> = {
+  "1m": 60 * 1000,
+  "3m": 3 * 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "10m": 10 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "30m": 30 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1D": 24 * 60 * 60 * 1000,
+};
+
+export const TIMEFRAME_LABELS: Record<Timeframe, string> = {
+  "1m": "1 Minute",
+  "3m": "3 Minutes",
+  "5m": "5 Minutes",
+  "10m": "10 Minutes",
+  "15m": "15 Minutes",
+  "30m": "30 Minutes",
+  "1h": "1 Hour",
+  "4h": "4 Hours",
+  "1D": "1 Day",
+};
+
+export function isTimeframe(value: string): value is Timeframe {
+  return (TIMEFRAMES as readonly string[]).includes(value);
+}
+
 export type BrokerType = "indian" | "forex";
 export type NotificationChannel = "email" | "sms" | "webhook" | "discord" | "telegram";
 export type LogLevel = "info" | "warn" | "error";